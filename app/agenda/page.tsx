@@ -0,0 +1,8 @@
+import { TodoWorkspace } from '@/components/feature/todos/TodoWorkspace';
+
+/**
+ * The todos due over the coming days, in time order
+ */
+export default function AgendaPage() {
+  return <TodoWorkspace view="agenda" />;
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TodoService } from '@/application/services/todo/todo.service';
+import { TagService } from '@/application/services/tag/tag.service';
+import { ProjectService } from '@/application/services/project/project.service';
+import { ValidationError } from '@/domain/errors';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+import {
+  INTERNAL_ERROR_CODE,
+  UNAVAILABLE_ERROR_CODE,
+} from '@/application/services/shared/out-dtos/error-response.dto';
+
+// HTTP status for each error code; other domain errors are bad requests
+const ERROR_STATUS: Record<string, number> = {
+  VALIDATION_FAILED: 422,
+  TODO_NOT_FOUND: 404,
+  TAG_NOT_FOUND: 404,
+  PROJECT_NOT_FOUND: 404,
+  INVALID_TRANSITION: 409,
+  OPEN_SUBTASKS: 409,
+  CONFLICT: 409,
+  VERSION_CONFLICT: 409,
+  [INTERNAL_ERROR_CODE]: 500,
+  [UNAVAILABLE_ERROR_CODE]: 503,
+};
+
+export interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Resolve the todo service via the service invoker
+ */
+export function getTodoService(): TodoService {
+  const factory = AppDependencyFactory.getInstance();
+  return factory.getServiceInvoker().invoke<TodoService>('todoService');
+}
+
+/**
+ * Resolve the tag service via the service invoker
+ */
+export function getTagService(): TagService {
+  const factory = AppDependencyFactory.getInstance();
+  return factory.getServiceInvoker().invoke<TagService>('tagService');
+}
+
+/**
+ * Resolve the todo list service via the service invoker
+ */
+export function getProjectService(): ProjectService {
+  const factory = AppDependencyFactory.getInstance();
+  return factory.getServiceInvoker().invoke<ProjectService>('projectService');
+}
+
+/**
+ * Parse the request body as JSON
+ */
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+}
+
+/**
+ * Map a thrown error to an HTTP error response
+ * The body is the error DTO under `error`
+ */
+export function toErrorResponse(error: unknown): NextResponse {
+  const dto = ErrorMapper.toResponseDTO(error, 'Unexpected server error');
+  return NextResponse.json({ error: dto }, { status: ERROR_STATUS[dto.code] ?? 400 });
+}
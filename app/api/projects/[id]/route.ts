@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { ProjectDTOValidator } from '@/application/services/project/validators/project-dto.validator';
+import { ProjectNotFoundError } from '@/domain/errors';
+import { getProjectService, readJson, RouteContext, toErrorResponse } from '../../_lib/api';
+
+/**
+ * GET /api/projects/:id
+ * Fetch a single todo list
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const project = await getProjectService().getProjectById(id);
+    if (!project) {
+      throw new ProjectNotFoundError(id);
+    }
+    return NextResponse.json(project);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/projects/:id
+ * Rename, archive/unarchive or reposition a todo list
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const dto = ProjectDTOValidator.toUpdateProjectDTO(await readJson(request));
+    const project = await getProjectService().updateProject(id, dto);
+    return NextResponse.json(project);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/projects/:id?todos=cascade|reassign&target=<listId|inbox>
+ * Delete a todo list, deleting its todos or moving them (to the Inbox by default)
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const dto = ProjectDTOValidator.toDeleteProjectDTO(new URL(request.url).searchParams);
+    await getProjectService().deleteProject(id, dto);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { ProjectDTOValidator } from '@/application/services/project/validators/project-dto.validator';
+import { getProjectService, readJson, toErrorResponse } from '../_lib/api';
+
+/**
+ * GET /api/projects
+ * List all todo lists in sidebar order
+ */
+export async function GET() {
+  try {
+    const projects = await getProjectService().getAllProjects();
+    return NextResponse.json(projects);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/projects
+ * Create a todo list
+ */
+export async function POST(request: Request) {
+  try {
+    const dto = ProjectDTOValidator.toCreateProjectDTO(await readJson(request));
+    const project = await getProjectService().createProject(dto);
+    return NextResponse.json(project, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
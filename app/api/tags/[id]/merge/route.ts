@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { TagDTOValidator } from '@/application/services/tag/validators/tag-dto.validator';
+import { getTagService, readJson, RouteContext, toErrorResponse } from '../../../_lib/api';
+
+/**
+ * POST /api/tags/:id/merge
+ * Merge the tag into `targetId`, returning the target tag
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const targetId = TagDTOValidator.toMergeTargetId(await readJson(request));
+    const tag = await getTagService().mergeTags(id, targetId);
+    return NextResponse.json(tag);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { TagDTOValidator } from '@/application/services/tag/validators/tag-dto.validator';
+import { TagNotFoundError } from '@/domain/errors';
+import { getTagService, readJson, RouteContext, toErrorResponse } from '../../_lib/api';
+
+/**
+ * GET /api/tags/:id
+ * Fetch a single tag
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const tag = await getTagService().getTagById(id);
+    if (!tag) {
+      throw new TagNotFoundError(id);
+    }
+    return NextResponse.json(tag);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/tags/:id
+ * Rename and/or recolor a tag
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const dto = TagDTOValidator.toUpdateTagDTO(await readJson(request));
+    const tag = await getTagService().updateTag(id, dto);
+    return NextResponse.json(tag);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/tags/:id
+ * Delete a tag and remove it from every todo
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await getTagService().deleteTag(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { TagDTOValidator } from '@/application/services/tag/validators/tag-dto.validator';
+import { getTagService, readJson, toErrorResponse } from '../_lib/api';
+
+/**
+ * GET /api/tags
+ * List all tags, sorted by name
+ */
+export async function GET() {
+  try {
+    const tags = await getTagService().getAllTags();
+    return NextResponse.json(tags);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/tags
+ * Create a tag
+ */
+export async function POST(request: Request) {
+  try {
+    const dto = TagDTOValidator.toCreateTagDTO(await readJson(request));
+    const tag = await getTagService().createTag(dto);
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
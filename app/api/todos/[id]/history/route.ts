@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getTodoService, toErrorResponse, RouteContext } from '../../../_lib/api';
+
+/**
+ * GET /api/todos/:id/history
+ * List the changes made to a todo, newest first
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const history = await getTodoService().getHistory(id);
+    return NextResponse.json(history);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getTodoService, toErrorResponse, RouteContext } from '../../../_lib/api';
+
+/**
+ * POST /api/todos/:id/restore
+ * Bring back a deleted todo with its original id and timestamps
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const todo = await getTodoService().restoreTodo(id);
+    return NextResponse.json(todo);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { TodoDTOValidator } from '@/application/services/todo/validators/todo-dto.validator';
+import { TodoNotFoundError } from '@/domain/errors';
+import {
+  getTodoService,
+  readJson,
+  toErrorResponse,
+  RouteContext,
+} from '../../_lib/api';
+
+/**
+ * GET /api/todos/:id
+ * Fetch a single todo
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const todo = await getTodoService().getTodoById(id);
+    if (!todo) {
+      throw new TodoNotFoundError(id);
+    }
+    return NextResponse.json(todo);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/todos/:id
+ * Update the editable fields and the status
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const dto = TodoDTOValidator.toUpdateTodoDTO(await readJson(request));
+    const todo = await getTodoService().updateTodo(id, dto);
+    return NextResponse.json(todo);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/todos/:id
+ * Move a todo and its subtasks to the trash
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await getTodoService().deleteTodo(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { TodoDTOValidator } from '@/application/services/todo/validators/todo-dto.validator';
+import {
+  getTodoService,
+  readJson,
+  toErrorResponse,
+  RouteContext,
+} from '../../../_lib/api';
+
+/**
+ * PATCH /api/todos/:id/status
+ * Move a todo to another status, body: { status }
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const status = TodoDTOValidator.toStatus(await readJson(request));
+    const todo = await getTodoService().transitionStatus(id, status);
+    return NextResponse.json(todo);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
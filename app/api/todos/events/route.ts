@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getTodoService } from '../../_lib/api';
+
+// Comment lines sent this often keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+// How long a disconnected client waits before reconnecting
+const RECONNECT_DELAY_MS = 3000;
+
+/**
+ * GET /api/todos/events
+ * Stream every saved todo change as Server-Sent Events, one change event DTO per message
+ */
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const unsubscribe = getTodoService().subscribe((event) => {
+        send(`data: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      stop = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away
+        }
+      });
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
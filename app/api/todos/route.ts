@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { TodoDTOValidator } from '@/application/services/todo/validators/todo-dto.validator';
+import { getTodoService, readJson, toErrorResponse } from '../_lib/api';
+
+/**
+ * GET /api/todos?q=&status=&tag=&list=&topLevel=&parent=&createdFrom=&createdTo=&dueFrom=&dueTo=&undated=&sortBy=&sortDirection=&cursor=&limit=
+ * Search todos, returning { items, total, nextCursor }
+ */
+export async function GET(request: Request) {
+  try {
+    const query = TodoDTOValidator.toTodoQuery(new URL(request.url).searchParams);
+    const page = await getTodoService().searchTodos(query);
+    return NextResponse.json(page);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/todos
+ * Create a todo
+ */
+export async function POST(request: Request) {
+  try {
+    const dto = TodoDTOValidator.toCreateTodoDTO(await readJson(request));
+    const todo = await getTodoService().createTodo(dto);
+    return NextResponse.json(todo, { status: 201 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getTodoService, toErrorResponse, RouteContext } from '../../../_lib/api';
+
+/**
+ * DELETE /api/todos/trash/:id
+ * Remove a deleted todo for good
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await getTodoService().purgeTodo(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
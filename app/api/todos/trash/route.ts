@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getTodoService, toErrorResponse } from '../../_lib/api';
+
+/**
+ * GET /api/todos/trash
+ * List deleted todos, most recently deleted first; expired trash is purged first
+ */
+export async function GET() {
+  try {
+    const todos = await getTodoService().getTrash();
+    return NextResponse.json(todos);
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/todos/trash
+ * Empty the trash
+ */
+export async function DELETE() {
+  try {
+    await getTodoService().emptyTrash();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,8 @@
+import { TodoWorkspace } from '@/components/feature/todos/TodoWorkspace';
+
+/**
+ * Completed todos archived out of the lists
+ */
+export default function ArchivePage() {
+  return <TodoWorkspace view="archive" />;
+}
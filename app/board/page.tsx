@@ -0,0 +1,8 @@
+import { TodoWorkspace } from '@/components/feature/todos/TodoWorkspace';
+
+/**
+ * Kanban board of the todos, one column per status
+ */
+export default function BoardPage() {
+  return <TodoWorkspace view="board" />;
+}
@@ -0,0 +1,8 @@
+import { TodoWorkspace } from '@/components/feature/todos/TodoWorkspace';
+
+/**
+ * Month and week calendar of the todos by due date
+ */
+export default function CalendarPage() {
+  return <TodoWorkspace view="calendar" />;
+}
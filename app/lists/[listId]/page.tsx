@@ -0,0 +1,13 @@
+import { TodoWorkspace } from '@/components/feature/todos/TodoWorkspace';
+
+interface ListPageProps {
+  params: Promise<{ listId: string }>;
+}
+
+/**
+ * A single todo list; `inbox` shows the todos that belong to no list
+ */
+export default async function ListPage({ params }: ListPageProps) {
+  const { listId } = await params;
+  return <TodoWorkspace listId={listId} />;
+}
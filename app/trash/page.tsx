@@ -0,0 +1,8 @@
+import { TodoWorkspace } from '@/components/feature/todos/TodoWorkspace';
+
+/**
+ * Deleted todos, kept until they are restored or purged
+ */
+export default function TrashPage() {
+  return <TodoWorkspace view="trash" />;
+}
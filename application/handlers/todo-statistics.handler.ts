@@ -0,0 +1,44 @@
+import {
+  DomainEventBus,
+  TodoCompleted,
+  TodoCreated,
+  TodoDeleted,
+  TodoRenamed,
+  TodoReopened,
+} from '@/domain/events';
+
+export interface TodoStatistics {
+  created: number;
+  completed: number;
+  reopened: number;
+  renamed: number;
+  deleted: number;
+}
+
+/**
+ * Todo Statistics Handler
+ * Counts the todo domain events dispatched since the app started
+ * Registered in the LogicInvoker as 'todoStatistics'
+ */
+export class TodoStatisticsHandler {
+  private counts: TodoStatistics = { created: 0, completed: 0, reopened: 0, renamed: 0, deleted: 0 };
+
+  /**
+   * Start counting the events dispatched on the bus
+   */
+  subscribeTo(bus: DomainEventBus): void {
+    bus.subscribe<TodoCreated>('TodoCreated', () => this.count('created'));
+    bus.subscribe<TodoCompleted>('TodoCompleted', () => this.count('completed'));
+    bus.subscribe<TodoReopened>('TodoReopened', () => this.count('reopened'));
+    bus.subscribe<TodoRenamed>('TodoRenamed', () => this.count('renamed'));
+    bus.subscribe<TodoDeleted>('TodoDeleted', () => this.count('deleted'));
+  }
+
+  getStatistics(): TodoStatistics {
+    return { ...this.counts };
+  }
+
+  private count(key: keyof TodoStatistics): void {
+    this.counts[key] += 1;
+  }
+}
@@ -1,11 +1,42 @@
 import { RepositoryInvoker } from '../repositories/repository.invoker';
 import { ServiceInvoker } from '../services/service.invoker';
 import { InMemoryTodoRepository } from '../repositories/todos/InMemoryTodoRepository';
+import { FileTodoRepository } from '../repositories/todos/FileTodoRepository';
+import { HttpTodoRepository } from '../repositories/todos/HttpTodoRepository';
+import { IndexedDbTodoRepository } from '../repositories/todos/IndexedDbTodoRepository';
+import { OfflineTodoRepository } from '../repositories/todos/OfflineTodoRepository';
+import { TodoOutbox } from '../repositories/todos/TodoOutbox';
+import { InMemoryTagRepository } from '../repositories/tags/InMemoryTagRepository';
+import { FileTagRepository } from '../repositories/tags/FileTagRepository';
+import { HttpTagRepository } from '../repositories/tags/HttpTagRepository';
+import { IndexedDbTagRepository } from '../repositories/tags/IndexedDbTagRepository';
+import { OfflineTagRepository } from '../repositories/tags/OfflineTagRepository';
+import { InMemoryProjectRepository } from '../repositories/projects/InMemoryProjectRepository';
+import { FileProjectRepository } from '../repositories/projects/FileProjectRepository';
+import { HttpProjectRepository } from '../repositories/projects/HttpProjectRepository';
+import { IndexedDbProjectRepository } from '../repositories/projects/IndexedDbProjectRepository';
+import { OfflineProjectRepository } from '../repositories/projects/OfflineProjectRepository';
+import { InMemoryActivityRepository } from '../repositories/activity/InMemoryActivityRepository';
+import { FileActivityRepository } from '../repositories/activity/FileActivityRepository';
+import { HttpActivityRepository } from '../repositories/activity/HttpActivityRepository';
+import { IndexedDbActivityRepository } from '../repositories/activity/IndexedDbActivityRepository';
 import { TodoService } from '../services/todo/todo.service';
+import { TodoChangeFeed } from '../services/todo/todo-change-feed';
+import { TodoTransferService } from '../services/todo/todo-transfer.service';
+import { TodoStatisticsHandler } from '../handlers/todo-statistics.handler';
+import { LogicInvoker } from '@/domain/invokers/logic.invoker';
+import { DomainEventBus } from '@/domain/events';
+import { TagService } from '../services/tag/tag.service';
+import { ProjectService } from '../services/project/project.service';
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { IActivityRepository } from '@/domain/interfaces/IActivityRepository';
+import { config } from '@/config';
 
 /**
  * Application Dependency Provider
- * Registers all repositories and services
+ * Registers all repositories, services and domain event handlers
  * Follows BYO-DPP dependency injection pattern
  */
 export class AppDependencyProvider {
@@ -22,18 +53,174 @@ export class AppDependencyProvider {
     // Initialize invokers
     const repositoryInvoker = RepositoryInvoker.getInstance();
     const serviceInvoker = ServiceInvoker.getInstance();
+    const logicInvoker = LogicInvoker.getInstance();
 
     // Register repositories
-    const todoRepository = new InMemoryTodoRepository();
+    const todoRepository = this.createTodoRepository();
     repositoryInvoker.register('todoRepository', todoRepository);
+    const tagRepository = this.createTagRepository();
+    repositoryInvoker.register('tagRepository', tagRepository);
+    const projectRepository = this.createProjectRepository();
+    repositoryInvoker.register('projectRepository', projectRepository);
+    const activityRepository = this.createActivityRepository();
+    repositoryInvoker.register('activityRepository', activityRepository);
+
+    // Register the event bus and the handlers reacting to todo events
+    const domainEventBus = new DomainEventBus();
+    logicInvoker.register('domainEventBus', domainEventBus);
+    const todoStatistics = new TodoStatisticsHandler();
+    todoStatistics.subscribeTo(domainEventBus);
+    logicInvoker.register('todoStatistics', todoStatistics);
 
     // Register services
-    const todoService = new TodoService(todoRepository);
+    // The tag and list services change todos through the todo service, so every change is
+    // published on its feed and logged to the todo's history
+    const todoChanges = new TodoChangeFeed();
+    const todoService = new TodoService(
+      todoRepository,
+      tagRepository,
+      projectRepository,
+      activityRepository,
+      this.trashRetentionDays(),
+      todoChanges,
+      domainEventBus
+    );
     serviceInvoker.register('todoService', todoService);
+    serviceInvoker.register(
+      'todoTransferService',
+      new TodoTransferService(todoService, todoRepository, tagRepository, projectRepository)
+    );
+    const tagService = new TagService(tagRepository, todoRepository, todoService);
+    serviceInvoker.register('tagService', tagService);
+    const projectService = new ProjectService(projectRepository, todoRepository, todoService);
+    serviceInvoker.register('projectService', projectService);
 
     this.initialized = true;
   }
 
+  /**
+   * Pick the todo repository implementation
+   * The browser uses the client storage from config; the server uses the driver from config
+   */
+  private static createTodoRepository(): ITodoRepository {
+    if (typeof window !== 'undefined') {
+      return this.createClientTodoRepository();
+    }
+    if (config.todos.repository === 'file') {
+      return new FileTodoRepository(config.todos.dataFile);
+    }
+    return new InMemoryTodoRepository();
+  }
+
+  private static createClientTodoRepository(): ITodoRepository {
+    if (config.todos.clientStorage === 'indexeddb') {
+      return new IndexedDbTodoRepository();
+    }
+
+    const httpRepository = new HttpTodoRepository(config.api.baseUrl, {
+      timeoutMs: config.api.requestTimeoutMs,
+    });
+    if (config.todos.clientStorage === 'http') {
+      return httpRepository;
+    }
+    const offlineRepository = new OfflineTodoRepository(
+      httpRepository,
+      new IndexedDbTodoRepository(),
+      new TodoOutbox()
+    );
+    // Replay offline changes as soon as the connection returns, not on the next call
+    window.addEventListener('online', () => {
+      offlineRepository.flush().catch(() => {
+        // Still unreachable; the next call replays them
+      });
+    });
+    return offlineRepository;
+  }
+
+  /**
+   * Days the todo service keeps trash before purging it
+   * Null in a browser backed by the API: the server purges the trash there
+   */
+  private static trashRetentionDays(): number | null {
+    if (typeof window !== 'undefined' && config.todos.clientStorage !== 'indexeddb') {
+      return null;
+    }
+    return config.todos.trashRetentionDays;
+  }
+
+  /**
+   * Pick the tag repository implementation, following the todo storage
+   */
+  private static createTagRepository(): ITagRepository {
+    if (typeof window !== 'undefined') {
+      return this.createClientTagRepository();
+    }
+    if (config.todos.repository === 'file') {
+      return new FileTagRepository(config.tags.dataFile);
+    }
+    return new InMemoryTagRepository();
+  }
+
+  private static createClientTagRepository(): ITagRepository {
+    if (config.todos.clientStorage === 'indexeddb') {
+      return new IndexedDbTagRepository();
+    }
+
+    const httpRepository = new HttpTagRepository(config.api.baseUrl, {
+      timeoutMs: config.api.requestTimeoutMs,
+    });
+    if (config.todos.clientStorage === 'http') {
+      return httpRepository;
+    }
+    return new OfflineTagRepository(httpRepository, new IndexedDbTagRepository());
+  }
+
+  /**
+   * Pick the todo list repository implementation, following the todo storage
+   */
+  private static createProjectRepository(): IProjectRepository {
+    if (typeof window !== 'undefined') {
+      return this.createClientProjectRepository();
+    }
+    if (config.todos.repository === 'file') {
+      return new FileProjectRepository(config.projects.dataFile);
+    }
+    return new InMemoryProjectRepository();
+  }
+
+  private static createClientProjectRepository(): IProjectRepository {
+    if (config.todos.clientStorage === 'indexeddb') {
+      return new IndexedDbProjectRepository();
+    }
+
+    const httpRepository = new HttpProjectRepository(config.api.baseUrl, {
+      timeoutMs: config.api.requestTimeoutMs,
+    });
+    if (config.todos.clientStorage === 'http') {
+      return httpRepository;
+    }
+    return new OfflineProjectRepository(httpRepository, new IndexedDbProjectRepository());
+  }
+
+  /**
+   * Pick the todo history repository implementation, following the todo storage
+   * Offline storage reads history from the server, so it needs a connection
+   */
+  private static createActivityRepository(): IActivityRepository {
+    if (typeof window !== 'undefined') {
+      if (config.todos.clientStorage === 'indexeddb') {
+        return new IndexedDbActivityRepository();
+      }
+      return new HttpActivityRepository(config.api.baseUrl, {
+        timeoutMs: config.api.requestTimeoutMs,
+      });
+    }
+    if (config.todos.repository === 'file') {
+      return new FileActivityRepository(config.activity.dataFile);
+    }
+    return new InMemoryActivityRepository();
+  }
+
   /**
    * Get repository invoker instance
    */
@@ -0,0 +1,67 @@
+import { IActivityRepository } from '@/domain/interfaces/IActivityRepository';
+import { ActivityEntry } from '@/domain/entities/ActivityEntry';
+import { ActivityEntryResponseDTO } from '@/application/services/todo/out-dtos/activity-entry-response.dto';
+import { ActivityEntryMapper } from '@/application/services/todo/mappers/activity-entry.mapper';
+import { Repository } from '../repository';
+import { JsonFileStore } from '../json-file-store';
+
+/**
+ * File Activity Repository
+ * Persists todo history to a local JSON file on the server, next to the todos file
+ * Read once and then served from memory, like the todos file, so this process must be
+ * its only writer
+ */
+export class FileActivityRepository extends Repository implements IActivityRepository {
+  private entries: ActivityEntryResponseDTO[] | null = null;
+  // The first read, shared by every call made before it finishes
+  private loading: Promise<void> | null = null;
+
+  private readonly store: JsonFileStore<ActivityEntryResponseDTO>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath, 'activity');
+  }
+
+  async findByTodoId(todoId: string): Promise<ActivityEntry[]> {
+    const entries = await this.load();
+    return entries.filter((entry) => entry.todoId === todoId).map(ActivityEntryMapper.toEntity);
+  }
+
+  async create(entry: ActivityEntry): Promise<ActivityEntry> {
+    const entries = await this.load();
+    entries.push(ActivityEntryMapper.toResponseDTO(entry));
+    await this.persist();
+    return entry;
+  }
+
+  async deleteByTodoId(todoId: string): Promise<void> {
+    const entries = await this.load();
+    this.entries = entries.filter((entry) => entry.todoId !== todoId);
+    if (this.entries.length < entries.length) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Read the file once and keep the entries in memory afterwards
+   * A failed read is not kept, so the next call tries again
+   */
+  private async load(): Promise<ActivityEntryResponseDTO[]> {
+    this.loading ??= this.store.read().then(
+      (entries) => {
+        this.entries = entries;
+      },
+      (error) => {
+        this.loading = null;
+        this.handleError(error);
+      }
+    );
+    await this.loading;
+    return this.entries!;
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(this.entries ?? []);
+  }
+}
@@ -0,0 +1,35 @@
+import { IActivityRepository } from '@/domain/interfaces/IActivityRepository';
+import { ActivityEntry } from '@/domain/entities/ActivityEntry';
+import { ActivityEntryResponseDTO } from '@/application/services/todo/out-dtos/activity-entry-response.dto';
+import { ActivityEntryMapper } from '@/application/services/todo/mappers/activity-entry.mapper';
+import { HttpRepository, HttpRepositoryOptions, HttpRequestOptions } from '../http-repository';
+
+/**
+ * HTTP Activity Repository
+ * Reads todo history from the REST API
+ * The server logs each change as it applies it, so writes from the browser are not sent
+ * again; sending them would log every change twice
+ */
+export class HttpActivityRepository extends HttpRepository implements IActivityRepository {
+  constructor(baseUrl: string, options: HttpRepositoryOptions = {}) {
+    super(baseUrl, options);
+  }
+
+  async findByTodoId(todoId: string, options?: HttpRequestOptions): Promise<ActivityEntry[]> {
+    const dtos = await this.request<ActivityEntryResponseDTO[]>(
+      `/todos/${encodeURIComponent(todoId)}/history`,
+      { method: 'GET' },
+      options
+    );
+    // The API lists the newest first
+    return dtos.map(ActivityEntryMapper.toEntity).reverse();
+  }
+
+  async create(entry: ActivityEntry): Promise<ActivityEntry> {
+    return entry;
+  }
+
+  async deleteByTodoId(): Promise<void> {
+    // Purging the todo on the server drops its history there
+  }
+}
@@ -0,0 +1,24 @@
+import { IActivityRepository } from '@/domain/interfaces/IActivityRepository';
+import { ActivityEntry } from '@/domain/entities/ActivityEntry';
+import { Repository } from '../repository';
+
+export class InMemoryActivityRepository extends Repository implements IActivityRepository {
+  private entries: ActivityEntry[] = [];
+
+  constructor() {
+    super();
+  }
+
+  async findByTodoId(todoId: string): Promise<ActivityEntry[]> {
+    return this.entries.filter((entry) => entry.todoId === todoId);
+  }
+
+  async create(entry: ActivityEntry): Promise<ActivityEntry> {
+    this.entries.push(entry);
+    return entry;
+  }
+
+  async deleteByTodoId(todoId: string): Promise<void> {
+    this.entries = this.entries.filter((entry) => entry.todoId !== todoId);
+  }
+}
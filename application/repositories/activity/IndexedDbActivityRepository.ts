@@ -0,0 +1,55 @@
+import { IActivityRepository } from '@/domain/interfaces/IActivityRepository';
+import { ActivityEntry } from '@/domain/entities/ActivityEntry';
+import { ActivityEntryResponseDTO } from '@/application/services/todo/out-dtos/activity-entry-response.dto';
+import { ActivityEntryMapper } from '@/application/services/todo/mappers/activity-entry.mapper';
+import { Repository } from '../repository';
+import {
+  ACTIVITY_BY_TODO_INDEX,
+  ACTIVITY_STORE,
+  openTodoDatabase,
+  runInStore,
+} from '../todos/todo-database';
+
+/**
+ * IndexedDB Activity Repository
+ * Keeps todo history in the browser database next to the todos
+ */
+export class IndexedDbActivityRepository extends Repository implements IActivityRepository {
+  constructor() {
+    super();
+  }
+
+  async findByTodoId(todoId: string): Promise<ActivityEntry[]> {
+    const records = await runInStore<ActivityEntryResponseDTO[]>(ACTIVITY_STORE, 'readonly', (store) =>
+      store.index(ACTIVITY_BY_TODO_INDEX).getAll(todoId)
+    );
+    return records
+      .map(ActivityEntryMapper.toEntity)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  }
+
+  async create(entry: ActivityEntry): Promise<ActivityEntry> {
+    await runInStore(ACTIVITY_STORE, 'readwrite', (store) =>
+      store.put(ActivityEntryMapper.toResponseDTO(entry))
+    );
+    return entry;
+  }
+
+  async deleteByTodoId(todoId: string): Promise<void> {
+    const db = await openTodoDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(ACTIVITY_STORE, 'readwrite');
+      const request = transaction.objectStore(ACTIVITY_STORE).index(ACTIVITY_BY_TODO_INDEX).openKeyCursor(todoId);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          transaction.objectStore(ACTIVITY_STORE).delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { ErrorResponseDTO } from '@/application/services/shared/out-dtos/error-response.dto';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+import { Repository } from './repository';
+import { RepositoryUnavailableError } from './repository-unavailable.error';
+
+export interface HttpRepositoryOptions {
+  timeoutMs?: number;
+}
+
+export interface HttpRequestOptions {
+  signal?: AbortSignal;
+}
+
+// Error body returned by the API
+interface ApiErrorBody {
+  error?: Partial<ErrorResponseDTO>;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Base HTTP Repository
+ * Sends JSON requests to the REST API and turns error bodies back into domain errors
+ * Requests abort on the caller's signal or after `timeoutMs`
+ */
+export abstract class HttpRepository extends Repository {
+  protected readonly timeoutMs: number;
+
+  constructor(baseUrl: string, options: HttpRepositoryOptions = {}) {
+    super(baseUrl);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  protected async request<T>(path: string, init: RequestInit, options?: HttpRequestOptions): Promise<T> {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const signal = options?.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl ?? ''}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+        signal,
+      });
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        this.handleError(error);
+      }
+      if (timeout.aborted) {
+        throw new RepositoryUnavailableError(`Request to ${path} timed out after ${this.timeoutMs}ms`, error);
+      }
+      throw new RepositoryUnavailableError(`Request to ${path} failed`, error);
+    }
+
+    if (!response.ok) {
+      throw await this.toError(response, path);
+    }
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Translate an API error body into the matching domain error
+   */
+  private async toError(response: Response, path: string): Promise<Error> {
+    const body = (await response.json().catch(() => ({}))) as ApiErrorBody;
+    const message = body.error?.message ?? `Request to ${path} failed with status ${response.status}`;
+
+    return ErrorMapper.toError({ ...body.error, code: body.error?.code ?? '', message });
+  }
+}
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+
+const SCHEMA_VERSION = 1;
+
+/**
+ * JSON File Store
+ * Reads and writes one collection of records kept in a versioned JSON file: `{ version, [collection]: [] }`
+ * Writes go to a temp file that is renamed over the target, so a crash never leaves a half-written file
+ */
+export class JsonFileStore<TRecord> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  readonly filePath: string;
+
+  constructor(
+    filePath: string,
+    private readonly collection: string
+  ) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Read all records; a missing file is an empty collection
+   */
+  async read(): Promise<TRecord[]> {
+    let file: Record<string, unknown>;
+    try {
+      file = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    if (file.version !== SCHEMA_VERSION) {
+      throw new Error(
+        `Unsupported ${this.collection} file version ${file.version} in ${this.filePath} (expected ${SCHEMA_VERSION})`
+      );
+    }
+    return (file[this.collection] as TRecord[] | undefined) ?? [];
+  }
+
+  /**
+   * Queue an atomic write of the records
+   */
+  write(records: TRecord[]): Promise<void> {
+    const write = this.writeQueue.then(() => this.writeFile(records));
+    // Keep the queue usable after a failed write
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeFile(records: TRecord[]): Promise<void> {
+    const file = { version: SCHEMA_VERSION, [this.collection]: records };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(file, null, 2), 'utf8');
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,84 @@
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { Project } from '@/domain/entities/Project';
+import { ProjectNotFoundError } from '@/domain/errors';
+import { ProjectResponseDTO } from '@/application/services/project/out-dtos/project-response.dto';
+import { ProjectMapper } from '@/application/services/project/mappers/project.mapper';
+import { Repository } from '../repository';
+import { JsonFileStore } from '../json-file-store';
+
+/**
+ * File Project Repository
+ * Persists todo lists to a local JSON file on the server, next to the todos file
+ * Read once and then served from memory, like the todos file, so this process must be
+ * its only writer
+ */
+export class FileProjectRepository extends Repository implements IProjectRepository {
+  private projects: Map<string, Project> | null = null;
+  // The first read, shared by every call made before it finishes
+  private loading: Promise<Map<string, Project>> | null = null;
+
+  private readonly store: JsonFileStore<ProjectResponseDTO>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath, 'projects');
+  }
+
+  async findAll(): Promise<Project[]> {
+    const projects = await this.load();
+    return Array.from(projects.values());
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    const projects = await this.load();
+    return projects.get(id) || null;
+  }
+
+  async create(project: Project): Promise<Project> {
+    const projects = await this.load();
+    projects.set(project.id, project);
+    await this.persist();
+    return project;
+  }
+
+  async update(project: Project): Promise<Project> {
+    const projects = await this.load();
+    if (!projects.has(project.id)) {
+      throw new ProjectNotFoundError(project.id);
+    }
+    projects.set(project.id, project);
+    await this.persist();
+    return project;
+  }
+
+  async delete(id: string): Promise<void> {
+    const projects = await this.load();
+    if (!projects.has(id)) {
+      throw new ProjectNotFoundError(id);
+    }
+    projects.delete(id);
+    await this.persist();
+  }
+
+  /**
+   * Read the file once and keep the projects in memory afterwards
+   * A failed read is not kept, so the next call tries again
+   */
+  private load(): Promise<Map<string, Project>> {
+    this.loading ??= this.read().catch((error) => {
+      this.loading = null;
+      this.handleError(error);
+    });
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, Project>> {
+    const records = await this.store.read();
+    this.projects = new Map(records.map((record) => [record.id, ProjectMapper.toEntity(record)]));
+    return this.projects;
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(ProjectMapper.toResponseDTOs(Array.from(this.projects?.values() ?? [])));
+  }
+}
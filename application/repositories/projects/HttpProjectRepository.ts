@@ -0,0 +1,76 @@
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { Project } from '@/domain/entities/Project';
+import { ProjectNotFoundError } from '@/domain/errors';
+import { ProjectResponseDTO } from '@/application/services/project/out-dtos/project-response.dto';
+import { ProjectMapper } from '@/application/services/project/mappers/project.mapper';
+import { HttpRepository, HttpRepositoryOptions, HttpRequestOptions } from '../http-repository';
+
+/**
+ * HTTP Project Repository
+ * Talks to the list REST API so the browser shares the server's lists
+ */
+export class HttpProjectRepository extends HttpRepository implements IProjectRepository {
+  constructor(baseUrl: string, options: HttpRepositoryOptions = {}) {
+    super(baseUrl, options);
+  }
+
+  async findAll(options?: HttpRequestOptions): Promise<Project[]> {
+    const dtos = await this.request<ProjectResponseDTO[]>('/projects', { method: 'GET' }, options);
+    return dtos.map(ProjectMapper.toEntity);
+  }
+
+  async findById(id: string, options?: HttpRequestOptions): Promise<Project | null> {
+    try {
+      const dto = await this.request<ProjectResponseDTO>(
+        this.projectPath(id),
+        { method: 'GET' },
+        options
+      );
+      return ProjectMapper.toEntity(dto);
+    } catch (error) {
+      if (error instanceof ProjectNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The server assigns the id and position, so the returned list replaces the one passed in
+   */
+  async create(project: Project, options?: HttpRequestOptions): Promise<Project> {
+    const dto = await this.request<ProjectResponseDTO>(
+      '/projects',
+      { method: 'POST', body: JSON.stringify({ name: project.name }) },
+      options
+    );
+    return ProjectMapper.toEntity(dto);
+  }
+
+  async update(project: Project, options?: HttpRequestOptions): Promise<Project> {
+    const dto = await this.request<ProjectResponseDTO>(
+      this.projectPath(project.id),
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          name: project.name,
+          archived: project.isArchived(),
+          position: project.position,
+        }),
+      },
+      options
+    );
+    return ProjectMapper.toEntity(dto);
+  }
+
+  /**
+   * Only removes the list; the calling service has already dealt with its todos
+   */
+  async delete(id: string, options?: HttpRequestOptions): Promise<void> {
+    await this.request<void>(this.projectPath(id), { method: 'DELETE' }, options);
+  }
+
+  private projectPath(id: string): string {
+    return `/projects/${encodeURIComponent(id)}`;
+  }
+}
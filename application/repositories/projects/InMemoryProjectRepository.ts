@@ -0,0 +1,40 @@
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { Project } from '@/domain/entities/Project';
+import { ProjectNotFoundError } from '@/domain/errors';
+import { Repository } from '../repository';
+
+export class InMemoryProjectRepository extends Repository implements IProjectRepository {
+  private projects: Map<string, Project> = new Map();
+
+  constructor() {
+    super();
+  }
+
+  async findAll(): Promise<Project[]> {
+    return Array.from(this.projects.values());
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    return this.projects.get(id) || null;
+  }
+
+  async create(project: Project): Promise<Project> {
+    this.projects.set(project.id, project);
+    return project;
+  }
+
+  async update(project: Project): Promise<Project> {
+    if (!this.projects.has(project.id)) {
+      throw new ProjectNotFoundError(project.id);
+    }
+    this.projects.set(project.id, project);
+    return project;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.projects.has(id)) {
+      throw new ProjectNotFoundError(id);
+    }
+    this.projects.delete(id);
+  }
+}
@@ -0,0 +1,74 @@
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { Project } from '@/domain/entities/Project';
+import { ProjectNotFoundError } from '@/domain/errors';
+import { ProjectResponseDTO } from '@/application/services/project/out-dtos/project-response.dto';
+import { ProjectMapper } from '@/application/services/project/mappers/project.mapper';
+import { Repository } from '../repository';
+import { openTodoDatabase, runInStore, PROJECT_STORE } from '../todos/todo-database';
+
+/**
+ * IndexedDB Project Repository
+ * Keeps todo lists in the browser database next to the todos
+ */
+export class IndexedDbProjectRepository extends Repository implements IProjectRepository {
+  constructor() {
+    super();
+  }
+
+  async findAll(): Promise<Project[]> {
+    const records = await runInStore<ProjectResponseDTO[]>(PROJECT_STORE, 'readonly', (store) =>
+      store.getAll()
+    );
+    return records.map(ProjectMapper.toEntity);
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    const record = await runInStore<ProjectResponseDTO | undefined>(PROJECT_STORE, 'readonly', (store) =>
+      store.get(id)
+    );
+    return record ? ProjectMapper.toEntity(record) : null;
+  }
+
+  /**
+   * Store the project, replacing any copy with the same id
+   */
+  async create(project: Project): Promise<Project> {
+    await runInStore(PROJECT_STORE, 'readwrite', (store) =>
+      store.put(ProjectMapper.toResponseDTO(project))
+    );
+    return project;
+  }
+
+  async update(project: Project): Promise<Project> {
+    if (!(await this.findById(project.id))) {
+      throw new ProjectNotFoundError(project.id);
+    }
+    await runInStore(PROJECT_STORE, 'readwrite', (store) =>
+      store.put(ProjectMapper.toResponseDTO(project))
+    );
+    return project;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.findById(id))) {
+      throw new ProjectNotFoundError(id);
+    }
+    await runInStore(PROJECT_STORE, 'readwrite', (store) => store.delete(id));
+  }
+
+  /**
+   * Replace every stored project in one transaction (used to mirror the server)
+   */
+  async replaceAll(projects: Project[]): Promise<void> {
+    const db = await openTodoDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(PROJECT_STORE, 'readwrite');
+      const store = transaction.objectStore(PROJECT_STORE);
+      store.clear();
+      projects.forEach((project) => store.put(ProjectMapper.toResponseDTO(project)));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
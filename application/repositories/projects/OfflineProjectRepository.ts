@@ -0,0 +1,63 @@
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { Project } from '@/domain/entities/Project';
+import { ProjectNotFoundError } from '@/domain/errors';
+import { Repository } from '../repository';
+import { RepositoryUnavailableError } from '../repository-unavailable.error';
+import { IndexedDbProjectRepository } from './IndexedDbProjectRepository';
+
+/**
+ * Offline Project Repository
+ * Reads from the remote repository and mirrors its lists locally, falling back to the
+ * local copy while offline so todos can still be filed into lists. Managing lists needs the server.
+ */
+export class OfflineProjectRepository extends Repository implements IProjectRepository {
+  constructor(
+    private readonly remote: IProjectRepository,
+    private readonly local: IndexedDbProjectRepository
+  ) {
+    super();
+  }
+
+  async findAll(): Promise<Project[]> {
+    try {
+      const projects = await this.remote.findAll();
+      await this.local.replaceAll(projects);
+      return projects;
+    } catch (error) {
+      if (error instanceof RepositoryUnavailableError) {
+        return this.local.findAll();
+      }
+      this.handleError(error);
+    }
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    try {
+      return await this.remote.findById(id);
+    } catch (error) {
+      if (error instanceof RepositoryUnavailableError) {
+        return this.local.findById(id);
+      }
+      this.handleError(error);
+    }
+  }
+
+  async create(project: Project): Promise<Project> {
+    return this.local.create(await this.remote.create(project));
+  }
+
+  async update(project: Project): Promise<Project> {
+    return this.local.create(await this.remote.update(project));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.remote.delete(id);
+    try {
+      await this.local.delete(id);
+    } catch (error) {
+      if (!(error instanceof ProjectNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Raised when a remote repository cannot be reached (network failure or timeout)
+ * Lets callers fall back to local storage instead of surfacing the failure
+ */
+export class RepositoryUnavailableError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'RepositoryUnavailableError';
+  }
+}
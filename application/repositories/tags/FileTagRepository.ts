@@ -0,0 +1,84 @@
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { Tag } from '@/domain/entities/Tag';
+import { TagNotFoundError } from '@/domain/errors';
+import { TagResponseDTO } from '@/application/services/tag/out-dtos/tag-response.dto';
+import { TagMapper } from '@/application/services/tag/mappers/tag.mapper';
+import { Repository } from '../repository';
+import { JsonFileStore } from '../json-file-store';
+
+/**
+ * File Tag Repository
+ * Persists tags to a local JSON file on the server, next to the todos file
+ * Read once and then served from memory, like the todos file, so this process must be
+ * its only writer
+ */
+export class FileTagRepository extends Repository implements ITagRepository {
+  private tags: Map<string, Tag> | null = null;
+  // The first read, shared by every call made before it finishes
+  private loading: Promise<Map<string, Tag>> | null = null;
+
+  private readonly store: JsonFileStore<TagResponseDTO>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath, 'tags');
+  }
+
+  async findAll(): Promise<Tag[]> {
+    const tags = await this.load();
+    return Array.from(tags.values());
+  }
+
+  async findById(id: string): Promise<Tag | null> {
+    const tags = await this.load();
+    return tags.get(id) || null;
+  }
+
+  async create(tag: Tag): Promise<Tag> {
+    const tags = await this.load();
+    tags.set(tag.id, tag);
+    await this.persist();
+    return tag;
+  }
+
+  async update(tag: Tag): Promise<Tag> {
+    const tags = await this.load();
+    if (!tags.has(tag.id)) {
+      throw new TagNotFoundError(tag.id);
+    }
+    tags.set(tag.id, tag);
+    await this.persist();
+    return tag;
+  }
+
+  async delete(id: string): Promise<void> {
+    const tags = await this.load();
+    if (!tags.has(id)) {
+      throw new TagNotFoundError(id);
+    }
+    tags.delete(id);
+    await this.persist();
+  }
+
+  /**
+   * Read the file once and keep the tags in memory afterwards
+   * A failed read is not kept, so the next call tries again
+   */
+  private load(): Promise<Map<string, Tag>> {
+    this.loading ??= this.read().catch((error) => {
+      this.loading = null;
+      this.handleError(error);
+    });
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, Tag>> {
+    const records = await this.store.read();
+    this.tags = new Map(records.map((record) => [record.id, TagMapper.toEntity(record)]));
+    return this.tags;
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(TagMapper.toResponseDTOs(Array.from(this.tags?.values() ?? [])));
+  }
+}
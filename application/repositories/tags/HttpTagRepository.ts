@@ -0,0 +1,62 @@
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { Tag } from '@/domain/entities/Tag';
+import { TagNotFoundError } from '@/domain/errors';
+import { TagResponseDTO } from '@/application/services/tag/out-dtos/tag-response.dto';
+import { TagMapper } from '@/application/services/tag/mappers/tag.mapper';
+import { HttpRepository, HttpRepositoryOptions, HttpRequestOptions } from '../http-repository';
+
+/**
+ * HTTP Tag Repository
+ * Talks to the tag REST API so the browser shares the server's tags
+ */
+export class HttpTagRepository extends HttpRepository implements ITagRepository {
+  constructor(baseUrl: string, options: HttpRepositoryOptions = {}) {
+    super(baseUrl, options);
+  }
+
+  async findAll(options?: HttpRequestOptions): Promise<Tag[]> {
+    const dtos = await this.request<TagResponseDTO[]>('/tags', { method: 'GET' }, options);
+    return dtos.map(TagMapper.toEntity);
+  }
+
+  async findById(id: string, options?: HttpRequestOptions): Promise<Tag | null> {
+    try {
+      const dto = await this.request<TagResponseDTO>(this.tagPath(id), { method: 'GET' }, options);
+      return TagMapper.toEntity(dto);
+    } catch (error) {
+      if (error instanceof TagNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The server assigns the id, so the returned tag replaces the one passed in
+   */
+  async create(tag: Tag, options?: HttpRequestOptions): Promise<Tag> {
+    const dto = await this.request<TagResponseDTO>(
+      '/tags',
+      { method: 'POST', body: JSON.stringify({ name: tag.name, color: tag.color }) },
+      options
+    );
+    return TagMapper.toEntity(dto);
+  }
+
+  async update(tag: Tag, options?: HttpRequestOptions): Promise<Tag> {
+    const dto = await this.request<TagResponseDTO>(
+      this.tagPath(tag.id),
+      { method: 'PATCH', body: JSON.stringify({ name: tag.name, color: tag.color }) },
+      options
+    );
+    return TagMapper.toEntity(dto);
+  }
+
+  async delete(id: string, options?: HttpRequestOptions): Promise<void> {
+    await this.request<void>(this.tagPath(id), { method: 'DELETE' }, options);
+  }
+
+  private tagPath(id: string): string {
+    return `/tags/${encodeURIComponent(id)}`;
+  }
+}
@@ -0,0 +1,40 @@
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { Tag } from '@/domain/entities/Tag';
+import { TagNotFoundError } from '@/domain/errors';
+import { Repository } from '../repository';
+
+export class InMemoryTagRepository extends Repository implements ITagRepository {
+  private tags: Map<string, Tag> = new Map();
+
+  constructor() {
+    super();
+  }
+
+  async findAll(): Promise<Tag[]> {
+    return Array.from(this.tags.values());
+  }
+
+  async findById(id: string): Promise<Tag | null> {
+    return this.tags.get(id) || null;
+  }
+
+  async create(tag: Tag): Promise<Tag> {
+    this.tags.set(tag.id, tag);
+    return tag;
+  }
+
+  async update(tag: Tag): Promise<Tag> {
+    if (!this.tags.has(tag.id)) {
+      throw new TagNotFoundError(tag.id);
+    }
+    this.tags.set(tag.id, tag);
+    return tag;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!this.tags.has(id)) {
+      throw new TagNotFoundError(id);
+    }
+    this.tags.delete(id);
+  }
+}
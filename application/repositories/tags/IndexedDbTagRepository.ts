@@ -0,0 +1,68 @@
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { Tag } from '@/domain/entities/Tag';
+import { TagNotFoundError } from '@/domain/errors';
+import { TagResponseDTO } from '@/application/services/tag/out-dtos/tag-response.dto';
+import { TagMapper } from '@/application/services/tag/mappers/tag.mapper';
+import { Repository } from '../repository';
+import { openTodoDatabase, runInStore, TAG_STORE } from '../todos/todo-database';
+
+/**
+ * IndexedDB Tag Repository
+ * Keeps tags in the browser database next to the todos
+ */
+export class IndexedDbTagRepository extends Repository implements ITagRepository {
+  constructor() {
+    super();
+  }
+
+  async findAll(): Promise<Tag[]> {
+    const records = await runInStore<TagResponseDTO[]>(TAG_STORE, 'readonly', (store) => store.getAll());
+    return records.map(TagMapper.toEntity);
+  }
+
+  async findById(id: string): Promise<Tag | null> {
+    const record = await runInStore<TagResponseDTO | undefined>(TAG_STORE, 'readonly', (store) =>
+      store.get(id)
+    );
+    return record ? TagMapper.toEntity(record) : null;
+  }
+
+  /**
+   * Store the tag, replacing any copy with the same id
+   */
+  async create(tag: Tag): Promise<Tag> {
+    await runInStore(TAG_STORE, 'readwrite', (store) => store.put(TagMapper.toResponseDTO(tag)));
+    return tag;
+  }
+
+  async update(tag: Tag): Promise<Tag> {
+    if (!(await this.findById(tag.id))) {
+      throw new TagNotFoundError(tag.id);
+    }
+    await runInStore(TAG_STORE, 'readwrite', (store) => store.put(TagMapper.toResponseDTO(tag)));
+    return tag;
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!(await this.findById(id))) {
+      throw new TagNotFoundError(id);
+    }
+    await runInStore(TAG_STORE, 'readwrite', (store) => store.delete(id));
+  }
+
+  /**
+   * Replace every stored tag in one transaction (used to mirror the server)
+   */
+  async replaceAll(tags: Tag[]): Promise<void> {
+    const db = await openTodoDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(TAG_STORE, 'readwrite');
+      const store = transaction.objectStore(TAG_STORE);
+      store.clear();
+      tags.forEach((tag) => store.put(TagMapper.toResponseDTO(tag)));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
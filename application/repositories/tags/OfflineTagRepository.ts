@@ -0,0 +1,63 @@
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { Tag } from '@/domain/entities/Tag';
+import { TagNotFoundError } from '@/domain/errors';
+import { Repository } from '../repository';
+import { RepositoryUnavailableError } from '../repository-unavailable.error';
+import { IndexedDbTagRepository } from './IndexedDbTagRepository';
+
+/**
+ * Offline Tag Repository
+ * Reads from the remote repository and mirrors its tags locally, falling back to the
+ * local copy while offline so todos can still be tagged. Managing tags needs the server.
+ */
+export class OfflineTagRepository extends Repository implements ITagRepository {
+  constructor(
+    private readonly remote: ITagRepository,
+    private readonly local: IndexedDbTagRepository
+  ) {
+    super();
+  }
+
+  async findAll(): Promise<Tag[]> {
+    try {
+      const tags = await this.remote.findAll();
+      await this.local.replaceAll(tags);
+      return tags;
+    } catch (error) {
+      if (error instanceof RepositoryUnavailableError) {
+        return this.local.findAll();
+      }
+      this.handleError(error);
+    }
+  }
+
+  async findById(id: string): Promise<Tag | null> {
+    try {
+      return await this.remote.findById(id);
+    } catch (error) {
+      if (error instanceof RepositoryUnavailableError) {
+        return this.local.findById(id);
+      }
+      this.handleError(error);
+    }
+  }
+
+  async create(tag: Tag): Promise<Tag> {
+    return this.local.create(await this.remote.create(tag));
+  }
+
+  async update(tag: Tag): Promise<Tag> {
+    return this.local.create(await this.remote.update(tag));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.remote.delete(id);
+    try {
+      await this.local.delete(id);
+    } catch (error) {
+      if (!(error instanceof TagNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+}
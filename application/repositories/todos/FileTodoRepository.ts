@@ -0,0 +1,126 @@
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { Todo } from '@/domain/entities/Todo';
+import { TodoNotFoundError, VersionConflictError } from '@/domain/errors';
+import { matchesTodoFilter, queryTodos, sortTodos, TodoPage, TodoQuery } from '@/domain/types/TodoQuery';
+import { TodoResponseDTO } from '@/application/services/todo/out-dtos/todo-response.dto';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { Repository } from '../repository';
+import { JsonFileStore } from '../json-file-store';
+
+/**
+ * File Todo Repository
+ * Persists todos to a local JSON file on the server
+ * The file is read once and then served from memory, so this process must be its only
+ * writer: edits made by hand or by other processes are not seen until a restart
+ */
+export class FileTodoRepository extends Repository implements ITodoRepository {
+  // Records rather than entities, so a change only lands once it is saved
+  private records: Map<string, TodoResponseDTO> | null = null;
+  // The first read, shared by every call made before it finishes
+  private loading: Promise<Map<string, TodoResponseDTO>> | null = null;
+
+  private readonly store: JsonFileStore<TodoResponseDTO>;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath, 'todos');
+  }
+
+  async findAll(query?: TodoQuery): Promise<Todo[]> {
+    return sortTodos(
+      (await this.entities()).filter((todo) => matchesTodoFilter(todo)),
+      query
+    );
+  }
+
+  async findPage(query: TodoQuery): Promise<TodoPage> {
+    return queryTodos(await this.entities(), query);
+  }
+
+  async findById(id: string): Promise<Todo | null> {
+    const record = (await this.load()).get(id);
+    return record && !record.deletedAt ? TodoMapper.toEntity(record) : null;
+  }
+
+  async create(todo: Todo): Promise<Todo> {
+    await this.save(todo);
+    return todo;
+  }
+
+  /**
+   * Save the todo if it is still at the stored version, then bump the version
+   */
+  async update(todo: Todo): Promise<Todo> {
+    const stored = await this.findById(todo.id);
+    if (!stored) {
+      throw new TodoNotFoundError(todo.id);
+    }
+    if (stored.version !== todo.version) {
+      throw new VersionConflictError(todo.id, todo.version, stored.version);
+    }
+    todo.version = stored.version + 1;
+    await this.save(todo);
+    return todo;
+  }
+
+  async delete(id: string): Promise<void> {
+    const todo = await this.findById(id);
+    if (!todo) {
+      throw new TodoNotFoundError(id);
+    }
+    todo.markDeleted();
+    await this.save(todo);
+  }
+
+  async restore(id: string): Promise<Todo> {
+    const record = (await this.load()).get(id);
+    if (!record?.deletedAt) {
+      throw new TodoNotFoundError(id);
+    }
+    const todo = TodoMapper.toEntity(record);
+    todo.restore();
+    await this.save(todo);
+    return todo;
+  }
+
+  async purge(id: string): Promise<void> {
+    if (!(await this.load()).delete(id)) {
+      throw new TodoNotFoundError(id);
+    }
+    await this.persist();
+  }
+
+  /**
+   * Read the file once and keep the records in memory afterwards
+   * A failed read is not kept, so the next call tries again
+   */
+  private load(): Promise<Map<string, TodoResponseDTO>> {
+    this.loading ??= this.read().catch((error) => {
+      this.loading = null;
+      this.handleError(error);
+    });
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, TodoResponseDTO>> {
+    const records = await this.store.read();
+    // Round-trip through the entity so records written before a field existed get its default
+    this.records = new Map(
+      records.map((record) => [record.id, TodoMapper.toResponseDTO(TodoMapper.toEntity(record))])
+    );
+    return this.records;
+  }
+
+  private async entities(): Promise<Todo[]> {
+    return Array.from((await this.load()).values()).map(TodoMapper.toEntity);
+  }
+
+  private async save(todo: Todo): Promise<void> {
+    (await this.load()).set(todo.id, TodoMapper.toResponseDTO(todo));
+    await this.persist();
+  }
+
+  private persist(): Promise<void> {
+    return this.store.write(Array.from(this.records?.values() ?? []));
+  }
+}
@@ -0,0 +1,147 @@
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { Todo } from '@/domain/entities/Todo';
+import { TodoPage, TodoQuery } from '@/domain/types/TodoQuery';
+import { TodoNotFoundError } from '@/domain/errors';
+import { TodoResponseDTO } from '@/application/services/todo/out-dtos/todo-response.dto';
+import { TodoPageResponseDTO } from '@/application/services/todo/out-dtos/todo-page-response.dto';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { TodoQueryMapper } from '@/application/services/todo/mappers/todo-query.mapper';
+import { HttpRepository, HttpRepositoryOptions, HttpRequestOptions } from '../http-repository';
+
+/**
+ * HTTP Todo Repository
+ * Talks to the todo REST API so the browser shares the server's todos
+ * Every method accepts an optional AbortSignal
+ */
+export class HttpTodoRepository extends HttpRepository implements ITodoRepository {
+  constructor(baseUrl: string, options: HttpRepositoryOptions = {}) {
+    super(baseUrl, options);
+  }
+
+  async findAll(query: TodoQuery = {}, options?: HttpRequestOptions): Promise<Todo[]> {
+    const page = await this.findPage(
+      { sortBy: query.sortBy, sortDirection: query.sortDirection },
+      options
+    );
+    return page.items;
+  }
+
+  async findPage(query: TodoQuery, options?: HttpRequestOptions): Promise<TodoPage> {
+    const search = TodoQueryMapper.toSearchParams(query).toString();
+    const dto = await this.request<TodoPageResponseDTO>(
+      `/todos${search ? `?${search}` : ''}`,
+      { method: 'GET' },
+      options
+    );
+    return {
+      items: dto.items.map(TodoMapper.toEntity),
+      total: dto.total,
+      nextCursor: dto.nextCursor,
+    };
+  }
+
+  async findById(id: string, options?: HttpRequestOptions): Promise<Todo | null> {
+    try {
+      const dto = await this.request<TodoResponseDTO>(this.todoPath(id), { method: 'GET' }, options);
+      return TodoMapper.toEntity(dto);
+    } catch (error) {
+      if (error instanceof TodoNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The server assigns the id, so the returned todo replaces the one passed in
+   */
+  async create(todo: Todo, options?: HttpRequestOptions): Promise<Todo> {
+    const dto = await this.request<TodoResponseDTO>(
+      '/todos',
+      { method: 'POST', body: JSON.stringify(this.toRequestBody(todo)) },
+      options
+    );
+    return TodoMapper.toEntity(dto);
+  }
+
+  /**
+   * Sends the editable fields and the status in one request, so the save applies as a whole
+   * The server rejects it when its copy is no longer at the todo's version
+   */
+  async update(todo: Todo, options?: HttpRequestOptions): Promise<Todo> {
+    const dto = await this.request<TodoResponseDTO>(
+      this.todoPath(todo.id),
+      {
+        method: 'PATCH',
+        body: JSON.stringify({
+          ...this.toRequestBody(todo),
+          status: todo.status,
+          version: todo.version,
+        }),
+      },
+      options
+    );
+    return TodoMapper.toEntity(dto);
+  }
+
+  async delete(id: string, options?: HttpRequestOptions): Promise<void> {
+    await this.request<void>(this.todoPath(id), { method: 'DELETE' }, options);
+  }
+
+  async restore(id: string, options?: HttpRequestOptions): Promise<Todo> {
+    const dto = await this.request<TodoResponseDTO>(
+      `${this.todoPath(id)}/restore`,
+      { method: 'POST' },
+      options
+    );
+    return TodoMapper.toEntity(dto);
+  }
+
+  async purge(id: string, options?: HttpRequestOptions): Promise<void> {
+    await this.request<void>(`/todos/trash/${encodeURIComponent(id)}`, { method: 'DELETE' }, options);
+  }
+
+  /**
+   * Editable fields sent on create and update
+   * The parent, series position and imported id are only read on create, the manual
+   * position only on update
+   */
+  private toRequestBody(todo: Todo): Record<string, unknown> {
+    const {
+      title,
+      description,
+      dueAt,
+      remindAt,
+      priority,
+      tagIds,
+      projectId,
+      parentId,
+      recurrence,
+      seriesId,
+      occurrence,
+      archivedAt,
+      position,
+      importedFrom,
+    } = TodoMapper.toResponseDTO(todo);
+    return {
+      title,
+      description,
+      dueAt,
+      remindAt,
+      priority,
+      tagIds,
+      projectId,
+      parentId,
+      recurrence,
+      seriesId,
+      occurrence,
+      archived: archivedAt !== null,
+      position,
+      importedFrom,
+    };
+  }
+
+  private todoPath(id: string): string {
+    return `/todos/${encodeURIComponent(id)}`;
+  }
+}
@@ -1,41 +1,86 @@
 import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
 import { Todo } from '@/domain/entities/Todo';
+import { TodoNotFoundError, VersionConflictError } from '@/domain/errors';
+import { matchesTodoFilter, queryTodos, sortTodos, TodoPage, TodoQuery } from '@/domain/types/TodoQuery';
+import { TodoResponseDTO } from '@/application/services/todo/out-dtos/todo-response.dto';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
 import { Repository } from '../repository';
 
+/**
+ * In-Memory Todo Repository
+ * Keeps records rather than entities, so a change only lands once it is saved
+ */
 export class InMemoryTodoRepository extends Repository implements ITodoRepository {
-  private todos: Map<string, Todo> = new Map();
+  private records: Map<string, TodoResponseDTO> = new Map();
 
   constructor() {
     super();
   }
 
-  async findAll(): Promise<Todo[]> {
-    return Array.from(this.todos.values()).sort(
-      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  async findAll(query?: TodoQuery): Promise<Todo[]> {
+    return sortTodos(
+      this.entities().filter((todo) => matchesTodoFilter(todo)),
+      query
     );
   }
 
+  async findPage(query: TodoQuery): Promise<TodoPage> {
+    return queryTodos(this.entities(), query);
+  }
+
   async findById(id: string): Promise<Todo | null> {
-    return this.todos.get(id) || null;
+    const record = this.records.get(id);
+    return record && !record.deletedAt ? TodoMapper.toEntity(record) : null;
   }
 
   async create(todo: Todo): Promise<Todo> {
-    this.todos.set(todo.id, todo);
+    this.records.set(todo.id, TodoMapper.toResponseDTO(todo));
     return todo;
   }
 
+  /**
+   * Save the todo if it is still at the stored version, then bump the version
+   */
   async update(todo: Todo): Promise<Todo> {
-    if (!this.todos.has(todo.id)) {
-      throw new Error(`Todo with id ${todo.id} not found`);
+    const stored = await this.findById(todo.id);
+    if (!stored) {
+      throw new TodoNotFoundError(todo.id);
+    }
+    if (stored.version !== todo.version) {
+      throw new VersionConflictError(todo.id, todo.version, stored.version);
     }
-    this.todos.set(todo.id, todo);
+    todo.version = stored.version + 1;
+    this.records.set(todo.id, TodoMapper.toResponseDTO(todo));
     return todo;
   }
 
   async delete(id: string): Promise<void> {
-    if (!this.todos.has(id)) {
-      throw new Error(`Todo with id ${id} not found`);
+    const todo = await this.findById(id);
+    if (!todo) {
+      throw new TodoNotFoundError(id);
+    }
+    todo.markDeleted();
+    this.records.set(id, TodoMapper.toResponseDTO(todo));
+  }
+
+  async restore(id: string): Promise<Todo> {
+    const record = this.records.get(id);
+    if (!record?.deletedAt) {
+      throw new TodoNotFoundError(id);
     }
-    this.todos.delete(id);
+    const todo = TodoMapper.toEntity(record);
+    todo.restore();
+    this.records.set(id, TodoMapper.toResponseDTO(todo));
+    return todo;
+  }
+
+  async purge(id: string): Promise<void> {
+    if (!this.records.delete(id)) {
+      throw new TodoNotFoundError(id);
+    }
+  }
+
+  private entities(): Todo[] {
+    return Array.from(this.records.values()).map(TodoMapper.toEntity);
   }
 }
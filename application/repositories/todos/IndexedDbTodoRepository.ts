@@ -0,0 +1,115 @@
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { Todo } from '@/domain/entities/Todo';
+import { TodoNotFoundError, VersionConflictError } from '@/domain/errors';
+import { matchesTodoFilter, queryTodos, sortTodos, TodoPage, TodoQuery } from '@/domain/types/TodoQuery';
+import { Repository } from '../repository';
+import {
+  openTodoDatabase,
+  runInStore,
+  toTodoEntity,
+  toTodoRecord,
+  TODO_STORE,
+  TodoRecord,
+} from './todo-database';
+
+/**
+ * IndexedDB Todo Repository
+ * Keeps todos in the browser so the app works without a backend
+ */
+export class IndexedDbTodoRepository extends Repository implements ITodoRepository {
+  constructor() {
+    super();
+  }
+
+  async findAll(query?: TodoQuery): Promise<Todo[]> {
+    const records = await runInStore<TodoRecord[]>(TODO_STORE, 'readonly', (store) => store.getAll());
+    return sortTodos(
+      records.map(toTodoEntity).filter((todo) => matchesTodoFilter(todo)),
+      query
+    );
+  }
+
+  async findPage(query: TodoQuery): Promise<TodoPage> {
+    const records = await runInStore<TodoRecord[]>(TODO_STORE, 'readonly', (store) => store.getAll());
+    return queryTodos(records.map(toTodoEntity), query);
+  }
+
+  async findById(id: string): Promise<Todo | null> {
+    const todo = await this.findStored(id);
+    return todo && !todo.isDeleted() ? todo : null;
+  }
+
+  /**
+   * Store the todo, replacing any copy with the same id
+   */
+  async create(todo: Todo): Promise<Todo> {
+    await runInStore(TODO_STORE, 'readwrite', (store) => store.put(toTodoRecord(todo)));
+    return todo;
+  }
+
+  /**
+   * Save the todo if it is still at the stored version, then bump the version
+   */
+  async update(todo: Todo): Promise<Todo> {
+    const stored = await this.findById(todo.id);
+    if (!stored) {
+      throw new TodoNotFoundError(todo.id);
+    }
+    if (stored.version !== todo.version) {
+      throw new VersionConflictError(todo.id, todo.version, stored.version);
+    }
+    todo.version = stored.version + 1;
+    await runInStore(TODO_STORE, 'readwrite', (store) => store.put(toTodoRecord(todo)));
+    return todo;
+  }
+
+  async delete(id: string): Promise<void> {
+    const todo = await this.findById(id);
+    if (!todo) {
+      throw new TodoNotFoundError(id);
+    }
+    todo.markDeleted();
+    await runInStore(TODO_STORE, 'readwrite', (store) => store.put(toTodoRecord(todo)));
+  }
+
+  async restore(id: string): Promise<Todo> {
+    const todo = await this.findStored(id);
+    if (!todo?.isDeleted()) {
+      throw new TodoNotFoundError(id);
+    }
+    todo.restore();
+    await runInStore(TODO_STORE, 'readwrite', (store) => store.put(toTodoRecord(todo)));
+    return todo;
+  }
+
+  async purge(id: string): Promise<void> {
+    if (!(await this.findStored(id))) {
+      throw new TodoNotFoundError(id);
+    }
+    await runInStore(TODO_STORE, 'readwrite', (store) => store.delete(id));
+  }
+
+  /**
+   * Store several todos and drop others in one transaction (used to mirror the server)
+   */
+  async mirror(todos: Todo[], removedIds: string[] = []): Promise<void> {
+    const db = await openTodoDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(TODO_STORE, 'readwrite');
+      const store = transaction.objectStore(TODO_STORE);
+      removedIds.forEach((id) => store.delete(id));
+      todos.forEach((todo) => store.put(toTodoRecord(todo)));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  // The stored todo, including a soft-deleted one
+  private async findStored(id: string): Promise<Todo | null> {
+    const record = await runInStore<TodoRecord | undefined>(TODO_STORE, 'readonly', (store) =>
+      store.get(id)
+    );
+    return record ? toTodoEntity(record) : null;
+  }
+}
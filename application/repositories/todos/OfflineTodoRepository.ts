@@ -0,0 +1,295 @@
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { Todo } from '@/domain/entities/Todo';
+import { DomainError, TodoNotFoundError } from '@/domain/errors';
+import { TodoPage, TodoQuery } from '@/domain/types/TodoQuery';
+import { Repository } from '../repository';
+import { RepositoryUnavailableError } from '../repository-unavailable.error';
+import { IndexedDbTodoRepository } from './IndexedDbTodoRepository';
+import { TodoMutation, TodoOutbox } from './TodoOutbox';
+import { toTodoEntity } from './todo-database';
+
+/**
+ * Offline Todo Repository
+ * Uses the remote repository while it is reachable and mirrors its data locally
+ * When it is not, changes go to the local repository and the outbox, and are replayed
+ * once the connection returns or before the next remote call. On conflict the copy with
+ * the newer `updatedAt` wins.
+ */
+export class OfflineTodoRepository extends Repository implements ITodoRepository {
+  private flushing: Promise<void> | null = null;
+
+  constructor(
+    private readonly remote: ITodoRepository,
+    private readonly local: IndexedDbTodoRepository,
+    private readonly outbox: TodoOutbox
+  ) {
+    super();
+  }
+
+  async findAll(query?: TodoQuery): Promise<Todo[]> {
+    return this.withFallback(
+      async () => {
+        const todos = await this.remote.findAll(query);
+        // Every live, active todo; the trash and the archive are mirrored by their own queries
+        await this.mirror(todos, {}, null);
+        return todos;
+      },
+      () => this.local.findAll(query)
+    );
+  }
+
+  async findPage(query: TodoQuery): Promise<TodoPage> {
+    return this.withFallback(
+      async () => {
+        const page = await this.remote.findPage(query);
+        await this.mirror(page.items, query, page.nextCursor);
+        return page;
+      },
+      () => this.local.findPage(query)
+    );
+  }
+
+  async findById(id: string): Promise<Todo | null> {
+    return this.withFallback(
+      () => this.remote.findById(id),
+      () => this.local.findById(id)
+    );
+  }
+
+  async create(todo: Todo): Promise<Todo> {
+    return this.withFallback(
+      async () => this.local.create(await this.remote.create(todo)),
+      async () => {
+        await this.local.create(todo);
+        await this.outbox.enqueue('create', todo.id, todo);
+        return todo;
+      }
+    );
+  }
+
+  async update(todo: Todo): Promise<Todo> {
+    return this.withFallback(
+      async () => this.local.create(await this.remote.update(todo)),
+      async () => {
+        await this.local.update(todo);
+        await this.outbox.enqueue('update', todo.id, todo);
+        return todo;
+      }
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.withFallback(
+      async () => {
+        await this.remote.delete(id);
+        await this.deleteLocal(id);
+      },
+      async () => {
+        await this.local.delete(id);
+        await this.outbox.enqueue('delete', id);
+      }
+    );
+  }
+
+  async restore(id: string): Promise<Todo> {
+    return this.withFallback(
+      async () => this.local.create(await this.remote.restore(id)),
+      async () => {
+        const todo = await this.local.restore(id);
+        await this.outbox.enqueue('restore', id, todo);
+        return todo;
+      }
+    );
+  }
+
+  async purge(id: string): Promise<void> {
+    return this.withFallback(
+      async () => {
+        await this.remote.purge(id);
+        await this.deleteLocal(id);
+      },
+      async () => {
+        await this.local.purge(id);
+        await this.outbox.enqueue('purge', id);
+      }
+    );
+  }
+
+  /**
+   * Replay queued offline changes against the remote repository
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replayOutbox().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async withFallback<T>(remoteOperation: () => Promise<T>, localOperation: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      return localOperation();
+    }
+    try {
+      await this.flush();
+      return await remoteOperation();
+    } catch (error) {
+      if (error instanceof RepositoryUnavailableError) {
+        return localOperation();
+      }
+      this.handleError(error);
+    }
+  }
+
+  private async replayOutbox(): Promise<void> {
+    // Offline id -> server id of todos created during this replay
+    const serverIds = new Map<string, string>();
+
+    for (const mutation of await this.outbox.pending()) {
+      try {
+        await this.replay(mutation, serverIds);
+      } catch (error) {
+        if (!(error instanceof DomainError)) {
+          throw error;
+        }
+        // The server rejected the change - keep its copy instead
+        await this.refreshLocal(mutation.todoId);
+      }
+      await this.outbox.remove(mutation.todoId);
+    }
+  }
+
+  private async replay(mutation: TodoMutation, serverIds: Map<string, string>): Promise<void> {
+    switch (mutation.type) {
+      case 'create': {
+        // A subtask or occurrence created offline may point at a todo that was also created offline
+        const { parentId, seriesId } = mutation.todo!;
+        const record = {
+          ...mutation.todo!,
+          parentId: parentId ? (serverIds.get(parentId) ?? parentId) : null,
+          seriesId: seriesId ? (serverIds.get(seriesId) ?? seriesId) : null,
+        };
+        // Replaying the completion of the previous occurrence has already created this one
+        if (record.seriesId) {
+          const series = await this.remote.findPage({ filter: { seriesId: record.seriesId } });
+          const existing = series.items.find((todo) => todo.occurrence === record.occurrence);
+          if (existing) {
+            serverIds.set(mutation.todoId, existing.id);
+            await this.deleteLocal(mutation.todoId);
+            await this.local.create(existing);
+            return;
+          }
+        }
+        const offlineTodo = toTodoEntity(record);
+        let created = await this.remote.create(offlineTodo);
+        serverIds.set(mutation.todoId, created.id);
+        // The server assigns a new id and starts every todo as pending
+        if (created.status !== offlineTodo.status) {
+          created = await this.remote.update(
+            toTodoEntity({ ...record, id: created.id, version: created.version })
+          );
+        }
+        await this.deleteLocal(mutation.todoId);
+        await this.local.create(created);
+        return;
+      }
+      case 'update': {
+        const serverTodo = await this.remote.findById(mutation.todoId);
+        if (!serverTodo) {
+          await this.deleteLocal(mutation.todoId);
+          return;
+        }
+        // The newer `updatedAt` decides, so a winning offline copy is saved over the server's version
+        const offlineTodo = toTodoEntity({ ...mutation.todo!, version: serverTodo.version });
+        if (serverTodo.updatedAt > offlineTodo.updatedAt) {
+          await this.local.create(serverTodo);
+          return;
+        }
+        await this.local.create(await this.remote.update(offlineTodo));
+        return;
+      }
+      case 'delete': {
+        const serverTodo = await this.remote.findById(mutation.todoId);
+        if (!serverTodo) {
+          return;
+        }
+        if (serverTodo.updatedAt > new Date(mutation.queuedAt)) {
+          await this.local.create(serverTodo);
+          return;
+        }
+        await this.remote.delete(mutation.todoId);
+        return;
+      }
+      case 'restore': {
+        // The delete may never have reached the server, or the todo itself was created offline
+        if (await this.remote.findById(mutation.todoId)) {
+          return this.replay({ ...mutation, type: 'update' }, serverIds);
+        }
+        try {
+          await this.local.create(await this.remote.restore(mutation.todoId));
+        } catch (error) {
+          if (!(error instanceof TodoNotFoundError)) {
+            throw error;
+          }
+          await this.replay({ ...mutation, type: 'create' }, serverIds);
+        }
+        return;
+      }
+      case 'purge': {
+        // Only todos in the trash can be purged, and the delete may have been folded into this entry
+        if (await this.remote.findById(mutation.todoId)) {
+          await this.remote.delete(mutation.todoId);
+        }
+        try {
+          await this.remote.purge(mutation.todoId);
+        } catch (error) {
+          if (!(error instanceof TodoNotFoundError)) {
+            throw error;
+          }
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Store what the server returned for a query and drop the local copies it no longer returns
+   * Only the stretch of the query the server covered is reconciled: local todos matching the
+   * filter, after the query's cursor and up to the server's next cursor
+   */
+  private async mirror(todos: Todo[], query: TodoQuery, nextCursor: string | null): Promise<void> {
+    const { items: covered } = await this.local.findPage({ ...query, limit: undefined });
+    const { items: beyond } = nextCursor
+      ? await this.local.findPage({ ...query, cursor: nextCursor, limit: undefined })
+      : { items: [] };
+    // Changes still waiting in the outbox are not on the server yet
+    const pending = (await this.outbox.pending()).map((mutation) => mutation.todoId);
+    const kept = new Set([...todos, ...beyond].map((todo) => todo.id).concat(pending));
+
+    await this.local.mirror(
+      todos,
+      covered.filter((todo) => !kept.has(todo.id)).map((todo) => todo.id)
+    );
+  }
+
+  private async refreshLocal(id: string): Promise<void> {
+    const serverTodo = await this.remote.findById(id);
+    if (serverTodo) {
+      await this.local.create(serverTodo);
+    } else {
+      await this.deleteLocal(id);
+    }
+  }
+
+  // Drop the local copy; the server's soft delete is not mirrored
+  private async deleteLocal(id: string): Promise<void> {
+    try {
+      await this.local.purge(id);
+    } catch (error) {
+      if (!(error instanceof TodoNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+}
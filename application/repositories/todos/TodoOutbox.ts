@@ -0,0 +1,56 @@
+import { Todo } from '@/domain/entities/Todo';
+import { OUTBOX_STORE, runInStore, toTodoRecord, TodoRecord } from './todo-database';
+
+export type TodoMutationType = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+// A change made while offline, waiting to be replayed against the server
+export interface TodoMutation {
+  todoId: string;
+  type: TodoMutationType;
+  todo?: TodoRecord;
+  queuedAt: string;
+}
+
+/**
+ * Todo Outbox
+ * Persists offline changes in IndexedDB, one entry per todo
+ * Later changes to the same todo are folded into the pending entry
+ */
+export class TodoOutbox {
+  async enqueue(type: TodoMutationType, todoId: string, todo?: Todo): Promise<void> {
+    const existing = await runInStore<TodoMutation | undefined>(OUTBOX_STORE, 'readonly', (store) =>
+      store.get(todoId)
+    );
+
+    // A todo created offline was never seen by the server
+    if (existing?.type === 'create') {
+      if (type === 'delete' || type === 'purge') {
+        await this.remove(todoId);
+        return;
+      }
+      type = 'create';
+    }
+
+    const mutation: TodoMutation = {
+      todoId,
+      type,
+      todo: todo ? toTodoRecord(todo) : existing?.todo,
+      queuedAt: new Date().toISOString(),
+    };
+    await runInStore(OUTBOX_STORE, 'readwrite', (store) => store.put(mutation));
+  }
+
+  /**
+   * Pending mutations, oldest first
+   */
+  async pending(): Promise<TodoMutation[]> {
+    const mutations = await runInStore<TodoMutation[]>(OUTBOX_STORE, 'readonly', (store) =>
+      store.getAll()
+    );
+    return mutations.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  async remove(todoId: string): Promise<void> {
+    await runInStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(todoId));
+  }
+}
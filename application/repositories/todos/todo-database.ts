@@ -0,0 +1,84 @@
+import { Todo } from '@/domain/entities/Todo';
+import { TodoResponseDTO } from '@/application/services/todo/out-dtos/todo-response.dto';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+
+const DATABASE_NAME = 'todolist';
+const DATABASE_VERSION = 4;
+
+export const TODO_STORE = 'todos';
+export const OUTBOX_STORE = 'outbox';
+export const TAG_STORE = 'tags';
+export const PROJECT_STORE = 'projects';
+export const ACTIVITY_STORE = 'activity';
+export const ACTIVITY_BY_TODO_INDEX = 'todoId';
+
+// Stored shape of a todo
+export type TodoRecord = TodoResponseDTO;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create or upgrade on first use) the browser database shared by the local stores
+ */
+export function openTodoDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TODO_STORE)) {
+          db.createObjectStore(TODO_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'todoId' });
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(TAG_STORE)) {
+          db.createObjectStore(TAG_STORE, { keyPath: 'id' });
+        }
+        // Added in version 3
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+        // Added in version 4
+        if (!db.objectStoreNames.contains(ACTIVITY_STORE)) {
+          const activity = db.createObjectStore(ACTIVITY_STORE, { keyPath: 'id' });
+          activity.createIndex(ACTIVITY_BY_TODO_INDEX, 'todoId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+/**
+ * Run a single request against an object store
+ */
+export async function runInStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openTodoDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function toTodoRecord(todo: Todo): TodoRecord {
+  return TodoMapper.toResponseDTO(todo);
+}
+
+export function toTodoEntity(record: TodoRecord): Todo {
+  return TodoMapper.toEntity(record);
+}
@@ -0,0 +1,3 @@
+export interface CreateProjectDTO {
+  name: string;
+}
@@ -0,0 +1,9 @@
+// What happens to a deleted list's todos
+export type ProjectTodoDisposal = 'cascade' | 'reassign';
+
+export interface DeleteProjectDTO {
+  // 'cascade' deletes the todos, 'reassign' moves them to `targetProjectId`
+  todos: ProjectTodoDisposal;
+  // List receiving the todos; null for the Inbox
+  targetProjectId?: string | null;
+}
@@ -0,0 +1,6 @@
+export interface UpdateProjectDTO {
+  name?: string;
+  archived?: boolean;
+  // Sidebar slot, 0 first
+  position?: number;
+}
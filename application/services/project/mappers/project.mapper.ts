@@ -0,0 +1,43 @@
+import { Project } from '@/domain/entities/Project';
+import { ProjectResponseDTO } from '../out-dtos/project-response.dto';
+
+/**
+ * Project Mapper
+ * Maps between domain entities and DTOs
+ */
+export class ProjectMapper {
+  /**
+   * Map Project entity to response DTO
+   */
+  static toResponseDTO(project: Project): ProjectResponseDTO {
+    return {
+      id: project.id,
+      name: project.name,
+      position: project.position,
+      createdAt: project.createdAt.toISOString(),
+      updatedAt: project.updatedAt.toISOString(),
+      archivedAt: project.archivedAt ? project.archivedAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Map array of Project entities to response DTOs
+   */
+  static toResponseDTOs(projects: Project[]): ProjectResponseDTO[] {
+    return projects.map(this.toResponseDTO);
+  }
+
+  /**
+   * Map response DTO back to a Project entity
+   */
+  static toEntity(dto: ProjectResponseDTO): Project {
+    return new Project(
+      dto.id,
+      dto.name,
+      dto.position,
+      new Date(dto.createdAt),
+      new Date(dto.updatedAt),
+      dto.archivedAt ? new Date(dto.archivedAt) : null
+    );
+  }
+}
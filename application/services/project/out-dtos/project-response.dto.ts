@@ -0,0 +1,8 @@
+export interface ProjectResponseDTO {
+  id: string;
+  name: string;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+  archivedAt: string | null;
+}
@@ -0,0 +1,160 @@
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { Project } from '@/domain/entities/Project';
+import { ConflictError, ProjectNotFoundError, ValidationError } from '@/domain/errors';
+import { CreateProjectDTO } from './in-dtos/create-project.dto';
+import { UpdateProjectDTO } from './in-dtos/update-project.dto';
+import { DeleteProjectDTO } from './in-dtos/delete-project.dto';
+import { ProjectResponseDTO } from './out-dtos/project-response.dto';
+import { ProjectMapper } from './mappers/project.mapper';
+import { ProjectDTOValidator } from './validators/project-dto.validator';
+import { TodoService } from '../todo/todo.service';
+
+/**
+ * Project Service
+ * Handles business operations for todo lists and the todos they own
+ */
+export class ProjectService {
+  constructor(
+    private readonly projectRepository: IProjectRepository,
+    private readonly todoRepository: ITodoRepository,
+    // Deletes or moves the list's todos, so their subtasks, history and events follow
+    private readonly todoService: TodoService
+  ) {}
+
+  /**
+   * Get all lists in sidebar order, archived ones included
+   */
+  async getAllProjects(): Promise<ProjectResponseDTO[]> {
+    return ProjectMapper.toResponseDTOs(await this.findOrdered());
+  }
+
+  /**
+   * Get list by ID
+   */
+  async getProjectById(id: string): Promise<ProjectResponseDTO | null> {
+    const project = await this.projectRepository.findById(id);
+    return project ? ProjectMapper.toResponseDTO(project) : null;
+  }
+
+  /**
+   * Create a list at the end of the sidebar
+   */
+  async createProject(input: CreateProjectDTO): Promise<ProjectResponseDTO> {
+    const dto = ProjectDTOValidator.toCreateProjectDTO(input);
+    const projects = await this.projectRepository.findAll();
+    this.assertNameAvailable(projects, dto.name);
+
+    const position = projects.reduce((max, project) => Math.max(max, project.position + 1), 0);
+    const project = new Project(this.generateId(), '', position, new Date(), new Date());
+    project.rename(dto.name);
+
+    const createdProject = await this.projectRepository.create(project);
+    return ProjectMapper.toResponseDTO(createdProject);
+  }
+
+  /**
+   * Rename, archive, unarchive or reposition a list
+   */
+  async updateProject(id: string, input: UpdateProjectDTO): Promise<ProjectResponseDTO> {
+    const dto = ProjectDTOValidator.toUpdateProjectDTO(input);
+    const project = await this.findProjectOrFail(id);
+
+    if (dto.name !== undefined) {
+      this.assertNameAvailable(await this.projectRepository.findAll(), dto.name, id);
+      project.rename(dto.name);
+    }
+    if (dto.archived === true) {
+      project.archive();
+    } else if (dto.archived === false) {
+      project.unarchive();
+    }
+    if (dto.position !== undefined) {
+      project.moveTo(dto.position);
+    }
+
+    const updatedProject = await this.projectRepository.update(project);
+    return ProjectMapper.toResponseDTO(updatedProject);
+  }
+
+  /**
+   * Reorder the sidebar; `ids` lists every list, first to last
+   */
+  async reorderProjects(ids: string[]): Promise<ProjectResponseDTO[]> {
+    const projects = await this.projectRepository.findAll();
+    const known = new Set(projects.map((project) => project.id));
+    if (ids.length !== known.size || new Set(ids).size !== ids.length || !ids.every((id) => known.has(id))) {
+      throw new ValidationError('Invalid list order', { ids: 'Ids must name every list exactly once' });
+    }
+
+    for (const project of projects) {
+      const position = ids.indexOf(project.id);
+      if (project.position !== position) {
+        project.moveTo(position);
+        await this.projectRepository.update(project);
+      }
+    }
+    return ProjectMapper.toResponseDTOs(await this.findOrdered());
+  }
+
+  /**
+   * Delete a list, deleting its todos or moving them to another list (or the Inbox)
+   * The options are checked before any todo changes
+   */
+  async deleteProject(id: string, dto: DeleteProjectDTO): Promise<void> {
+    await this.findProjectOrFail(id);
+    const targetProjectId = dto.targetProjectId ?? null;
+
+    if (dto.todos === 'reassign' && targetProjectId !== null) {
+      if (targetProjectId === id) {
+        throw new ValidationError('Invalid delete options', { target: 'Pick a different list' });
+      }
+      const target = await this.findProjectOrFail(targetProjectId);
+      if (target.isArchived()) {
+        throw new ValidationError('Invalid delete options', {
+          target: `List "${target.name}" is archived`,
+        });
+      }
+    }
+
+    // Archived todos belong to the list too; subtasks are trashed or moved along with their parent
+    const active = await this.todoRepository.findPage({ filter: { projectId: id } });
+    const archived = await this.todoRepository.findPage({ filter: { projectId: id, archived: true } });
+    const todos = [...active.items, ...archived.items].filter((todo) => !todo.isSubtask());
+
+    for (const todo of todos) {
+      if (dto.todos === 'cascade') {
+        await this.todoService.deleteTodo(todo.id);
+      } else {
+        await this.todoService.moveToProject(todo.id, targetProjectId);
+      }
+    }
+    await this.projectRepository.delete(id);
+  }
+
+  private async findOrdered(): Promise<Project[]> {
+    const projects = await this.projectRepository.findAll();
+    return projects.sort((a, b) => a.position - b.position);
+  }
+
+  private async findProjectOrFail(id: string): Promise<Project> {
+    const project = await this.projectRepository.findById(id);
+    if (!project) {
+      throw new ProjectNotFoundError(id);
+    }
+    return project;
+  }
+
+  private assertNameAvailable(projects: Project[], name: string, exceptId?: string): void {
+    if (projects.some((project) => project.id !== exceptId && project.hasName(name))) {
+      throw new ConflictError('List name already exists', { name: `A list named "${name.trim()}" already exists` });
+    }
+  }
+
+  /**
+   * Generate unique ID for lists
+   */
+  private generateId(): string {
+    return `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
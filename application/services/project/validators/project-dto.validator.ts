@@ -0,0 +1,84 @@
+import { ValidationError } from '@/domain/errors';
+import { INBOX_LIST_ID } from '@/domain/types/TodoQuery';
+import {
+  assertNoErrors,
+  boolean,
+  checkDTO,
+  DTOSchema,
+  FieldErrors,
+  integer,
+  required,
+  text,
+} from '@/application/services/shared/validators/dto-schema';
+import { CreateProjectDTO } from '../in-dtos/create-project.dto';
+import { UpdateProjectDTO } from '../in-dtos/update-project.dto';
+import { DeleteProjectDTO } from '../in-dtos/delete-project.dto';
+
+export const PROJECT_NAME_MAX_LENGTH = 60;
+
+const UPDATE_PROJECT_SCHEMA: DTOSchema<UpdateProjectDTO> = {
+  name: text('Name', { maxLength: PROJECT_NAME_MAX_LENGTH }),
+  archived: boolean('Archived'),
+  position: integer('Position', { min: 0 }),
+};
+
+const CREATE_PROJECT_SCHEMA: DTOSchema<CreateProjectDTO> = {
+  name: required(UPDATE_PROJECT_SCHEMA.name),
+};
+
+/**
+ * Project DTO Validator
+ * Checks input against the list in-DTO schemas; shared by the API, ProjectService and the sidebar
+ */
+export class ProjectDTOValidator {
+  /**
+   * Validate input for creating a list
+   */
+  static toCreateProjectDTO(input: unknown): CreateProjectDTO {
+    const { value, errors } = checkDTO(CREATE_PROJECT_SCHEMA, this.asObject(input));
+    assertNoErrors(errors, 'Invalid list input');
+
+    return { name: value.name! };
+  }
+
+  /**
+   * Validate input for updating a list
+   */
+  static toUpdateProjectDTO(input: unknown): UpdateProjectDTO {
+    const { value, errors } = checkDTO(UPDATE_PROJECT_SCHEMA, this.asObject(input), true);
+    assertNoErrors(errors, 'Invalid list input');
+
+    return value;
+  }
+
+  /**
+   * Field messages for a list being created or renamed, for forms to show as the user types
+   */
+  static projectErrors(input: UpdateProjectDTO): FieldErrors {
+    return checkDTO(UPDATE_PROJECT_SCHEMA, input as Record<string, unknown>, true).errors;
+  }
+
+  /**
+   * Validate delete options from the query string: ?todos=cascade|reassign&target=<listId|inbox>
+   * Todos move to the Inbox unless told otherwise
+   */
+  static toDeleteProjectDTO(params: URLSearchParams): DeleteProjectDTO {
+    const todos = params.get('todos') ?? 'reassign';
+    if (todos !== 'cascade' && todos !== 'reassign') {
+      throw new ValidationError('Invalid delete options', { todos: 'Todos must be cascade or reassign' });
+    }
+    const target = params.get('target');
+
+    return {
+      todos,
+      targetProjectId: !target || target === INBOX_LIST_ID ? null : target,
+    };
+  }
+
+  private static asObject(input: unknown): Record<string, unknown> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new ValidationError('Request body must be a JSON object');
+    }
+    return input as Record<string, unknown>;
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  ConflictError,
+  DomainError,
+  InvalidTransitionError,
+  OpenSubtasksError,
+  ProjectNotFoundError,
+  TagNotFoundError,
+  TodoNotFoundError,
+  ValidationError,
+  VersionConflictError,
+} from '@/domain/errors';
+import { RepositoryUnavailableError } from '@/application/repositories/repository-unavailable.error';
+import {
+  ErrorResponseDTO,
+  INTERNAL_ERROR_CODE,
+  UNAVAILABLE_ERROR_CODE,
+} from '../out-dtos/error-response.dto';
+
+/**
+ * Error Mapper
+ * Maps between thrown errors and the error DTO, in both directions
+ */
+export class ErrorMapper {
+  /**
+   * Map a thrown error to its DTO
+   * Errors that are not domain errors keep their details to themselves and get the fallback message
+   */
+  static toResponseDTO(error: unknown, fallbackMessage = 'Unexpected error'): ErrorResponseDTO {
+    if (error instanceof ValidationError || error instanceof ConflictError) {
+      return { code: error.code, message: error.message, fields: error.fields };
+    }
+    if (error instanceof TodoNotFoundError) {
+      return { code: error.code, message: error.message, details: { todoId: error.todoId } };
+    }
+    if (error instanceof TagNotFoundError) {
+      return { code: error.code, message: error.message, details: { tagId: error.tagId } };
+    }
+    if (error instanceof ProjectNotFoundError) {
+      return { code: error.code, message: error.message, details: { projectId: error.projectId } };
+    }
+    if (error instanceof InvalidTransitionError) {
+      return { code: error.code, message: error.message, details: { from: error.from, to: error.to } };
+    }
+    if (error instanceof OpenSubtasksError) {
+      return {
+        code: error.code,
+        message: error.message,
+        details: { todoId: error.todoId, openSubtaskIds: error.openSubtaskIds },
+      };
+    }
+    if (error instanceof VersionConflictError) {
+      return {
+        code: error.code,
+        message: error.message,
+        details: {
+          todoId: error.todoId,
+          expectedVersion: error.expectedVersion,
+          currentVersion: error.currentVersion,
+        },
+      };
+    }
+    if (error instanceof DomainError) {
+      return { code: error.code, message: error.message };
+    }
+    if (error instanceof RepositoryUnavailableError) {
+      return { code: UNAVAILABLE_ERROR_CODE, message: error.message };
+    }
+    return { code: INTERNAL_ERROR_CODE, message: fallbackMessage };
+  }
+
+  /**
+   * Map an error DTO back to the typed error it was made from
+   */
+  static toError(dto: ErrorResponseDTO): Error {
+    switch (dto.code) {
+      case 'VALIDATION_FAILED':
+        return new ValidationError(dto.message, dto.fields);
+      case 'CONFLICT':
+        return new ConflictError(dto.message, dto.fields);
+      case 'TODO_NOT_FOUND':
+        return new TodoNotFoundError(dto.details?.todoId ?? '');
+      case 'TAG_NOT_FOUND':
+        return new TagNotFoundError(dto.details?.tagId ?? '');
+      case 'PROJECT_NOT_FOUND':
+        return new ProjectNotFoundError(dto.details?.projectId ?? '');
+      case 'INVALID_TRANSITION':
+        if (dto.details?.from && dto.details.to) {
+          return new InvalidTransitionError(dto.details.from, dto.details.to);
+        }
+        return new Error(dto.message);
+      case 'OPEN_SUBTASKS':
+        return new OpenSubtasksError(dto.details?.todoId ?? '', dto.details?.openSubtaskIds ?? []);
+      case 'VERSION_CONFLICT':
+        return new VersionConflictError(
+          dto.details?.todoId ?? '',
+          dto.details?.expectedVersion ?? 0,
+          dto.details?.currentVersion ?? 0
+        );
+      // The server is up but its store is not, so callers fall back as when it is unreachable
+      case UNAVAILABLE_ERROR_CODE:
+        return new RepositoryUnavailableError(dto.message);
+      default:
+        return new Error(dto.message);
+    }
+  }
+
+  /**
+   * Field messages carried by a validation or conflict error; empty for any other error
+   */
+  static toFieldErrors(error: unknown): Record<string, string> {
+    return error instanceof ValidationError || error instanceof ConflictError ? error.fields : {};
+  }
+}
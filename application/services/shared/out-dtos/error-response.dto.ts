@@ -0,0 +1,27 @@
+import { TodoStatusType } from '@/domain/enums';
+
+/**
+ * Error contract shared by the API and the clients
+ * `code` is stable and tells callers which typed error to expect
+ */
+export interface ErrorResponseDTO {
+  code: string;
+  message: string;
+  // Offending input fields and their messages
+  fields?: Record<string, string>;
+  // Values needed to rebuild the typed error on the other side
+  details?: {
+    todoId?: string;
+    tagId?: string;
+    projectId?: string;
+    openSubtaskIds?: string[];
+    from?: TodoStatusType;
+    to?: TodoStatusType;
+    expectedVersion?: number;
+    currentVersion?: number;
+  };
+}
+
+// Codes for failures that are not domain errors
+export const INTERNAL_ERROR_CODE = 'INTERNAL_ERROR';
+export const UNAVAILABLE_ERROR_CODE = 'UNAVAILABLE';
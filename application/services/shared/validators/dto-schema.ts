@@ -0,0 +1,218 @@
+import { ValidationError } from '@/domain/errors';
+
+// Messages for the offending fields, by field name; nested fields use dots: 'recurrence.interval'
+export type FieldErrors = Record<string, string>;
+
+// Outcome of checking one field: the normalized value, or what is wrong with it
+export type FieldResult<T> = { value: T } | { error: string | FieldErrors };
+
+/**
+ * Declarative rule for one DTO field
+ * `check` only sees values that are present; a missing value fails only when `required`
+ */
+export interface FieldRule<T> {
+  label: string;
+  required?: boolean;
+  check: (value: unknown) => FieldResult<T>;
+}
+
+// One rule per DTO field
+export type DTOSchema<T> = { [K in keyof T]-?: FieldRule<Exclude<T[K], undefined>> };
+
+// Dates outside these years are typos, not plans
+const MIN_YEAR = 1970;
+const MAX_YEAR = 9999;
+
+/**
+ * Check input against a schema
+ * Returns the normalized fields that passed and the messages for those that did not;
+ * `partial` skips the required checks, for updates
+ */
+export function checkDTO<T>(
+  schema: DTOSchema<T>,
+  input: Record<string, unknown>,
+  partial = false
+): { value: Partial<T>; errors: FieldErrors } {
+  const value: Partial<T> = {};
+  const errors: FieldErrors = {};
+
+  for (const key of Object.keys(schema) as (keyof T & string)[]) {
+    const rule = schema[key];
+    const raw = input[key];
+    if (raw === undefined) {
+      if (rule.required && !partial) {
+        errors[key] = `${rule.label} is required`;
+      }
+      continue;
+    }
+    const result = rule.check(raw);
+    if ('value' in result) {
+      value[key] = result.value as T[typeof key];
+    } else if (typeof result.error === 'string') {
+      errors[key] = result.error;
+    } else {
+      Object.entries(result.error).forEach(([field, message]) => {
+        errors[`${key}.${field}`] = message;
+      });
+    }
+  }
+
+  return { value, errors };
+}
+
+/**
+ * Throw a ValidationError carrying the messages, if there are any
+ */
+export function assertNoErrors(errors: FieldErrors, message: string): void {
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(message, errors);
+  }
+}
+
+export function required<T>(rule: FieldRule<T>): FieldRule<T> {
+  return { ...rule, required: true };
+}
+
+// Null passes through, e.g. to clear a date
+export function nullable<T>(rule: FieldRule<T>): FieldRule<T | null> {
+  return { ...rule, check: (value) => (value === null ? { value: null } : rule.check(value)) };
+}
+
+/**
+ * Trimmed text; empty text is rejected unless `allowEmpty`
+ */
+export function text(
+  label: string,
+  options: { maxLength: number; allowEmpty?: boolean; pattern?: RegExp; patternMessage?: string }
+): FieldRule<string> {
+  return {
+    label,
+    check: (value) => {
+      if (typeof value !== 'string') {
+        return { error: `${label} must be text` };
+      }
+      const trimmed = value.trim();
+      if (!options.allowEmpty && trimmed.length === 0) {
+        return { error: `${label} cannot be empty` };
+      }
+      if (trimmed.length > options.maxLength) {
+        return { error: `${label} must be at most ${options.maxLength} characters` };
+      }
+      if (options.pattern && !options.pattern.test(trimmed)) {
+        return { error: options.patternMessage ?? `${label} is not valid` };
+      }
+      return { value: trimmed };
+    },
+  };
+}
+
+// A non-empty id string
+export function id(label: string): FieldRule<string> {
+  return {
+    label,
+    check: (value) =>
+      typeof value === 'string' && value.length > 0
+        ? { value }
+        : { error: `${label} must be a non-empty string` },
+  };
+}
+
+/**
+ * An ISO 8601 timestamp within sane years, normalized to UTC
+ */
+export function isoDate(label: string): FieldRule<string> {
+  return {
+    label,
+    check: (value) => {
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        return { error: `${label} must be a valid ISO 8601 date` };
+      }
+      const date = new Date(value);
+      const year = date.getUTCFullYear();
+      if (year < MIN_YEAR || year > MAX_YEAR) {
+        return { error: `${label} must be between ${MIN_YEAR} and ${MAX_YEAR}` };
+      }
+      return { value: date.toISOString() };
+    },
+  };
+}
+
+export function integer(label: string, options: { min?: number; max?: number } = {}): FieldRule<number> {
+  const { min = -Infinity, max = Infinity } = options;
+  return {
+    label,
+    check: (value) => {
+      if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+        const range =
+          max === Infinity
+            ? min === -Infinity
+              ? ''
+              : ` of at least ${min}`
+            : ` between ${min} and ${max}`;
+        return { error: `${label} must be an integer${range}` };
+      }
+      return { value: value as number };
+    },
+  };
+}
+
+export function boolean(label: string): FieldRule<boolean> {
+  return {
+    label,
+    check: (value) =>
+      typeof value === 'boolean' ? { value } : { error: `${label} must be true or false` },
+  };
+}
+
+export function oneOf<T extends string>(label: string, values: readonly T[]): FieldRule<T> {
+  return {
+    label,
+    check: (value) =>
+      values.includes(value as T)
+        ? { value: value as T }
+        : { error: `${label} must be one of: ${values.join(', ')}` },
+  };
+}
+
+/**
+ * An array whose items all pass `item`; duplicates are dropped
+ */
+export function list<T>(label: string, item: FieldRule<T>, options: { maxItems: number }): FieldRule<T[]> {
+  return {
+    label,
+    check: (value) => {
+      if (!Array.isArray(value)) {
+        return { error: `${label} must be a list` };
+      }
+      const items: T[] = [];
+      for (const entry of value) {
+        const result = item.check(entry);
+        if (!('value' in result)) {
+          return result;
+        }
+        items.push(result.value);
+      }
+      const unique = Array.from(new Set(items));
+      if (unique.length > options.maxItems) {
+        return { error: `${label} can have at most ${options.maxItems} entries` };
+      }
+      return { value: unique };
+    },
+  };
+}
+
+/**
+ * A nested object checked against its own schema; its messages keep their field names
+ */
+export function object<T>(label: string, schema: DTOSchema<T>): FieldRule<Partial<T>> {
+  return {
+    label,
+    check: (value) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { error: `${label} must be an object` };
+      }
+      const { value: checked, errors } = checkDTO(schema, value as Record<string, unknown>);
+      return Object.keys(errors).length > 0 ? { error: errors } : { value: checked };
+    },
+  };
+}
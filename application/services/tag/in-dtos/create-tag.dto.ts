@@ -0,0 +1,4 @@
+export interface CreateTagDTO {
+  name: string;
+  color?: string;
+}
@@ -0,0 +1,4 @@
+export interface UpdateTagDTO {
+  name?: string;
+  color?: string;
+}
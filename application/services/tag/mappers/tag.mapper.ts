@@ -0,0 +1,35 @@
+import { Tag } from '@/domain/entities/Tag';
+import { TagResponseDTO } from '../out-dtos/tag-response.dto';
+
+/**
+ * Tag Mapper
+ * Maps between domain entities and DTOs
+ */
+export class TagMapper {
+  /**
+   * Map Tag entity to response DTO
+   */
+  static toResponseDTO(tag: Tag): TagResponseDTO {
+    return {
+      id: tag.id,
+      name: tag.name,
+      color: tag.color,
+      createdAt: tag.createdAt.toISOString(),
+      updatedAt: tag.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Map array of Tag entities to response DTOs
+   */
+  static toResponseDTOs(tags: Tag[]): TagResponseDTO[] {
+    return tags.map(this.toResponseDTO);
+  }
+
+  /**
+   * Map response DTO back to a Tag entity
+   */
+  static toEntity(dto: TagResponseDTO): Tag {
+    return new Tag(dto.id, dto.name, dto.color, new Date(dto.createdAt), new Date(dto.updatedAt));
+  }
+}
@@ -0,0 +1,7 @@
+export interface TagResponseDTO {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
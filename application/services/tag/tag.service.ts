@@ -0,0 +1,137 @@
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { Tag } from '@/domain/entities/Tag';
+import { ConflictError, TagNotFoundError, ValidationError } from '@/domain/errors';
+import { CreateTagDTO } from './in-dtos/create-tag.dto';
+import { UpdateTagDTO } from './in-dtos/update-tag.dto';
+import { TagResponseDTO } from './out-dtos/tag-response.dto';
+import { TagMapper } from './mappers/tag.mapper';
+import { TagDTOValidator } from './validators/tag-dto.validator';
+import { TodoService } from '../todo/todo.service';
+
+const DEFAULT_TAG_COLOR = '#6366f1';
+
+/**
+ * Tag Service
+ * Handles business operations for tags and keeps todo tag assignments consistent
+ */
+export class TagService {
+  constructor(
+    private readonly tagRepository: ITagRepository,
+    private readonly todoRepository: ITodoRepository,
+    // Saves the todos retagged here, so their history and change feed record it
+    private readonly todoService: TodoService
+  ) {}
+
+  /**
+   * Get all tags, sorted by name
+   */
+  async getAllTags(): Promise<TagResponseDTO[]> {
+    const tags = await this.tagRepository.findAll();
+    return TagMapper.toResponseDTOs(tags.sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  /**
+   * Get tag by ID
+   */
+  async getTagById(id: string): Promise<TagResponseDTO | null> {
+    const tag = await this.tagRepository.findById(id);
+    return tag ? TagMapper.toResponseDTO(tag) : null;
+  }
+
+  /**
+   * Create a new tag
+   */
+  async createTag(input: CreateTagDTO): Promise<TagResponseDTO> {
+    const dto = TagDTOValidator.toCreateTagDTO(input);
+    await this.assertNameAvailable(dto.name);
+
+    const tag = new Tag(this.generateId(), '', dto.color ?? DEFAULT_TAG_COLOR, new Date(), new Date());
+    tag.rename(dto.name);
+
+    const createdTag = await this.tagRepository.create(tag);
+    return TagMapper.toResponseDTO(createdTag);
+  }
+
+  /**
+   * Rename or recolor a tag
+   * Todos reference tags by id, so nothing else changes
+   */
+  async updateTag(id: string, input: UpdateTagDTO): Promise<TagResponseDTO> {
+    const dto = TagDTOValidator.toUpdateTagDTO(input);
+    const tag = await this.findTagOrFail(id);
+
+    if (dto.name !== undefined) {
+      await this.assertNameAvailable(dto.name, id);
+      tag.rename(dto.name);
+    }
+    if (dto.color !== undefined) {
+      tag.updateColor(dto.color);
+    }
+
+    const updatedTag = await this.tagRepository.update(tag);
+    return TagMapper.toResponseDTO(updatedTag);
+  }
+
+  /**
+   * Merge one tag into another
+   * Every todo tagged with the source gets the target instead, then the source is deleted
+   */
+  async mergeTags(sourceId: string, targetId: string): Promise<TagResponseDTO> {
+    if (sourceId === targetId) {
+      throw new ValidationError('Cannot merge a tag into itself', { targetId: 'Pick a different tag' });
+    }
+    await this.findTagOrFail(sourceId);
+    const target = await this.findTagOrFail(targetId);
+
+    for (const todo of await this.findTodosTagged(sourceId)) {
+      todo.replaceTag(sourceId, targetId);
+      await this.todoService.updateTodo(todo.id, { tagIds: todo.tagIds });
+    }
+    await this.tagRepository.delete(sourceId);
+
+    return TagMapper.toResponseDTO(target);
+  }
+
+  /**
+   * Delete a tag and remove it from every todo
+   */
+  async deleteTag(id: string): Promise<void> {
+    await this.findTagOrFail(id);
+
+    for (const todo of await this.findTodosTagged(id)) {
+      todo.removeTag(id);
+      await this.todoService.updateTodo(todo.id, { tagIds: todo.tagIds });
+    }
+    await this.tagRepository.delete(id);
+  }
+
+  private async findTagOrFail(id: string): Promise<Tag> {
+    const tag = await this.tagRepository.findById(id);
+    if (!tag) {
+      throw new TagNotFoundError(id);
+    }
+    return tag;
+  }
+
+  // Active and archived todos carrying the tag
+  private async findTodosTagged(tagId: string) {
+    const active = await this.todoRepository.findPage({ filter: { tagIds: [tagId] } });
+    const archived = await this.todoRepository.findPage({ filter: { tagIds: [tagId], archived: true } });
+    return [...active.items, ...archived.items];
+  }
+
+  private async assertNameAvailable(name: string, exceptId?: string): Promise<void> {
+    const tags = await this.tagRepository.findAll();
+    if (tags.some((tag) => tag.id !== exceptId && tag.hasName(name))) {
+      throw new ConflictError('Tag name already exists', { name: `A tag named "${name.trim()}" already exists` });
+    }
+  }
+
+  /**
+   * Generate unique ID for tags
+   */
+  private generateId(): string {
+    return `tag_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,78 @@
+import { ValidationError } from '@/domain/errors';
+import {
+  assertNoErrors,
+  checkDTO,
+  DTOSchema,
+  FieldErrors,
+  required,
+  text,
+} from '@/application/services/shared/validators/dto-schema';
+import { CreateTagDTO } from '../in-dtos/create-tag.dto';
+import { UpdateTagDTO } from '../in-dtos/update-tag.dto';
+
+export const TAG_NAME_MAX_LENGTH = 40;
+
+const UPDATE_TAG_SCHEMA: DTOSchema<UpdateTagDTO> = {
+  name: text('Name', { maxLength: TAG_NAME_MAX_LENGTH }),
+  color: text('Color', {
+    maxLength: 7,
+    pattern: /^#[0-9a-fA-F]{6}$/,
+    patternMessage: 'Color must be a hex value like #3b82f6',
+  }),
+};
+
+const CREATE_TAG_SCHEMA: DTOSchema<CreateTagDTO> = {
+  ...UPDATE_TAG_SCHEMA,
+  name: required(UPDATE_TAG_SCHEMA.name),
+};
+
+/**
+ * Tag DTO Validator
+ * Checks input against the tag in-DTO schemas; shared by the API, TagService and the tag forms
+ */
+export class TagDTOValidator {
+  /**
+   * Validate input for creating a tag
+   */
+  static toCreateTagDTO(input: unknown): CreateTagDTO {
+    const { value, errors } = checkDTO(CREATE_TAG_SCHEMA, this.asObject(input));
+    assertNoErrors(errors, 'Invalid tag input');
+
+    return { name: value.name!, color: value.color };
+  }
+
+  /**
+   * Validate input for updating a tag
+   */
+  static toUpdateTagDTO(input: unknown): UpdateTagDTO {
+    const { value, errors } = checkDTO(UPDATE_TAG_SCHEMA, this.asObject(input), true);
+    assertNoErrors(errors, 'Invalid tag input');
+
+    return value;
+  }
+
+  /**
+   * Field messages for a tag being created or renamed, for forms to show as the user types
+   */
+  static tagErrors(input: UpdateTagDTO): FieldErrors {
+    return checkDTO(UPDATE_TAG_SCHEMA, input as Record<string, unknown>, true).errors;
+  }
+
+  /**
+   * Validate the target of a merge
+   */
+  static toMergeTargetId(input: unknown): string {
+    const body = this.asObject(input);
+    if (typeof body.targetId !== 'string' || body.targetId.length === 0) {
+      throw new ValidationError('Invalid merge', { targetId: 'Target tag id is required' });
+    }
+    return body.targetId;
+  }
+
+  private static asObject(input: unknown): Record<string, unknown> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new ValidationError('Request body must be a JSON object');
+    }
+    return input as Record<string, unknown>;
+  }
+}
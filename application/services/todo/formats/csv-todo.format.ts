@@ -0,0 +1,142 @@
+import { ValidationError } from '@/domain/errors';
+import { TodoResponseDTO } from '../out-dtos/todo-response.dto';
+import { ImportedTodo, ParsedTodoRow, TodoFormat } from './todo-format';
+
+// Columns in export order; imports match them by header name, in any order
+const COLUMNS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueAt',
+  'remindAt',
+  'tagIds',
+  'projectId',
+  'parentId',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+type Column = (typeof COLUMNS)[number];
+
+// Separates the ids in the tagIds cell
+const LIST_SEPARATOR = ';';
+
+/**
+ * CSV Todo Format
+ * One todo per row under a header row (RFC 4180 quoting); empty cells stand for no value
+ * Recurrence is not carried
+ */
+export class CsvTodoFormat implements TodoFormat {
+  readonly extension = 'csv';
+  readonly mimeType = 'text/csv';
+
+  serialize(todos: TodoResponseDTO[]): string {
+    const rows = todos.map((todo) => COLUMNS.map((column) => this.toCell(todo, column)));
+    return [[...COLUMNS], ...rows].map((cells) => cells.map(this.quote).join(',')).join('\r\n');
+  }
+
+  parse(content: string): ParsedTodoRow[] {
+    // Spreadsheets often save a byte order mark in front of the header
+    const [header, ...rows] = this.readRows(content.replace(/^\uFEFF/, ''));
+    const columns = header?.cells.map((name) => name.trim()) ?? [];
+    if (!columns.includes('title')) {
+      throw new ValidationError('Invalid import file', {
+        file: 'The first row must name the columns, including title',
+      });
+    }
+
+    return rows
+      .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''))
+      .map(({ line, cells }) => {
+        const todo: ImportedTodo = {};
+        columns.forEach((name, index) => {
+          const column = name as Column;
+          if (COLUMNS.includes(column) && index < cells.length) {
+            Object.assign(todo, { [column]: this.fromCell(column, cells[index]) });
+          }
+        });
+        return { row: line, todo };
+      });
+  }
+
+  private toCell(todo: TodoResponseDTO, column: Column): string {
+    if (column === 'tagIds') {
+      return todo.tagIds.join(LIST_SEPARATOR);
+    }
+    return todo[column] ?? '';
+  }
+
+  private fromCell(column: Column, cell: string): unknown {
+    if (column === 'tagIds') {
+      return cell
+        .split(LIST_SEPARATOR)
+        .map((tagId) => tagId.trim())
+        .filter(Boolean);
+    }
+    if (column === 'title' || column === 'description') {
+      return cell;
+    }
+    return cell.trim() === '' ? null : cell.trim();
+  }
+
+  private quote(cell: string): string {
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }
+
+  /**
+   * Split the file into rows of cells, keeping the line each row starts on
+   * Quoted cells may hold commas, doubled quotes and line breaks
+   */
+  private readRows(content: string): { line: number; cells: string[] }[] {
+    const rows: { line: number; cells: string[] }[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+      rows.push({ line: rowLine, cells: [...cells, cell] });
+      cells = [];
+      cell = '';
+      rowLine = line;
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') line++;
+          cell += char;
+        }
+      } else if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        line++;
+        endRow();
+      } else {
+        cell += char;
+      }
+    }
+    if (quoted) {
+      throw new ValidationError('Invalid import file', {
+        file: `Quoted cell starting on line ${rowLine} is never closed`,
+      });
+    }
+    if (cell !== '' || cells.length > 0) {
+      endRow();
+    }
+    return rows;
+  }
+}
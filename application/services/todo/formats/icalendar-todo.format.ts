@@ -0,0 +1,233 @@
+import { ValidationError } from '@/domain/errors';
+import { TODO_PRIORITY, TODO_STATUS, TodoPriorityType, TodoStatusType } from '@/domain/enums';
+import { TodoResponseDTO } from '../out-dtos/todo-response.dto';
+import { ImportedTodo, ParsedTodoRow, TodoFormat } from './todo-format';
+
+const STATUS_TO_ICAL: Record<TodoStatusType, string> = {
+  [TODO_STATUS.PENDING]: 'NEEDS-ACTION',
+  [TODO_STATUS.IN_PROGRESS]: 'IN-PROCESS',
+  [TODO_STATUS.COMPLETED]: 'COMPLETED',
+  [TODO_STATUS.CANCELLED]: 'CANCELLED',
+};
+
+// 1 is the highest iCalendar priority, 9 the lowest
+const PRIORITY_TO_ICAL: Record<TodoPriorityType, number> = {
+  [TODO_PRIORITY.URGENT]: 1,
+  [TODO_PRIORITY.HIGH]: 3,
+  [TODO_PRIORITY.MEDIUM]: 5,
+  [TODO_PRIORITY.LOW]: 9,
+};
+
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75;
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * iCalendar Todo Format
+ * A VCALENDAR of VTODO components (RFC 5545), with the reminder as a VALARM
+ * Tags, lists and recurrence are not carried
+ */
+export class ICalendarTodoFormat implements TodoFormat {
+  readonly extension = 'ics';
+  readonly mimeType = 'text/calendar';
+
+  serialize(todos: TodoResponseDTO[], exportedAt: Date): string {
+    const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//clean-todolist//Todo export//EN'];
+
+    todos.forEach((todo) => {
+      lines.push(
+        'BEGIN:VTODO',
+        `UID:${this.escape(todo.id)}`,
+        `DTSTAMP:${this.toDateTime(exportedAt.toISOString())}`,
+        `CREATED:${this.toDateTime(todo.createdAt)}`,
+        `LAST-MODIFIED:${this.toDateTime(todo.updatedAt)}`,
+        `SUMMARY:${this.escape(todo.title)}`,
+        `STATUS:${STATUS_TO_ICAL[todo.status]}`,
+        `PRIORITY:${PRIORITY_TO_ICAL[todo.priority]}`
+      );
+      if (todo.description) lines.push(`DESCRIPTION:${this.escape(todo.description)}`);
+      if (todo.dueAt) lines.push(`DUE:${this.toDateTime(todo.dueAt)}`);
+      if (todo.parentId) lines.push(`RELATED-TO:${this.escape(todo.parentId)}`);
+      if (todo.remindAt) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${this.escape(todo.title)}`,
+          `TRIGGER;VALUE=DATE-TIME:${this.toDateTime(todo.remindAt)}`,
+          'END:VALARM'
+        );
+      }
+      lines.push('END:VTODO');
+    });
+
+    lines.push('END:VCALENDAR');
+    return `${lines.map((line) => this.fold(line)).join('\r\n')}\r\n`;
+  }
+
+  parse(content: string): ParsedTodoRow[] {
+    const lines = content
+      .replace(/\r?\n[ \t]/g, '')
+      .split(/\r?\n/)
+      .filter((line) => line.trim());
+    if (lines[0]?.trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+      throw new ValidationError('Invalid import file', { file: 'File is not an iCalendar file' });
+    }
+
+    const rows: ParsedTodoRow[] = [];
+    // Components entered and not yet ended, innermost last
+    const components: string[] = [];
+    let todo: ImportedTodo = {};
+
+    lines.map((line) => this.readLine(line)).forEach(({ name, params, value }) => {
+      const inTodo = components.at(-1) === 'VTODO';
+      if (name === 'BEGIN') {
+        components.push(value.toUpperCase());
+        if (value.toUpperCase() === 'VTODO') {
+          todo = { description: '' };
+        }
+      } else if (name === 'END') {
+        if (components.pop() === 'VTODO') {
+          rows.push({ row: rows.length + 1, todo });
+        }
+      } else if (inTodo) {
+        this.readTodoProperty(todo, name, params, value);
+      } else if (components.at(-1) === 'VALARM' && name === 'TRIGGER' && params.VALUE === 'DATE-TIME') {
+        // Only absolute reminders; relative triggers depend on the due date and are left out
+        todo.remindAt = this.fromDateTime(value);
+      }
+    });
+
+    return rows;
+  }
+
+  private readTodoProperty(
+    todo: ImportedTodo,
+    name: string,
+    params: Record<string, string>,
+    value: string
+  ): void {
+    switch (name) {
+      case 'UID':
+        todo.id = this.unescape(value);
+        break;
+      case 'SUMMARY':
+        todo.title = this.unescape(value);
+        break;
+      case 'DESCRIPTION':
+        todo.description = this.unescape(value);
+        break;
+      case 'STATUS':
+        todo.status =
+          (Object.keys(STATUS_TO_ICAL) as TodoStatusType[]).find(
+            (status) => STATUS_TO_ICAL[status] === value.toUpperCase()
+          ) ?? value;
+        break;
+      case 'PRIORITY':
+        todo.priority = this.fromPriority(Number(value));
+        break;
+      case 'DUE':
+        todo.dueAt = this.fromDateTime(value);
+        break;
+      case 'RELATED-TO':
+        // Only the parent relation, which is the default
+        if (!params.RELTYPE || params.RELTYPE.toUpperCase() === 'PARENT') {
+          todo.parentId = this.unescape(value);
+        }
+        break;
+      case 'CREATED':
+        todo.createdAt = this.fromDateTime(value);
+        break;
+    }
+  }
+
+  // 0 means undefined; 1-4 and 6-9 are the upper and lower ranges of RFC 5545
+  private fromPriority(priority: number): TodoPriorityType | string {
+    if (!Number.isInteger(priority) || priority < 0 || priority > 9) return String(priority);
+    if (priority === 0 || priority === 5) return TODO_PRIORITY.MEDIUM;
+    if (priority <= 2) return TODO_PRIORITY.URGENT;
+    if (priority <= 4) return TODO_PRIORITY.HIGH;
+    return TODO_PRIORITY.LOW;
+  }
+
+  private readLine(line: string): ContentLine {
+    // The value starts at the first colon outside a quoted parameter value
+    let quoted = false;
+    let colon = -1;
+    for (let i = 0; i < line.length && colon < 0; i++) {
+      if (line[i] === '"') quoted = !quoted;
+      else if (line[i] === ':' && !quoted) colon = i;
+    }
+    const head = colon < 0 ? line : line.slice(0, colon);
+    const [name, ...paramParts] = head.split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach((part) => {
+      const [key, ...rest] = part.split('=');
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    });
+    return { name: name.trim().toUpperCase(), params, value: colon < 0 ? '' : line.slice(colon + 1) };
+  }
+
+  // UTC in the basic format: 20240131T093000Z
+  private toDateTime(iso: string): string {
+    return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Read a DATE or DATE-TIME value as an ISO string; unreadable values are passed on
+   * as they are so validation reports them
+   * Dates and times without a Z (floating or with a TZID) are read as local time
+   */
+  private fromDateTime(value: string): string {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+    if (!match) {
+      return value;
+    }
+    const [, year, month, day, hours = '00', minutes = '00', seconds = '00', utc] = match;
+    const parts = [year, month, day, hours, minutes, seconds].map(Number);
+    const date = utc
+      ? new Date(Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]))
+      : new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+    return date.toISOString();
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  private unescape(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+      char === 'n' || char === 'N' ? '\n' : char
+    );
+  }
+
+  // Break a line into continuation lines of at most 75 octets, without splitting characters
+  private fold(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let part = '';
+    let octets = 0;
+    for (const char of line) {
+      const size = encoder.encode(char).length;
+      // Continuation lines start with a space, which counts towards their length
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (octets + size > limit) {
+        parts.push(part);
+        part = '';
+        octets = 0;
+      }
+      part += char;
+      octets += size;
+    }
+    parts.push(part);
+    return parts.join('\r\n ');
+  }
+}
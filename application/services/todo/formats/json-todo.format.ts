@@ -0,0 +1,59 @@
+import { ValidationError } from '@/domain/errors';
+import { TodoResponseDTO } from '../out-dtos/todo-response.dto';
+import { ParsedTodoRow, TodoFormat } from './todo-format';
+
+// Bumped whenever the document shape changes; older versions are read as long as they are listed
+export const TODO_EXPORT_VERSION = 1;
+const READABLE_VERSIONS = [1];
+
+interface TodoExportDocument {
+  version: number;
+  exportedAt: string;
+  todos: TodoResponseDTO[];
+}
+
+/**
+ * JSON Todo Format
+ * Versioned document holding the todos exactly as TodoMapper.toResponseDTO writes them
+ */
+export class JsonTodoFormat implements TodoFormat {
+  readonly extension = 'json';
+  readonly mimeType = 'application/json';
+
+  serialize(todos: TodoResponseDTO[], exportedAt: Date): string {
+    const document: TodoExportDocument = {
+      version: TODO_EXPORT_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      todos,
+    };
+    return JSON.stringify(document, null, 2);
+  }
+
+  parse(content: string): ParsedTodoRow[] {
+    let document: unknown;
+    try {
+      document = JSON.parse(content);
+    } catch {
+      throw new ValidationError('Invalid import file', { file: 'File is not valid JSON' });
+    }
+
+    if (typeof document !== 'object' || document === null || !('todos' in document)) {
+      throw new ValidationError('Invalid import file', { file: 'File is not a todo export' });
+    }
+    const { version, todos } = document as Partial<TodoExportDocument>;
+    if (!READABLE_VERSIONS.includes(version as number)) {
+      throw new ValidationError('Invalid import file', {
+        file: `Unsupported export version: ${String(version)}`,
+      });
+    }
+    if (!Array.isArray(todos)) {
+      throw new ValidationError('Invalid import file', { file: 'Todos must be a list' });
+    }
+
+    // Entries that are not objects come through empty and fail validation on their row
+    return todos.map((todo, index) => ({
+      row: index + 1,
+      todo: typeof todo === 'object' && todo !== null ? todo : {},
+    }));
+  }
+}
@@ -0,0 +1,91 @@
+import { TODO_STATUS } from '@/domain/enums';
+import { TodoResponseDTO } from '../out-dtos/todo-response.dto';
+import { ParsedTodoRow, TodoFormat } from './todo-format';
+
+const TASK_PATTERN = /^(\s*)[-*+] \[([ xX])\] (.*)$/;
+const ID_PATTERN = /\s*<!--\s*id:\s*(\S+)\s*-->\s*$/;
+const STRUCK_PATTERN = /^~~(.*)~~$/;
+
+// Spaces a subtask, or a description line, is indented under its todo
+const INDENT = '  ';
+
+/**
+ * Markdown Todo Format
+ * A task list: `- [ ]` for open todos, `- [x]` for completed ones and `- [x] ~~…~~` for
+ * cancelled ones, with subtasks and description lines indented under their todo
+ * The id rides along in an HTML comment; other fields are not carried
+ */
+export class MarkdownTodoFormat implements TodoFormat {
+  readonly extension = 'md';
+  readonly mimeType = 'text/markdown';
+
+  serialize(todos: TodoResponseDTO[]): string {
+    const ids = new Set(todos.map((todo) => todo.id));
+    const lines = ['# Todos', ''];
+    todos
+      .filter((todo) => !todo.parentId || !ids.has(todo.parentId))
+      .forEach((todo) => {
+        lines.push(...this.toLines(todo, ''));
+        todos
+          .filter((subtask) => subtask.parentId === todo.id)
+          .forEach((subtask) => lines.push(...this.toLines(subtask, INDENT)));
+      });
+    return `${lines.join('\n')}\n`;
+  }
+
+  parse(content: string): ParsedTodoRow[] {
+    const rows: ParsedTodoRow[] = [];
+    // Open items by indent, to find the parent of the next indented one
+    const open: { indent: number; row: ParsedTodoRow }[] = [];
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      const match = TASK_PATTERN.exec(line);
+      if (!match) {
+        // Text indented under the last item continues its description; anything else is prose
+        const last = open.at(-1);
+        const indent = line.length - line.trimStart().length;
+        if (last && line.trim() && indent > last.indent) {
+          const description = last.row.todo.description as string;
+          last.row.todo.description = description ? `${description}\n${line.trim()}` : line.trim();
+        }
+        return;
+      }
+
+      const [, leading, mark, text] = match;
+      const indent = leading.length;
+      while (open.length > 0 && open[open.length - 1].indent >= indent) {
+        open.pop();
+      }
+
+      const id = ID_PATTERN.exec(text)?.[1];
+      const title = text.replace(ID_PATTERN, '').trim();
+      const struck = STRUCK_PATTERN.exec(title);
+      const done = mark !== ' ';
+      const row: ParsedTodoRow = {
+        row: index + 1,
+        todo: {
+          ...(id ? { id } : {}),
+          title: struck && done ? struck[1].trim() : title,
+          description: '',
+          status: done ? (struck ? TODO_STATUS.CANCELLED : TODO_STATUS.COMPLETED) : TODO_STATUS.PENDING,
+        },
+        parentRow: open.at(-1)?.row.row,
+      };
+      rows.push(row);
+      open.push({ indent, row });
+    });
+
+    return rows;
+  }
+
+  private toLines(todo: TodoResponseDTO, indent: string): string[] {
+    const done = todo.status === TODO_STATUS.COMPLETED || todo.status === TODO_STATUS.CANCELLED;
+    const title = todo.title.replace(/\s+/g, ' ');
+    const text = todo.status === TODO_STATUS.CANCELLED ? `~~${title}~~` : title;
+    const description = todo.description
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line) => `${indent}${INDENT}${line.trim()}`);
+    return [`${indent}- [${done ? 'x' : ' '}] ${text} <!-- id: ${todo.id} -->`, ...description];
+  }
+}
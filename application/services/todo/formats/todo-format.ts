@@ -0,0 +1,25 @@
+import { TodoResponseDTO } from '../out-dtos/todo-response.dto';
+
+// A todo as read from an import file; nothing is trusted until TodoTransferService checks it
+export type ImportedTodo = { [K in keyof TodoResponseDTO]?: unknown };
+
+export interface ParsedTodoRow {
+  // Where the todo sits in the file, 1-based: the line, CSV row or calendar entry
+  row: number;
+  todo: ImportedTodo;
+  // Row of the parent todo, for formats that nest subtasks instead of naming their parent's id
+  parentRow?: number;
+}
+
+/**
+ * Todo Format
+ * Writes todos to one file format and reads them back
+ * `parse` throws a ValidationError when the file as a whole cannot be read; problems
+ * with single todos are left for the importer to report per row
+ */
+export interface TodoFormat {
+  readonly extension: string;
+  readonly mimeType: string;
+  serialize(todos: TodoResponseDTO[], exportedAt: Date): string;
+  parse(content: string): ParsedTodoRow[];
+}
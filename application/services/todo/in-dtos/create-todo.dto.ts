@@ -1,4 +1,23 @@
+import { TodoPriorityType } from '@/domain/enums';
+import { RecurrenceDTO } from './recurrence.dto';
+
 export interface CreateTodoDTO {
   title: string;
   description: string;
+  // ISO 8601 timestamps
+  dueAt?: string | null;
+  remindAt?: string | null;
+  priority?: TodoPriorityType;
+  tagIds?: string[];
+  // Owning list; null or omitted for the Inbox
+  projectId?: string | null;
+  // Makes the todo a subtask; it joins the parent's list
+  parentId?: string | null;
+  // Makes the todo recur once completed
+  recurrence?: RecurrenceDTO | null;
+  // Continues an existing series instead of starting one
+  seriesId?: string | null;
+  occurrence?: number;
+  // Id the todo had in the file it is imported from
+  importedFrom?: string | null;
 }
@@ -0,0 +1,15 @@
+import { RecurrenceFrequency } from '@/domain/types/Recurrence';
+
+export interface RecurrenceDTO {
+  frequency: RecurrenceFrequency;
+  // Every N days, weeks or months
+  interval: number;
+  // Weekly: days of the week, 0 = Sunday; defaults to the due date's weekday
+  weekdays?: number[];
+  // Monthly: day of the month; defaults to the due date's day
+  monthDay?: number;
+  // ISO 8601 end date, null for no end
+  until?: string | null;
+  // Total number of occurrences, null for no limit
+  count?: number | null;
+}
@@ -1,4 +1,25 @@
+import { TodoPriorityType, TodoStatusType } from '@/domain/enums';
+import { RecurrenceDTO } from './recurrence.dto';
+
 export interface UpdateTodoDTO {
   title?: string;
   description?: string;
+  // ISO 8601 timestamps, null clears the value
+  dueAt?: string | null;
+  remindAt?: string | null;
+  priority?: TodoPriorityType;
+  // Moves the todo along the workflow, as transitionStatus does
+  status?: TodoStatusType;
+  // Replaces the full tag set
+  tagIds?: string[];
+  // Moves the todo to another list; null for the Inbox
+  projectId?: string | null;
+  // Changes this todo's schedule; null stops it recurring
+  recurrence?: RecurrenceDTO | null;
+  // Archives a completed todo, or brings it back; subtasks follow their parent
+  archived?: boolean;
+  // Sort key in the manual order; TodoService.moveTodo works one out from the neighbours
+  position?: string;
+  // Version the edit was based on; the update fails when the todo has changed since
+  version?: number;
 }
@@ -0,0 +1,43 @@
+import { ActivityEntry } from '@/domain/entities/ActivityEntry';
+import { ActivityEntryResponseDTO } from '../out-dtos/activity-entry-response.dto';
+
+/**
+ * Activity Entry Mapper
+ * Maps between activity entries and DTOs
+ */
+export class ActivityEntryMapper {
+  /**
+   * Map ActivityEntry entity to response DTO
+   */
+  static toResponseDTO(entry: ActivityEntry): ActivityEntryResponseDTO {
+    return {
+      id: entry.id,
+      todoId: entry.todoId,
+      action: entry.action,
+      changes: entry.changes.map((change) => ({ ...change })),
+      occurredAt: entry.occurredAt.toISOString(),
+      actor: entry.actor,
+    };
+  }
+
+  /**
+   * Map array of ActivityEntry entities to response DTOs
+   */
+  static toResponseDTOs(entries: ActivityEntry[]): ActivityEntryResponseDTO[] {
+    return entries.map(this.toResponseDTO);
+  }
+
+  /**
+   * Map response DTO back to an ActivityEntry entity
+   */
+  static toEntity(dto: ActivityEntryResponseDTO): ActivityEntry {
+    return new ActivityEntry(
+      dto.id,
+      dto.todoId,
+      dto.action,
+      dto.changes.map((change) => ({ ...change })),
+      new Date(dto.occurredAt),
+      dto.actor
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { INBOX_LIST_ID, TodoQuery } from '@/domain/types/TodoQuery';
+
+/**
+ * Todo Query Mapper
+ * Maps a TodoQuery to URL query parameters
+ * TodoDTOValidator.toTodoQuery reads them back
+ */
+export class TodoQueryMapper {
+  static toSearchParams(query: TodoQuery): URLSearchParams {
+    const params = new URLSearchParams();
+    const filter = query.filter ?? {};
+
+    if (filter.search?.trim()) params.set('q', filter.search.trim());
+    if (filter.statuses?.length) params.set('status', filter.statuses.join(','));
+    if (filter.tagIds?.length) params.set('tag', filter.tagIds.join(','));
+    if (filter.projectId !== undefined) params.set('list', filter.projectId ?? INBOX_LIST_ID);
+    if (filter.topLevelOnly) params.set('topLevel', 'true');
+    if (filter.parentIds?.length) params.set('parent', filter.parentIds.join(','));
+    if (filter.seriesId) params.set('series', filter.seriesId);
+    if (filter.deleted) params.set('deleted', 'true');
+    if (filter.archived) params.set('archived', 'true');
+    if (filter.createdFrom) params.set('createdFrom', filter.createdFrom.toISOString());
+    if (filter.createdTo) params.set('createdTo', filter.createdTo.toISOString());
+    if (filter.dueFrom) params.set('dueFrom', filter.dueFrom.toISOString());
+    if (filter.dueTo) params.set('dueTo', filter.dueTo.toISOString());
+    if (filter.undated) params.set('undated', 'true');
+    if (query.sortBy) params.set('sortBy', query.sortBy);
+    if (query.sortDirection) params.set('sortDirection', query.sortDirection);
+    if (query.cursor) params.set('cursor', query.cursor);
+    if (query.limit !== undefined) params.set('limit', String(query.limit));
+
+    return params;
+  }
+}
@@ -1,5 +1,10 @@
 import { Todo } from '@/domain/entities/Todo';
+import { TODO_PRIORITY } from '@/domain/enums';
+import { Recurrence } from '@/domain/types/Recurrence';
+import { initialTodoPosition } from '@/domain/types/Position';
 import { TodoResponseDTO } from '../out-dtos/todo-response.dto';
+import { RecurrenceDTO } from '../in-dtos/recurrence.dto';
+import { UpdateTodoDTO } from '../in-dtos/update-todo.dto';
 
 /**
  * Todo Mapper
@@ -17,6 +22,20 @@ export class TodoMapper {
       status: todo.status,
       createdAt: todo.createdAt.toISOString(),
       updatedAt: todo.updatedAt.toISOString(),
+      dueAt: todo.dueAt ? todo.dueAt.toISOString() : null,
+      remindAt: todo.remindAt ? todo.remindAt.toISOString() : null,
+      priority: todo.priority,
+      tagIds: [...todo.tagIds],
+      projectId: todo.projectId,
+      parentId: todo.parentId,
+      recurrence: todo.recurrence ? TodoMapper.toRecurrenceDTO(todo.recurrence) : null,
+      seriesId: todo.seriesId,
+      occurrence: todo.occurrence,
+      deletedAt: todo.deletedAt ? todo.deletedAt.toISOString() : null,
+      archivedAt: todo.archivedAt ? todo.archivedAt.toISOString() : null,
+      version: todo.version,
+      position: todo.position,
+      importedFrom: todo.importedFrom,
     };
   }
 
@@ -26,4 +45,79 @@ export class TodoMapper {
   static toResponseDTOs(todos: Todo[]): TodoResponseDTO[] {
     return todos.map(this.toResponseDTO);
   }
+
+  /**
+   * Map response DTO back to a Todo entity
+   */
+  static toEntity(dto: TodoResponseDTO): Todo {
+    return new Todo(
+      dto.id,
+      dto.title,
+      dto.description,
+      dto.status,
+      new Date(dto.createdAt),
+      new Date(dto.updatedAt),
+      dto.dueAt ? new Date(dto.dueAt) : null,
+      dto.remindAt ? new Date(dto.remindAt) : null,
+      dto.priority ?? TODO_PRIORITY.MEDIUM,
+      dto.tagIds ?? [],
+      dto.projectId ?? null,
+      dto.parentId ?? null,
+      dto.recurrence ? TodoMapper.toRecurrence(dto.recurrence) : null,
+      dto.seriesId ?? null,
+      dto.occurrence ?? 1,
+      dto.deletedAt ? new Date(dto.deletedAt) : null,
+      dto.archivedAt ? new Date(dto.archivedAt) : null,
+      dto.version ?? 1,
+      // Todos saved before the manual order existed take the key of their creation time
+      dto.position ?? initialTodoPosition(new Date(dto.createdAt)),
+      dto.importedFrom ?? null
+    );
+  }
+
+  /**
+   * Map a todo's editable fields to an update DTO that puts them back as they are
+   * No version is set, so the DTO applies over whatever has changed since
+   */
+  static toUpdateDTO(todo: Todo): UpdateTodoDTO {
+    const dto = TodoMapper.toResponseDTO(todo);
+    return {
+      title: dto.title,
+      description: dto.description,
+      dueAt: dto.dueAt,
+      remindAt: dto.remindAt,
+      priority: dto.priority,
+      tagIds: dto.tagIds,
+      projectId: dto.projectId,
+      recurrence: dto.recurrence,
+    };
+  }
+
+  /**
+   * Map a recurrence rule to its DTO
+   */
+  static toRecurrenceDTO(recurrence: Recurrence): RecurrenceDTO {
+    return {
+      frequency: recurrence.frequency,
+      interval: recurrence.interval,
+      ...(recurrence.weekdays ? { weekdays: [...recurrence.weekdays] } : {}),
+      ...(recurrence.monthDay !== undefined ? { monthDay: recurrence.monthDay } : {}),
+      until: recurrence.until ? recurrence.until.toISOString() : null,
+      count: recurrence.count ?? null,
+    };
+  }
+
+  /**
+   * Map a recurrence DTO back to a rule
+   */
+  static toRecurrence(dto: RecurrenceDTO): Recurrence {
+    return {
+      frequency: dto.frequency,
+      interval: dto.interval,
+      ...(dto.weekdays ? { weekdays: [...dto.weekdays] } : {}),
+      ...(dto.monthDay !== undefined ? { monthDay: dto.monthDay } : {}),
+      until: dto.until ? new Date(dto.until) : null,
+      count: dto.count ?? null,
+    };
+  }
 }
@@ -0,0 +1,17 @@
+import { ActivityActionType, ActivityActorType } from '@/domain/enums';
+import { ActivityValue, TrackedTodoField } from '@/domain/entities/ActivityEntry';
+
+export interface FieldChangeDTO {
+  field: TrackedTodoField;
+  from: ActivityValue;
+  to: ActivityValue;
+}
+
+export interface ActivityEntryResponseDTO {
+  id: string;
+  todoId: string;
+  action: ActivityActionType;
+  changes: FieldChangeDTO[];
+  occurredAt: string;
+  actor: ActivityActorType;
+}
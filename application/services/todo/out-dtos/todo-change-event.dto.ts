@@ -0,0 +1,10 @@
+import { TodoResponseDTO } from './todo-response.dto';
+
+// 'deleted' moves a todo to the trash; 'purged' removes it for good
+export type TodoChangeType = 'created' | 'updated' | 'deleted' | 'purged';
+
+export interface TodoChangeEventDTO {
+  type: TodoChangeType;
+  // The todo as it was saved by the change
+  todo: TodoResponseDTO;
+}
@@ -0,0 +1,6 @@
+// A file ready to download
+export interface TodoExportDTO {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
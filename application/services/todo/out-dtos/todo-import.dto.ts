@@ -0,0 +1,33 @@
+import { TodoStatusType } from '@/domain/enums';
+import { CreateTodoDTO } from '../in-dtos/create-todo.dto';
+
+// What importing a row will do: create a todo, leave it out as a duplicate, or reject it
+export type TodoImportAction = 'create' | 'skip' | 'error';
+
+export interface TodoImportRowDTO {
+  // Line, CSV row or calendar entry the todo was read from, 1-based
+  row: number;
+  action: TodoImportAction;
+  // Id the todo has in the file, if any
+  sourceId: string | null;
+  title: string;
+  // Why the row is skipped or rejected, or what was left out to import it
+  messages: string[];
+  // Todo to create, for rows being created; parentId is set when the parent already exists
+  todo: CreateTodoDTO | null;
+  // Status applied once every todo is created
+  status: TodoStatusType;
+  // Row of the parent, when the parent is created by the same import
+  parentRow: number | null;
+}
+
+export interface TodoImportPreviewDTO {
+  rows: TodoImportRowDTO[];
+}
+
+export interface TodoImportResultDTO {
+  created: number;
+  skipped: number;
+  // Rows that could not be created, or were created but not given their status
+  failed: TodoImportRowDTO[];
+}
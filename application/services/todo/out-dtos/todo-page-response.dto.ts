@@ -0,0 +1,7 @@
+import { TodoResponseDTO } from './todo-response.dto';
+
+export interface TodoPageResponseDTO {
+  items: TodoResponseDTO[];
+  total: number;
+  nextCursor: string | null;
+}
@@ -1,8 +1,25 @@
+import { TodoPriorityType, TodoStatusType } from '@/domain/enums';
+import { RecurrenceDTO } from '../in-dtos/recurrence.dto';
+
 export interface TodoResponseDTO {
   id: string;
   title: string;
   description: string;
-  status: string;
+  status: TodoStatusType;
   createdAt: string;
   updatedAt: string;
+  dueAt: string | null;
+  remindAt: string | null;
+  priority: TodoPriorityType;
+  tagIds: string[];
+  projectId: string | null;
+  parentId: string | null;
+  recurrence: RecurrenceDTO | null;
+  seriesId: string | null;
+  occurrence: number;
+  deletedAt: string | null;
+  archivedAt: string | null;
+  version: number;
+  position: string;
+  importedFrom: string | null;
 }
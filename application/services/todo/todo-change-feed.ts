@@ -0,0 +1,39 @@
+import { Todo } from '@/domain/entities/Todo';
+import { TodoMapper } from './mappers/todo.mapper';
+import { TodoChangeEventDTO, TodoChangeType } from './out-dtos/todo-change-event.dto';
+
+export type TodoChangeListener = (event: TodoChangeEventDTO) => void;
+
+/**
+ * Todo Change Feed
+ * In-process stream of saved todo changes, shared by every service that writes todos
+ * Listeners pass the events on: the SSE route to other clients, the browser to other tabs
+ */
+export class TodoChangeFeed {
+  private listeners: Set<TodoChangeListener> = new Set();
+
+  /**
+   * Listen for changes; returns a function that stops listening
+   */
+  subscribe(listener: TodoChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tell every listener about a change that has been saved
+   * A failing listener does not fail the write or keep the others from hearing about it
+   */
+  publish(type: TodoChangeType, todo: Todo): void {
+    const event: TodoChangeEventDTO = { type, todo: TodoMapper.toResponseDTO(todo) };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch {
+        // The listener's own problem; the change is saved either way
+      }
+    });
+  }
+}
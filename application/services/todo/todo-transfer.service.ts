@@ -0,0 +1,323 @@
+import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { TODO_STATUS, TodoStatusType } from '@/domain/enums';
+import { ErrorMapper } from '../shared/mappers/error.mapper';
+import { CreateTodoDTO } from './in-dtos/create-todo.dto';
+import { TodoExportDTO } from './out-dtos/todo-export.dto';
+import {
+  TodoImportPreviewDTO,
+  TodoImportResultDTO,
+  TodoImportRowDTO,
+} from './out-dtos/todo-import.dto';
+import { TodoDTOValidator } from './validators/todo-dto.validator';
+import { TodoService } from './todo.service';
+import { ParsedTodoRow, TodoFormat } from './formats/todo-format';
+import { JsonTodoFormat } from './formats/json-todo.format';
+import { CsvTodoFormat } from './formats/csv-todo.format';
+import { MarkdownTodoFormat } from './formats/markdown-todo.format';
+import { ICalendarTodoFormat } from './formats/icalendar-todo.format';
+
+export type TodoTransferFormat = 'json' | 'csv' | 'markdown' | 'icalendar';
+
+const FORMATS: Record<TodoTransferFormat, TodoFormat> = {
+  json: new JsonTodoFormat(),
+  csv: new CsvTodoFormat(),
+  markdown: new MarkdownTodoFormat(),
+  icalendar: new ICalendarTodoFormat(),
+};
+
+export const TODO_TRANSFER_FORMATS = Object.keys(FORMATS) as TodoTransferFormat[];
+
+const TODO_STATUS_VALUES = Object.values(TODO_STATUS) as TodoStatusType[];
+
+// Todos already in the app and the tags and lists todos may point at
+interface ImportContext {
+  // Id of the todo each id in use or imported before stands for
+  knownIds: Map<string, string>;
+  tagIds: Set<string>;
+  // Lists that accept todos, i.e. not archived
+  projectIds: Set<string>;
+}
+
+/**
+ * Todo Transfer Service
+ * Exports the active todos to a file and imports todos from one
+ * An import is previewed first: every row is checked and marked to be created, skipped
+ * or rejected, and only committing the preview creates todos. Created todos get new ids
+ * and remember their row's id in `importedFrom`; rows whose id is in use or matches an
+ * `importedFrom` are skipped, so importing a file twice, or an export back into the app,
+ * adds nothing
+ */
+export class TodoTransferService {
+  constructor(
+    private readonly todoService: TodoService,
+    private readonly todoRepository: ITodoRepository,
+    private readonly tagRepository: ITagRepository,
+    private readonly projectRepository: IProjectRepository
+  ) {}
+
+  /**
+   * The format a file name's extension stands for, if any
+   */
+  static formatOf(filename: string): TodoTransferFormat | null {
+    const extension = filename.split('.').pop()?.toLowerCase();
+    return TODO_TRANSFER_FORMATS.find((format) => FORMATS[format].extension === extension) ?? null;
+  }
+
+  /**
+   * File name extension of a format, with its dot
+   */
+  static extensionOf(format: TodoTransferFormat): string {
+    return `.${FORMATS[format].extension}`;
+  }
+
+  /**
+   * Write the active todos, subtasks included, oldest first
+   */
+  async exportTodos(format: TodoTransferFormat, now: Date = new Date()): Promise<TodoExportDTO> {
+    const todos = await this.todoService.getAllTodos({ sortBy: 'createdAt', sortDirection: 'asc' });
+    const writer = FORMATS[format];
+    return {
+      filename: `todos-${now.toISOString().slice(0, 10)}.${writer.extension}`,
+      mimeType: writer.mimeType,
+      content: writer.serialize(todos, now),
+    };
+  }
+
+  /**
+   * Read a file and decide what importing each row would do, without saving anything
+   */
+  async previewImport(format: TodoTransferFormat, content: string): Promise<TodoImportPreviewDTO> {
+    const parsed = FORMATS[format].parse(content);
+    const context = await this.loadContext();
+
+    // Row each id was first seen on, to reject later rows repeating it
+    const seen = new Map<string, number>();
+    const rows = parsed.map((row) => {
+      const checked = this.checkRow(row, context);
+      const firstRow = checked.sourceId ? seen.get(checked.sourceId) : undefined;
+      if (firstRow !== undefined) {
+        return this.reject(checked, `Same id as row ${firstRow}`);
+      }
+      if (checked.sourceId) {
+        seen.set(checked.sourceId, checked.row);
+      }
+      return checked;
+    });
+
+    return { rows: this.resolveParents(rows, parsed, context) };
+  }
+
+  /**
+   * Create the todos a preview accepted
+   * Parents are created before their subtasks; statuses are applied last, subtasks
+   * first, since a todo is only completed once its subtasks are closed
+   */
+  async commitImport(preview: TodoImportPreviewDTO): Promise<TodoImportResultDTO> {
+    const accepted = preview.rows.filter((row) => row.action === 'create' && row.todo);
+    const ordered = [
+      ...accepted.filter((row) => row.parentRow === null),
+      ...accepted.filter((row) => row.parentRow !== null),
+    ];
+    // Row -> id of the todo created for it
+    const createdIds = new Map<number, string>();
+    const failed: TodoImportRowDTO[] = [];
+
+    for (const row of ordered) {
+      const parentId = row.parentRow !== null ? createdIds.get(row.parentRow) : row.todo!.parentId;
+      if (row.parentRow !== null && !parentId) {
+        failed.push(this.reject(row, 'Its parent could not be imported'));
+        continue;
+      }
+      try {
+        const created = await this.todoService.createTodo({
+          ...row.todo!,
+          parentId: parentId ?? null,
+          importedFrom: row.sourceId,
+        });
+        createdIds.set(row.row, created.id);
+      } catch (error) {
+        failed.push(this.reject(row, ...this.messagesOf(error)));
+      }
+    }
+
+    for (const row of [...ordered].reverse()) {
+      const id = createdIds.get(row.row);
+      if (!id || row.status === TODO_STATUS.PENDING) {
+        continue;
+      }
+      try {
+        await this.todoService.transitionStatus(id, row.status);
+      } catch (error) {
+        failed.push(this.reject(row, `Imported as pending, not ${row.status}`, ...this.messagesOf(error)));
+      }
+    }
+
+    return {
+      created: createdIds.size,
+      skipped: preview.rows.filter((row) => row.action === 'skip').length,
+      failed,
+    };
+  }
+
+  private async loadContext(): Promise<ImportContext> {
+    const [active, archived, deleted, tags, projects] = await Promise.all([
+      this.todoRepository.findPage({}),
+      this.todoRepository.findPage({ filter: { archived: true } }),
+      this.todoRepository.findPage({ filter: { deleted: true } }),
+      this.tagRepository.findAll(),
+      this.projectRepository.findAll(),
+    ]);
+    const todos = [...active.items, ...archived.items, ...deleted.items];
+    return {
+      knownIds: new Map([
+        ...todos.flatMap((todo) =>
+          todo.importedFrom ? [[todo.importedFrom, todo.id] as const] : []
+        ),
+        ...todos.map((todo) => [todo.id, todo.id] as const),
+      ]),
+      tagIds: new Set(tags.map((tag) => tag.id)),
+      projectIds: new Set(
+        projects.filter((project) => !project.isArchived()).map((project) => project.id)
+      ),
+    };
+  }
+
+  /**
+   * Check one row on its own; parents are resolved once every row is known
+   */
+  private checkRow({ row, todo, parentRow }: ParsedTodoRow, context: ImportContext): TodoImportRowDTO {
+    const sourceId = typeof todo.id === 'string' && todo.id.trim() ? todo.id.trim() : null;
+    const checked: TodoImportRowDTO = {
+      row,
+      action: 'create',
+      sourceId,
+      title: typeof todo.title === 'string' ? todo.title.trim() : '',
+      messages: [],
+      todo: null,
+      status: TODO_STATUS.PENDING,
+      parentRow: parentRow ?? null,
+    };
+
+    if (sourceId && context.knownIds.has(sourceId)) {
+      return {
+        ...checked,
+        action: 'skip',
+        messages: ['A todo with this id already exists or was imported before'],
+      };
+    }
+
+    const status = todo.status ?? TODO_STATUS.PENDING;
+    if (!TODO_STATUS_VALUES.includes(status as TodoStatusType)) {
+      return this.reject(checked, `Status must be one of: ${TODO_STATUS_VALUES.join(', ')}`);
+    }
+    checked.status = status as TodoStatusType;
+
+    // Empty cells and nulls mean the field is not set
+    const input: Record<string, unknown> = {};
+    for (const field of ['title', 'description', 'dueAt', 'remindAt', 'priority', 'recurrence'] as const) {
+      if (todo[field] !== null && todo[field] !== undefined) {
+        input[field] = todo[field];
+      }
+    }
+
+    if (Array.isArray(todo.tagIds)) {
+      input.tagIds = todo.tagIds.filter((tagId) => context.tagIds.has(tagId as string));
+      if ((input.tagIds as unknown[]).length < todo.tagIds.length) {
+        checked.messages.push('Unknown tags left out');
+      }
+    } else if (todo.tagIds !== null && todo.tagIds !== undefined) {
+      input.tagIds = todo.tagIds;
+    }
+
+    if (typeof todo.projectId === 'string') {
+      if (context.projectIds.has(todo.projectId)) {
+        input.projectId = todo.projectId;
+      } else {
+        checked.messages.push('List not found or archived; imported into the Inbox');
+      }
+    }
+
+    // Completing the imported occurrence would start the next one
+    if (input.recurrence && checked.status === TODO_STATUS.COMPLETED) {
+      delete input.recurrence;
+      checked.messages.push('Completed occurrence; its repeat schedule is left out');
+    }
+
+    const errors = TodoDTOValidator.createTodoErrors(input as Partial<CreateTodoDTO>);
+    if (Object.keys(errors).length > 0) {
+      return this.reject(checked, ...Object.values(errors));
+    }
+    return { ...checked, todo: { ...TodoDTOValidator.toCreateTodoDTO(input), parentId: null } };
+  }
+
+  /**
+   * Point subtasks at their parent: a row created by the same import, or a todo that
+   * already exists. Parents that are rejected take their subtasks with them
+   */
+  private resolveParents(
+    rows: TodoImportRowDTO[],
+    parsed: ParsedTodoRow[],
+    context: ImportContext
+  ): TodoImportRowDTO[] {
+    const byRow = new Map(rows.map((row) => [row.row, row]));
+    const bySourceId = new Map(
+      rows.filter((row) => row.sourceId !== null).map((row) => [row.sourceId!, row])
+    );
+    const isSubtask = new Map(
+      parsed.map(({ row, todo, parentRow }) => [
+        row,
+        parentRow !== undefined || (typeof todo.parentId === 'string' && todo.parentId !== ''),
+      ])
+    );
+
+    return rows.map((row, index) => {
+      if (row.action !== 'create') {
+        return row;
+      }
+
+      const parentId = parsed[index].todo.parentId;
+      let parent: TodoImportRowDTO | undefined;
+      if (row.parentRow !== null) {
+        parent = byRow.get(row.parentRow);
+      } else if (typeof parentId === 'string' && parentId !== '') {
+        parent = bySourceId.get(parentId);
+        if (!parent) {
+          const existingId = context.knownIds.get(parentId);
+          return existingId
+            ? { ...row, todo: { ...row.todo!, parentId: existingId } }
+            : { ...row, messages: [...row.messages, 'Parent not found; imported as a top-level todo'] };
+        }
+      }
+
+      if (!parent) {
+        return row;
+      }
+      if (isSubtask.get(parent.row)) {
+        return this.reject(row, 'Subtasks cannot have subtasks');
+      }
+      switch (parent.action) {
+        case 'create':
+          return { ...row, parentRow: parent.row };
+        case 'skip':
+          return {
+            ...row,
+            parentRow: null,
+            todo: { ...row.todo!, parentId: context.knownIds.get(parent.sourceId!) ?? null },
+          };
+        case 'error':
+          return this.reject(row, `Its parent on row ${parent.row} cannot be imported`);
+      }
+    });
+  }
+
+  private reject(row: TodoImportRowDTO, ...messages: string[]): TodoImportRowDTO {
+    return { ...row, action: 'error', todo: null, messages: [...row.messages, ...messages] };
+  }
+
+  private messagesOf(error: unknown): string[] {
+    const { message, fields } = ErrorMapper.toResponseDTO(error, 'Could not be imported');
+    return fields ? Object.values(fields) : [message];
+  }
+}
@@ -1,27 +1,161 @@
 import { ITodoRepository } from '@/domain/interfaces/ITodoRepository';
+import { ITagRepository } from '@/domain/interfaces/ITagRepository';
+import { IProjectRepository } from '@/domain/interfaces/IProjectRepository';
+import { IActivityRepository } from '@/domain/interfaces/IActivityRepository';
 import { Todo } from '@/domain/entities/Todo';
+import { ActivityEntry } from '@/domain/entities/ActivityEntry';
 import { CreateTodoDTO } from './in-dtos/create-todo.dto';
 import { UpdateTodoDTO } from './in-dtos/update-todo.dto';
+import { RecurrenceDTO } from './in-dtos/recurrence.dto';
 import { TodoResponseDTO } from './out-dtos/todo-response.dto';
+import { TodoPageResponseDTO } from './out-dtos/todo-page-response.dto';
+import { ActivityEntryResponseDTO } from './out-dtos/activity-entry-response.dto';
 import { TodoMapper } from './mappers/todo.mapper';
-import { TODO_STATUS } from '@/domain/enums';
+import { ActivityEntryMapper } from './mappers/activity-entry.mapper';
+import { TodoChangeFeed, TodoChangeListener } from './todo-change-feed';
+import { TodoDTOValidator } from './validators/todo-dto.validator';
+import {
+  ACTIVITY_ACTION,
+  ACTIVITY_ACTOR,
+  ActivityActionType,
+  ActivityActorType,
+  TODO_PRIORITY,
+  TODO_STATUS,
+  TodoStatusType,
+} from '@/domain/enums';
+import { sortTodos, TodoFilter, TodoQuery } from '@/domain/types/TodoQuery';
+import { Recurrence } from '@/domain/types/Recurrence';
+import {
+  initialTodoPosition,
+  MAX_POSITION_LENGTH,
+  positionBetween,
+  positionsBetween,
+} from '@/domain/types/Position';
+import { TodoNotFoundError, ValidationError } from '@/domain/errors';
+import { IDomainEventDispatcher } from '@/domain/interfaces/IDomainEventDispatcher';
+import { DomainEventBus } from '@/domain/events';
+
+// Sort newest first by the given date
+const byMostRecent =
+  (dateOf: (todo: Todo) => Date) =>
+  (a: Todo, b: Todo): number =>
+    dateOf(b).getTime() - dateOf(a).getTime();
 
 /**
  * Todo Service
  * Handles business operations for todos
  * Replaces use-cases with service-oriented architecture
+ * Input DTOs are checked against the shared schemas, whichever side the service runs on
+ * Every create, update, status change, delete and restore is logged to the todo's history
  */
 export class TodoService {
-  constructor(private readonly todoRepository: ITodoRepository) {}
+  constructor(
+    private readonly todoRepository: ITodoRepository,
+    private readonly tagRepository: ITagRepository,
+    private readonly projectRepository: IProjectRepository,
+    private readonly activityRepository: IActivityRepository,
+    // Days a deleted todo stays in the trash; null when the store behind the repository
+    // purges it, as the server behind the HTTP API does
+    private readonly trashRetentionDays: number | null = 30,
+    private readonly changes: TodoChangeFeed = new TodoChangeFeed(),
+    // Receives the domain events todos record, once their change is saved
+    private readonly events: IDomainEventDispatcher = new DomainEventBus()
+  ) {}
 
   /**
-   * Get all todos
+   * Listen for saved todo changes, including those made by the tag and list services
+   * Returns a function that stops listening
    */
-  async getAllTodos(): Promise<TodoResponseDTO[]> {
-    const todos = await this.todoRepository.findAll();
+  subscribe(listener: TodoChangeListener): () => void {
+    return this.changes.subscribe(listener);
+  }
+
+  /**
+   * Get all todos, sorted as the query asks
+   */
+  async getAllTodos(query?: TodoQuery): Promise<TodoResponseDTO[]> {
+    const todos = await this.todoRepository.findAll(query);
     return todos.map(TodoMapper.toResponseDTO);
   }
 
+  /**
+   * Search todos with a filter, returning one page and the total match count
+   */
+  async searchTodos(query: TodoQuery): Promise<TodoPageResponseDTO> {
+    const page = await this.todoRepository.findPage(query);
+    return {
+      items: TodoMapper.toResponseDTOs(page.items),
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  /**
+   * Get the subtasks of the given todos, oldest first
+   */
+  async getSubtasks(parentIds: string[]): Promise<TodoResponseDTO[]> {
+    if (parentIds.length === 0) {
+      return [];
+    }
+    const page = await this.todoRepository.findPage({
+      filter: { parentIds },
+      sortBy: 'createdAt',
+      sortDirection: 'asc',
+    });
+    return TodoMapper.toResponseDTOs(page.items);
+  }
+
+  /**
+   * Get the trash, most recently deleted first
+   * Expired trash is purged first
+   */
+  async getTrash(): Promise<TodoResponseDTO[]> {
+    await this.purgeExpiredTrash();
+    const trash = await this.findDeleted();
+    return TodoMapper.toResponseDTOs(trash.sort(byMostRecent((todo) => todo.deletedAt!)));
+  }
+
+  /**
+   * Get archived top-level todos, most recently archived first
+   */
+  async getArchive(): Promise<TodoResponseDTO[]> {
+    const page = await this.todoRepository.findPage({
+      filter: { archived: true, topLevelOnly: true },
+    });
+    return TodoMapper.toResponseDTOs(page.items.sort(byMostRecent((todo) => todo.archivedAt!)));
+  }
+
+  /**
+   * Get the active todos due within a date range, subtasks included, soonest first
+   */
+  async getTodosDueBetween(from: Date, to: Date): Promise<TodoResponseDTO[]> {
+    if (from > to) {
+      throw new ValidationError('Invalid date range', {
+        dueTo: 'The range must not end before it starts',
+      });
+    }
+    const page = await this.todoRepository.findPage({
+      filter: { dueFrom: from, dueTo: to },
+      sortBy: 'dueAt',
+      sortDirection: 'asc',
+    });
+    return TodoMapper.toResponseDTOs(page.items);
+  }
+
+  /**
+   * Get the open top-level todos without a due date, newest first
+   */
+  async getUndatedTodos(): Promise<TodoResponseDTO[]> {
+    const page = await this.todoRepository.findPage({
+      filter: {
+        undated: true,
+        topLevelOnly: true,
+        statuses: [TODO_STATUS.PENDING, TODO_STATUS.IN_PROGRESS],
+      },
+    });
+    return TodoMapper.toResponseDTOs(page.items);
+  }
+
   /**
    * Get todo by ID
    */
@@ -31,29 +165,60 @@ export class TodoService {
   }
 
   /**
-   * Create a new todo
+   * Get the change history of a todo, newest first
+   */
+  async getHistory(todoId: string): Promise<ActivityEntryResponseDTO[]> {
+    const entries = await this.activityRepository.findByTodoId(todoId);
+    return ActivityEntryMapper.toResponseDTOs(entries).reverse();
+  }
+
+  /**
+   * Create a new todo, or a subtask when a parent is given
    */
-  async createTodo(dto: CreateTodoDTO): Promise<TodoResponseDTO> {
+  async createTodo(input: CreateTodoDTO): Promise<TodoResponseDTO> {
+    const dto = TodoDTOValidator.toCreateTodoDTO(input);
+    await this.assertTagsExist(dto.tagIds ?? []);
+    const parent = dto.parentId ? await this.findParentOrFail(dto.parentId) : null;
+    // Subtasks always live in their parent's list
+    const projectId = parent ? parent.projectId : (dto.projectId ?? null);
+    await this.assertProjectAcceptsTodos(projectId);
+
     const todo = new Todo(
       this.generateId(),
       dto.title,
       dto.description,
       TODO_STATUS.PENDING,
       new Date(),
-      new Date()
+      new Date(),
+      this.toDate(dto.dueAt),
+      this.toDate(dto.remindAt),
+      dto.priority ?? TODO_PRIORITY.MEDIUM
     );
+    todo.updateTags(dto.tagIds ?? []);
+    todo.moveToProject(projectId);
+    todo.parentId = parent?.id ?? null;
+    if (dto.seriesId) {
+      todo.seriesId = dto.seriesId;
+      todo.occurrence = dto.occurrence ?? 1;
+    }
+    if (dto.recurrence) {
+      todo.updateRecurrence(this.toRecurrence(dto.recurrence, todo.dueAt));
+    }
+    todo.importedFrom = dto.importedFrom ?? null;
 
-    const createdTodo = await this.todoRepository.create(todo);
+    const createdTodo = await this.addTodo(todo);
     return TodoMapper.toResponseDTO(createdTodo);
   }
 
   /**
    * Update an existing todo
    */
-  async updateTodo(id: string, dto: UpdateTodoDTO): Promise<TodoResponseDTO> {
-    const existingTodo = await this.todoRepository.findById(id);
-    if (!existingTodo) {
-      throw new Error(`Todo with id ${id} not found`);
+  async updateTodo(id: string, input: UpdateTodoDTO): Promise<TodoResponseDTO> {
+    const dto = TodoDTOValidator.toUpdateTodoDTO(input);
+    const existingTodo = await this.findTodoOrFail(id);
+    // Saved against the version the edit was based on, so changes made since are not overwritten
+    if (dto.version !== undefined) {
+      existingTodo.version = dto.version;
     }
 
     if (dto.title !== undefined) {
@@ -62,41 +227,579 @@ export class TodoService {
     if (dto.description !== undefined) {
       existingTodo.updateDescription(dto.description);
     }
+    if (dto.dueAt !== undefined) {
+      existingTodo.updateDueAt(this.toDate(dto.dueAt));
+    }
+    if (dto.remindAt !== undefined) {
+      existingTodo.updateRemindAt(this.toDate(dto.remindAt));
+    }
+    if (dto.dueAt !== undefined || dto.remindAt !== undefined) {
+      this.assertReminderNotAfterDue(existingTodo, dto.remindAt === undefined ? 'dueAt' : 'remindAt');
+    }
+    if (dto.priority !== undefined) {
+      existingTodo.updatePriority(dto.priority);
+    }
+    if (dto.tagIds !== undefined) {
+      await this.assertTagsExist(dto.tagIds);
+      existingTodo.updateTags(dto.tagIds);
+    }
+    const isMoving = dto.projectId !== undefined && dto.projectId !== existingTodo.projectId;
+    if (isMoving) {
+      if (existingTodo.isSubtask()) {
+        throw new ValidationError('Cannot move a subtask', {
+          projectId: 'Subtasks stay in their parent\'s list; move the parent instead',
+        });
+      }
+      await this.assertProjectAcceptsTodos(dto.projectId!);
+      existingTodo.moveToProject(dto.projectId!);
+    }
+    if (dto.recurrence !== undefined) {
+      existingTodo.updateRecurrence(
+        dto.recurrence ? this.toRecurrence(dto.recurrence, existingTodo.dueAt) : null
+      );
+    }
+    if (dto.position !== undefined) {
+      existingTodo.reposition(dto.position);
+    }
+    // Before archiving, so a todo can be completed and archived in one update
+    const isChangingStatus = dto.status !== undefined && dto.status !== existingTodo.status;
+    if (isChangingStatus) {
+      existingTodo.transitionTo(dto.status!, await this.findSubtasks(existingTodo.id));
+    }
+    const isArchiving = dto.archived !== undefined && dto.archived !== existingTodo.isArchived();
+    if (isArchiving) {
+      if (existingTodo.isSubtask()) {
+        throw new ValidationError('Cannot archive a subtask', {
+          archived: 'Subtasks are archived along with their parent',
+        });
+      }
+      if (dto.archived) {
+        existingTodo.archive();
+      } else {
+        existingTodo.unarchive();
+      }
+    }
+
+    const updatedTodo = await this.saveTodo(existingTodo);
+    if (isChangingStatus) {
+      await this.followStatusChange(updatedTodo);
+    }
+    if (isMoving || isArchiving) {
+      for (const subtask of await this.findSubtasks(existingTodo.id)) {
+        if (isMoving) {
+          subtask.moveToProject(existingTodo.projectId);
+        }
+        if (isArchiving && subtask.isArchived() !== existingTodo.isArchived()) {
+          if (existingTodo.isArchived()) {
+            subtask.archive(existingTodo.archivedAt!);
+          } else {
+            subtask.unarchive();
+          }
+        }
+        await this.saveTodo(subtask);
+      }
+    }
+    return TodoMapper.toResponseDTO(updatedTodo);
+  }
+
+  /**
+   * Move a todo to another list, or to the Inbox with null
+   */
+  async moveToProject(id: string, projectId: string | null): Promise<TodoResponseDTO> {
+    return this.updateTodo(id, { projectId });
+  }
+
+  /**
+   * Put a top-level todo between two others in the manual order; null for either
+   * neighbour moves it to the start or end
+   * Only the moved todo is saved, unless the neighbours leave no room between them:
+   * then the order is rebalanced first
+   */
+  async moveTodo(id: string, beforeId: string | null, afterId: string | null): Promise<TodoResponseDTO> {
+    let todo = await this.findTodoOrFail(id);
+    if (todo.isSubtask()) {
+      throw new ValidationError('Cannot reorder a subtask', {
+        position: 'Subtasks are listed in the order they were added',
+      });
+    }
+    if (beforeId === id || afterId === id) {
+      throw new ValidationError('Invalid position', { position: 'A todo cannot be moved next to itself' });
+    }
+
+    let position = await this.positionBetween(beforeId, afterId);
+    if (position === null) {
+      await this.rebalancePositions();
+      // Rebalancing saved the todo too
+      todo = await this.findTodoOrFail(id);
+      position = await this.positionBetween(beforeId, afterId);
+    }
+    if (position === null) {
+      throw new ValidationError('Invalid position', { position: 'The todos around it are out of order' });
+    }
+
+    todo.reposition(position);
+    return TodoMapper.toResponseDTO(await this.saveTodo(todo));
+  }
+
+  /**
+   * Move a todo's due date, or clear it with null; the reminder keeps its offset
+   */
+  async rescheduleTodo(id: string, dueAt: string | null): Promise<TodoResponseDTO> {
+    const dto = TodoDTOValidator.toUpdateTodoDTO({ dueAt });
+    const todo = await this.findTodoOrFail(id);
+    todo.reschedule(this.toDate(dto.dueAt));
+    return TodoMapper.toResponseDTO(await this.saveTodo(todo));
+  }
+
+  /**
+   * Archive a completed todo together with its subtasks
+   */
+  async archiveTodo(id: string): Promise<TodoResponseDTO> {
+    return this.updateTodo(id, { archived: true });
+  }
+
+  /**
+   * Bring an archived todo and its subtasks back to the lists
+   */
+  async unarchiveTodo(id: string): Promise<TodoResponseDTO> {
+    return this.updateTodo(id, { archived: false });
+  }
+
+  /**
+   * Change the schedule of every open occurrence in the todo's series
+   * Null stops the series: no further occurrences are created
+   */
+  async updateSeries(id: string, input: RecurrenceDTO | null): Promise<TodoResponseDTO> {
+    const recurrence = TodoDTOValidator.toUpdateTodoDTO({ recurrence: input }).recurrence ?? null;
+    const todo = await this.findTodoOrFail(id);
+    const series = await this.findSeries(todo.seriesId ?? todo.id);
+    const open = series.filter((occurrence) => occurrence.isOpen() || occurrence.id === todo.id);
 
-    const updatedTodo = await this.todoRepository.update(existingTodo);
+    let updatedTodo = todo;
+    for (const occurrence of open) {
+      occurrence.updateRecurrence(recurrence ? this.toRecurrence(recurrence, occurrence.dueAt) : null);
+      const updated = await this.saveTodo(occurrence);
+      if (updated.id === todo.id) {
+        updatedTodo = updated;
+      }
+    }
     return TodoMapper.toResponseDTO(updatedTodo);
   }
 
   /**
    * Toggle todo status between pending and completed
+   * Throws OpenSubtasksError when completing a todo with open subtasks
    */
   async toggleTodoStatus(id: string): Promise<TodoResponseDTO> {
+    const todo = await this.findTodoOrFail(id);
+
+    if (todo.isCompleted()) {
+      todo.reopen();
+    } else {
+      todo.complete(await this.findSubtasks(todo.id));
+    }
+
+    return this.saveStatusChange(todo);
+  }
+
+  /**
+   * Move a todo to the target status
+   * Throws InvalidTransitionError when the workflow does not allow the move
+   */
+  async transitionStatus(id: string, target: TodoStatusType): Promise<TodoResponseDTO> {
+    TodoDTOValidator.toStatus({ status: target });
+    const todo = await this.findTodoOrFail(id);
+
+    todo.transitionTo(target, await this.findSubtasks(todo.id));
+
+    return this.saveStatusChange(todo);
+  }
+
+  /**
+   * Complete a todo together with all of its open subtasks
+   */
+  async completeWithSubtasks(id: string): Promise<TodoResponseDTO> {
+    const todo = await this.findTodoOrFail(id);
+    const subtasks = await this.findSubtasks(todo.id);
+    const open = todo.openSubtasks(subtasks);
+
+    todo.completeAll(subtasks);
+
+    for (const subtask of open) {
+      await this.saveTodo(subtask);
+    }
+    const updatedTodo = await this.saveTodo(todo);
+    await this.createNextOccurrence(updatedTodo);
+    return TodoMapper.toResponseDTO(updatedTodo);
+  }
+
+  /**
+   * Move a todo and its subtasks to the trash
+   */
+  async deleteTodo(id: string): Promise<void> {
+    const todo = await this.findTodoOrFail(id);
+    const subtasks = await this.findSubtasks(id);
+    await this.trashTodo(todo);
+    for (const subtask of subtasks) {
+      await this.trashTodo(subtask, true);
+    }
+    await this.purgeExpiredTrash();
+  }
+
+  /**
+   * Restore a soft-deleted todo with its original id and timestamps
+   * Subtasks deleted along with it come back too, but not ones deleted earlier on their own
+   */
+  async restoreTodo(id: string): Promise<TodoResponseDTO> {
+    const todo = (await this.findDeleted()).find((candidate) => candidate.id === id);
+    if (!todo) {
+      throw new TodoNotFoundError(id);
+    }
+    if (todo.parentId && !(await this.todoRepository.findById(todo.parentId))) {
+      throw new ValidationError('Parent is in the trash', { parentId: 'Restore the parent first' });
+    }
+    const subtasks = (await this.findDeleted({ parentIds: [id] })).filter(
+      (subtask) => subtask.deletedAt!.getTime() >= todo.deletedAt!.getTime()
+    );
+    const restored = await this.restoreFromTrash(id);
+    for (const subtask of subtasks) {
+      await this.restoreFromTrash(subtask.id, true);
+    }
+    return TodoMapper.toResponseDTO(restored);
+  }
+
+  /**
+   * Remove a todo in the trash for good, with its subtasks in the trash
+   */
+  async purgeTodo(id: string): Promise<void> {
+    const todo = (await this.findDeleted()).find((candidate) => candidate.id === id);
+    if (!todo) {
+      throw new TodoNotFoundError(id);
+    }
+    await this.purgeFromTrash(todo);
+    for (const subtask of await this.findDeleted({ parentIds: [id] })) {
+      await this.purgeFromTrash(subtask);
+    }
+  }
+
+  /**
+   * Remove everything in the trash for good
+   */
+  async emptyTrash(): Promise<void> {
+    for (const todo of await this.findDeleted()) {
+      await this.purgeFromTrash(todo);
+    }
+  }
+
+  /**
+   * Purge trash older than the retention period
+   * Returns the number of todos removed; none when the store purges the trash itself
+   */
+  async purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+    const retentionDays = this.trashRetentionDays;
+    if (retentionDays === null) {
+      return 0;
+    }
+    const expired = (await this.findDeleted()).filter((todo) =>
+      todo.isTrashExpired(retentionDays, now)
+    );
+    for (const todo of expired) {
+      await this.purgeFromTrash(todo);
+    }
+    return expired.length;
+  }
+
+  private async findTodoOrFail(id: string): Promise<Todo> {
     const todo = await this.todoRepository.findById(id);
     if (!todo) {
-      throw new Error(`Todo with id ${id} not found`);
+      throw new TodoNotFoundError(id);
     }
+    return todo;
+  }
 
-    if (todo.status === TODO_STATUS.COMPLETED) {
-      todo.markAsPending();
-    } else {
-      todo.complete();
+  /**
+   * Key between two todos' positions, or null when there is no room left
+   * between them or they are out of order
+   */
+  private async positionBetween(beforeId: string | null, afterId: string | null): Promise<string | null> {
+    const before = beforeId ? (await this.findTodoOrFail(beforeId)).position : null;
+    const after = afterId ? (await this.findTodoOrFail(afterId)).position : null;
+    if (before !== null && after !== null && before >= after) {
+      return null;
     }
+    const position = positionBetween(before, after);
+    return position.length <= MAX_POSITION_LENGTH ? position : null;
+  }
 
-    const updatedTodo = await this.todoRepository.update(todo);
+  /**
+   * Give every top-level todo a fresh, evenly spread position, keeping their order
+   * The keys sort after the one a todo created now gets, so new todos still start the order
+   */
+  private async rebalancePositions(now: Date = new Date()): Promise<void> {
+    const todos = sortTodos(await this.findActiveAndArchived({ topLevelOnly: true }), {
+      sortBy: 'position',
+      sortDirection: 'asc',
+    });
+    const positions = positionsBetween(initialTodoPosition(now), null, todos.length);
+    for (const [index, todo] of todos.entries()) {
+      todo.reposition(positions[index]);
+      await this.saveTodo(todo, ACTIVITY_ACTOR.SYSTEM);
+    }
+  }
+
+  // Subtasks of the todo, archived or not
+  private async findSubtasks(parentId: string): Promise<Todo[]> {
+    return this.findActiveAndArchived({ parentIds: [parentId] });
+  }
+
+  private async findActiveAndArchived(filter: TodoFilter): Promise<Todo[]> {
+    const active = await this.todoRepository.findPage({ filter });
+    const archived = await this.todoRepository.findPage({ filter: { ...filter, archived: true } });
+    return [...active.items, ...archived.items];
+  }
+
+  // Subtasks nest one level deep, under a todo that is still open
+  private async findParentOrFail(parentId: string): Promise<Todo> {
+    const parent = await this.todoRepository.findById(parentId);
+    if (!parent) {
+      throw new ValidationError('Unknown parent', { parentId: `Unknown todo id: ${parentId}` });
+    }
+    if (parent.isSubtask()) {
+      throw new ValidationError('Subtasks cannot have subtasks', { parentId: 'Pick a top-level todo' });
+    }
+    if (!parent.isOpen()) {
+      throw new ValidationError('Parent is closed', { parentId: 'Reopen the todo before adding subtasks' });
+    }
+    return parent;
+  }
+
+  private async saveStatusChange(todo: Todo): Promise<TodoResponseDTO> {
+    const updatedTodo = await this.saveTodo(todo);
+    await this.followStatusChange(updatedTodo);
     return TodoMapper.toResponseDTO(updatedTodo);
   }
 
   /**
-   * Delete a todo
+   * Follow up a saved status change
+   * Completing a recurring todo creates its next occurrence; reopening a subtask
+   * also reopens its completed parent
    */
-  async deleteTodo(id: string): Promise<void> {
-    await this.todoRepository.delete(id);
+  private async followStatusChange(todo: Todo): Promise<void> {
+    await this.createNextOccurrence(todo);
+
+    if (todo.isOpen() && todo.parentId) {
+      const parent = await this.todoRepository.findById(todo.parentId);
+      if (parent?.isCompleted()) {
+        parent.reopen();
+        await this.saveTodo(parent, ACTIVITY_ACTOR.SYSTEM);
+      }
+    }
+  }
+
+  // Repository writes go through these, so every saved change reaches the change feed
+  // and the history, and the events the todo recorded are dispatched
+  private async addTodo(todo: Todo, actor: ActivityActorType = ACTIVITY_ACTOR.USER): Promise<Todo> {
+    const created = await this.todoRepository.create(todo);
+    // The repository may assign a new id, so the creation is recorded on the saved todo
+    created.recordCreated();
+    this.changes.publish('created', created);
+    await this.recordActivity(ACTIVITY_ACTION.CREATED, null, created, actor);
+    await this.events.dispatch(created.pullEvents());
+    return created;
+  }
+
+  private async saveTodo(todo: Todo, actor: ActivityActorType = ACTIVITY_ACTOR.USER): Promise<Todo> {
+    // The stored copy, to log which fields the save changes
+    const before = await this.todoRepository.findById(todo.id);
+    const saved = await this.todoRepository.update(todo);
+    this.changes.publish('updated', saved);
+    const action =
+      before && before.status !== saved.status
+        ? ACTIVITY_ACTION.STATUS_CHANGED
+        : ACTIVITY_ACTION.UPDATED;
+    await this.recordActivity(action, before, saved, actor);
+    await this.events.dispatch(todo.pullEvents());
+    return saved;
+  }
+
+  /**
+   * A subtask trashed or restored along with its parent may be done already: the server
+   * behind the HTTP API cascades on its side, so the repository no longer finds it there
+   */
+  private async trashTodo(todo: Todo, isCascade = false): Promise<void> {
+    try {
+      await this.todoRepository.delete(todo.id);
+    } catch (error) {
+      if (!isCascade || !(error instanceof TodoNotFoundError)) {
+        throw error;
+      }
+    }
+    todo.markDeleted();
+    this.changes.publish('deleted', todo);
+    await this.recordActivity(ACTIVITY_ACTION.DELETED, null, todo);
+    await this.events.dispatch(todo.pullEvents());
+  }
+
+  private async restoreFromTrash(id: string, isCascade = false): Promise<Todo> {
+    let todo: Todo | null;
+    try {
+      todo = await this.todoRepository.restore(id);
+    } catch (error) {
+      if (!isCascade || !(error instanceof TodoNotFoundError)) {
+        throw error;
+      }
+      todo = await this.todoRepository.findById(id);
+      if (!todo) {
+        throw error;
+      }
+    }
+    const restored = await this.detachMissingReferences(todo);
+    this.changes.publish('updated', restored);
+    await this.recordActivity(ACTIVITY_ACTION.RESTORED, null, restored);
+    return restored;
+  }
+
+  // The todo's history goes with it
+  private async purgeFromTrash(todo: Todo): Promise<void> {
+    await this.todoRepository.purge(todo.id);
+    this.changes.publish('purged', todo);
+    await this.activityRepository.deleteByTodoId(todo.id);
+  }
+
+  /**
+   * Log a saved change to the todo's history
+   * Deletes and restores are logged without field changes; an update that changed
+   * nothing is not logged. A failed write does not fail the change, which is saved already
+   */
+  private async recordActivity(
+    action: ActivityActionType,
+    before: Todo | null,
+    after: Todo,
+    actor: ActivityActorType = ACTIVITY_ACTOR.USER
+  ): Promise<void> {
+    const changes =
+      action === ACTIVITY_ACTION.DELETED || action === ACTIVITY_ACTION.RESTORED
+        ? []
+        : ActivityEntry.changesBetween(before, after);
+    if (action === ACTIVITY_ACTION.UPDATED && changes.length === 0) {
+      return;
+    }
+    try {
+      await this.activityRepository.create(
+        new ActivityEntry(this.generateId('activity'), after.id, action, changes, new Date(), actor)
+      );
+    } catch {
+      // The history misses this change; the change itself stands
+    }
+  }
+
+  private async findDeleted(filter: TodoFilter = {}): Promise<Todo[]> {
+    const page = await this.todoRepository.findPage({ filter: { ...filter, deleted: true } });
+    return page.items;
+  }
+
+  // A restored todo whose list or tags were deleted meanwhile goes to the Inbox and drops those tags
+  private async detachMissingReferences(todo: Todo): Promise<Todo> {
+    const listIsGone =
+      todo.projectId !== null && !(await this.projectRepository.findById(todo.projectId));
+    const knownTagIds = new Set((await this.tagRepository.findAll()).map((tag) => tag.id));
+    const tagIds = todo.tagIds.filter((tagId) => knownTagIds.has(tagId));
+
+    if (!listIsGone && tagIds.length === todo.tagIds.length) {
+      return todo;
+    }
+    if (listIsGone) {
+      todo.moveToProject(null);
+    }
+    todo.updateTags(tagIds);
+    return this.todoRepository.update(todo);
+  }
+
+  private async findSeries(seriesId: string): Promise<Todo[]> {
+    return this.findActiveAndArchived({ seriesId });
+  }
+
+  /**
+   * Create the next occurrence once a recurring todo is completed
+   * Skipped when the series already has a later occurrence, so completing,
+   * reopening and completing again does not create duplicates
+   */
+  private async createNextOccurrence(todo: Todo): Promise<void> {
+    if (!todo.isCompleted() || !todo.isRecurring()) {
+      return;
+    }
+    const series = await this.findSeries(todo.seriesId ?? todo.id);
+    if (series.some((occurrence) => occurrence.occurrence > todo.occurrence)) {
+      return;
+    }
+    const next = todo.nextOccurrence(this.generateId());
+    if (next) {
+      await this.addTodo(next, ACTIVITY_ACTOR.SYSTEM);
+    }
+  }
+
+  // Fill in the weekday or day of the month from the due date when the rule leaves it out
+  private toRecurrence(dto: RecurrenceDTO, dueAt: Date | null): Recurrence {
+    const recurrence = TodoMapper.toRecurrence(dto);
+    const anchor = dueAt ?? new Date();
+    if (recurrence.frequency === 'weekly' && !recurrence.weekdays?.length) {
+      recurrence.weekdays = [anchor.getDay()];
+    }
+    if (recurrence.frequency === 'monthly' && recurrence.monthDay === undefined) {
+      recurrence.monthDay = anchor.getDate();
+    }
+    return recurrence;
+  }
+
+  private async assertTagsExist(tagIds: string[]): Promise<void> {
+    if (tagIds.length === 0) {
+      return;
+    }
+    const known = new Set((await this.tagRepository.findAll()).map((tag) => tag.id));
+    const unknown = tagIds.filter((id) => !known.has(id));
+    if (unknown.length > 0) {
+      throw new ValidationError('Unknown tags', { tagIds: `Unknown tag ids: ${unknown.join(', ')}` });
+    }
+  }
+
+  // Todos can only be added to lists that exist and are not archived
+  private async assertProjectAcceptsTodos(projectId: string | null): Promise<void> {
+    if (projectId === null) {
+      return;
+    }
+    const project = await this.projectRepository.findById(projectId);
+    if (!project) {
+      throw new ValidationError('Unknown list', { projectId: `Unknown list id: ${projectId}` });
+    }
+    if (project.isArchived()) {
+      throw new ValidationError('List is archived', { projectId: `List "${project.name}" is archived` });
+    }
+  }
+
+  /**
+   * A reminder after the due date would fire too late to help
+   * The validator only sees the fields an update sends, so the merged todo is checked here,
+   * reporting the field the update changed
+   */
+  private assertReminderNotAfterDue(todo: Todo, field: 'dueAt' | 'remindAt'): void {
+    if (todo.dueAt && todo.remindAt && todo.remindAt > todo.dueAt) {
+      throw new ValidationError('Invalid todo input', {
+        [field]:
+          field === 'remindAt'
+            ? 'Reminder must not be after the due date'
+            : 'Due date must not be before the reminder',
+      });
+    }
+  }
+
+  private toDate(value: string | null | undefined): Date | null {
+    return value ? new Date(value) : null;
   }
 
   /**
-   * Generate unique ID for todos
+   * Generate unique ID for todos and their history entries
    */
-  private generateId(): string {
-    return `todo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private generateId(prefix = 'todo'): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 }
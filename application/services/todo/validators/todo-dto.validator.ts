@@ -0,0 +1,294 @@
+import { TODO_PRIORITY, TODO_STATUS, TodoPriorityType, TodoStatusType } from '@/domain/enums';
+import {
+  INBOX_LIST_ID,
+  SORT_DIRECTIONS,
+  SortDirection,
+  TODO_SORT_KEYS,
+  TodoFilter,
+  TodoQuery,
+  TodoSortKey,
+} from '@/domain/types/TodoQuery';
+import { RECURRENCE_FREQUENCIES } from '@/domain/types/Recurrence';
+import { MAX_POSITION_LENGTH } from '@/domain/types/Position';
+import { ValidationError } from '@/domain/errors';
+import {
+  assertNoErrors,
+  boolean,
+  checkDTO,
+  DTOSchema,
+  FieldErrors,
+  id,
+  integer,
+  isoDate,
+  list,
+  nullable,
+  object,
+  oneOf,
+  required,
+  text,
+} from '@/application/services/shared/validators/dto-schema';
+import { CreateTodoDTO } from '../in-dtos/create-todo.dto';
+import { UpdateTodoDTO } from '../in-dtos/update-todo.dto';
+import { RecurrenceDTO } from '../in-dtos/recurrence.dto';
+
+const TODO_STATUS_VALUES = Object.values(TODO_STATUS) as TodoStatusType[];
+const TODO_PRIORITY_VALUES = Object.values(TODO_PRIORITY) as TodoPriorityType[];
+const MAX_PAGE_SIZE = 100;
+
+export const TODO_TITLE_MAX_LENGTH = 200;
+export const TODO_DESCRIPTION_MAX_LENGTH = 2000;
+export const TODO_MAX_TAGS = 20;
+
+// TodoService checks the values against the domain rules once the due date is known
+const RECURRENCE_SCHEMA: DTOSchema<RecurrenceDTO> = {
+  frequency: required(oneOf('Frequency', RECURRENCE_FREQUENCIES)),
+  interval: integer('Interval', { min: 1 }),
+  weekdays: list('Weekdays', integer('Weekday', { min: 0, max: 6 }), { maxItems: 7 }),
+  monthDay: integer('Day of the month', { min: 1, max: 31 }),
+  until: nullable(isoDate('End date')),
+  count: nullable(integer('Count', { min: 1 })),
+};
+
+// Fields a todo is created and edited with
+const TODO_FIELDS = {
+  title: text('Title', { maxLength: TODO_TITLE_MAX_LENGTH }),
+  description: text('Description', { maxLength: TODO_DESCRIPTION_MAX_LENGTH, allowEmpty: true }),
+  dueAt: nullable(isoDate('Due date')),
+  remindAt: nullable(isoDate('Reminder')),
+  priority: oneOf('Priority', TODO_PRIORITY_VALUES),
+  tagIds: list('Tags', id('Tag id'), { maxItems: TODO_MAX_TAGS }),
+  projectId: nullable(id('List id')),
+  recurrence: nullable(object('Recurrence', RECURRENCE_SCHEMA)),
+};
+
+const CREATE_TODO_SCHEMA: DTOSchema<CreateTodoDTO> = {
+  ...TODO_FIELDS,
+  title: required(TODO_FIELDS.title),
+  parentId: nullable(id('Parent id')),
+  seriesId: nullable(id('Series id')),
+  occurrence: integer('Occurrence', { min: 1 }),
+  importedFrom: nullable(id('Imported id')),
+  recurrence: TODO_FIELDS.recurrence as DTOSchema<CreateTodoDTO>['recurrence'],
+};
+
+const UPDATE_TODO_SCHEMA: DTOSchema<UpdateTodoDTO> = {
+  ...TODO_FIELDS,
+  recurrence: TODO_FIELDS.recurrence as DTOSchema<UpdateTodoDTO>['recurrence'],
+  status: oneOf('Status', TODO_STATUS_VALUES),
+  archived: boolean('Archived'),
+  position: text('Position', {
+    maxLength: MAX_POSITION_LENGTH,
+    pattern: /^[0-9a-z]*[1-9a-z]$/,
+    patternMessage: 'Position must be lowercase letters and digits, not ending in 0',
+  }),
+  version: integer('Version', { min: 1 }),
+};
+
+/**
+ * Todo DTO Validator
+ * Checks input against the todo in-DTO schemas, trimming text and normalizing dates
+ * The API, TodoService and the todo forms share these rules, so client and server agree
+ */
+export class TodoDTOValidator {
+  /**
+   * Validate input for creating a todo
+   */
+  static toCreateTodoDTO(input: unknown): CreateTodoDTO {
+    const { value, errors } = this.checkCreate(this.asObject(input));
+    assertNoErrors(errors, 'Invalid todo input');
+
+    return {
+      title: value.title!,
+      description: value.description ?? '',
+      dueAt: value.dueAt ?? null,
+      remindAt: value.remindAt ?? null,
+      priority: value.priority ?? TODO_PRIORITY.MEDIUM,
+      tagIds: value.tagIds ?? [],
+      projectId: value.projectId ?? null,
+      parentId: value.parentId ?? null,
+      recurrence: value.recurrence ? this.withRecurrenceDefaults(value.recurrence) : null,
+      seriesId: value.seriesId ?? null,
+      occurrence: value.occurrence ?? 1,
+      importedFrom: value.importedFrom ?? null,
+    };
+  }
+
+  /**
+   * Validate input for updating a todo
+   */
+  static toUpdateTodoDTO(input: unknown): UpdateTodoDTO {
+    const { value, errors } = this.checkUpdate(this.asObject(input));
+    assertNoErrors(errors, 'Invalid todo input');
+
+    if (value.recurrence) {
+      value.recurrence = this.withRecurrenceDefaults(value.recurrence);
+    }
+    return value;
+  }
+
+  /**
+   * Field messages for a todo being created, for forms to show as the user types
+   */
+  static createTodoErrors(input: Partial<CreateTodoDTO>): FieldErrors {
+    return this.checkCreate(input).errors;
+  }
+
+  /**
+   * Field messages for a todo being edited
+   */
+  static updateTodoErrors(input: UpdateTodoDTO): FieldErrors {
+    return this.checkUpdate(input).errors;
+  }
+
+  /**
+   * Validate a target status value
+   */
+  static toStatus(input: unknown): TodoStatusType {
+    const { value, errors } = checkDTO(
+      { status: required(oneOf('Status', TODO_STATUS_VALUES)) },
+      this.asObject(input)
+    );
+    assertNoErrors(errors, 'Invalid status');
+
+    return value.status!;
+  }
+
+  /**
+   * Validate list query parameters (see TodoQueryMapper.toSearchParams)
+   */
+  static toTodoQuery(params: URLSearchParams): TodoQuery {
+    const fields: Record<string, string> = {};
+    const query: TodoQuery = {};
+    const filter: TodoFilter = {};
+
+    const search = params.get('q');
+    if (search?.trim()) {
+      filter.search = search.trim();
+    }
+    const status = params.get('status');
+    if (status) {
+      const statuses = status.split(',');
+      if (statuses.every((value) => TODO_STATUS_VALUES.includes(value as TodoStatusType))) {
+        filter.statuses = statuses as TodoStatusType[];
+      } else {
+        fields.status = `Status must be a comma-separated list of: ${TODO_STATUS_VALUES.join(', ')}`;
+      }
+    }
+    const tag = params.get('tag');
+    if (tag) {
+      filter.tagIds = tag.split(',').filter(Boolean);
+    }
+    const list = params.get('list');
+    if (list) {
+      filter.projectId = list === INBOX_LIST_ID ? null : list;
+    }
+    if (params.get('topLevel') === 'true') {
+      filter.topLevelOnly = true;
+    }
+    const parent = params.get('parent');
+    if (parent) {
+      filter.parentIds = parent.split(',').filter(Boolean);
+    }
+    const series = params.get('series');
+    if (series) {
+      filter.seriesId = series;
+    }
+    if (params.get('deleted') === 'true') {
+      filter.deleted = true;
+    }
+    if (params.get('archived') === 'true') {
+      filter.archived = true;
+    }
+    if (params.get('undated') === 'true') {
+      filter.undated = true;
+    }
+    for (const key of ['createdFrom', 'createdTo', 'dueFrom', 'dueTo'] as const) {
+      const value = params.get(key);
+      if (value === null) continue;
+      if (Number.isNaN(Date.parse(value))) {
+        fields[key] = 'Must be a valid ISO 8601 date';
+      } else {
+        filter[key] = new Date(value);
+      }
+    }
+    if (Object.keys(filter).length > 0) {
+      query.filter = filter;
+    }
+
+    const cursor = params.get('cursor');
+    if (cursor) {
+      query.cursor = cursor;
+    }
+    const limit = params.get('limit');
+    if (limit !== null) {
+      const parsed = Number(limit);
+      if (Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_PAGE_SIZE) {
+        query.limit = parsed;
+      } else {
+        fields.limit = `Limit must be an integer between 1 and ${MAX_PAGE_SIZE}`;
+      }
+    }
+
+    const sortBy = params.get('sortBy');
+    if (sortBy !== null) {
+      if (TODO_SORT_KEYS.includes(sortBy as TodoSortKey)) {
+        query.sortBy = sortBy as TodoSortKey;
+      } else {
+        fields.sortBy = `Sort key must be one of: ${TODO_SORT_KEYS.join(', ')}`;
+      }
+    }
+    const sortDirection = params.get('sortDirection');
+    if (sortDirection !== null) {
+      if (SORT_DIRECTIONS.includes(sortDirection as SortDirection)) {
+        query.sortDirection = sortDirection as SortDirection;
+      } else {
+        fields.sortDirection = `Sort direction must be one of: ${SORT_DIRECTIONS.join(', ')}`;
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      throw new ValidationError('Invalid todo query', fields);
+    }
+
+    return query;
+  }
+
+  private static checkCreate(input: object) {
+    const result = checkDTO(CREATE_TODO_SCHEMA, input as Record<string, unknown>);
+    this.checkReminder(result.value, result.errors);
+    return result;
+  }
+
+  private static checkUpdate(input: object) {
+    const result = checkDTO(UPDATE_TODO_SCHEMA, input as Record<string, unknown>, true);
+    this.checkReminder(result.value, result.errors);
+    return result;
+  }
+
+  // A reminder after the due date would fire too late to help
+  // Updates sending only one of the dates are checked against the stored todo by the service
+  private static checkReminder(
+    dto: { dueAt?: string | null; remindAt?: string | null },
+    errors: FieldErrors
+  ): void {
+    if (dto.dueAt && dto.remindAt && Date.parse(dto.remindAt) > Date.parse(dto.dueAt)) {
+      errors.remindAt = 'Reminder must not be after the due date';
+    }
+  }
+
+  private static withRecurrenceDefaults(rule: Partial<RecurrenceDTO>): RecurrenceDTO {
+    return {
+      ...rule,
+      frequency: rule.frequency!,
+      interval: rule.interval ?? 1,
+      until: rule.until ?? null,
+      count: rule.count ?? null,
+    };
+  }
+
+  private static asObject(input: unknown): Record<string, unknown> {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      throw new ValidationError('Request body must be a JSON object');
+    }
+    return input as Record<string, unknown>;
+  }
+}
@@ -0,0 +1,57 @@
+import { create } from 'zustand';
+import { Todo } from '@/domain/entities/Todo';
+import { TodoChangeType } from '@/application/services/todo/out-dtos/todo-change-event.dto';
+
+// Store state interface
+interface ArchiveStoreState {
+  // Archived top-level todos, most recently archived first
+  archived: Todo[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions
+interface ArchiveStoreActions {
+  setArchive: (todos: Todo[]) => void;
+  removeFromArchive: (id: string) => void;
+  // Apply a change saved elsewhere
+  applyChange: (type: TodoChangeType, todo: Todo) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+export type ArchiveStore = ArchiveStoreState & ArchiveStoreActions;
+
+export const useArchiveStore = create<ArchiveStore>((set) => ({
+  // Initial state
+  archived: [],
+  isLoading: false,
+  error: null,
+
+  // Actions
+  setArchive: (todos) => set({ archived: todos, error: null }),
+
+  removeFromArchive: (id) =>
+    set((state) => ({ archived: state.archived.filter((todo) => todo.id !== id), error: null })),
+
+  // Newly archived top-level todos come in at the top; unarchived and deleted ones leave
+  applyChange: (type, todo) =>
+    set((state) => {
+      const others = state.archived.filter((t) => t.id !== todo.id);
+      const isArchived =
+        type !== 'deleted' && type !== 'purged' && todo.isArchived() && !todo.isSubtask();
+      if (!isArchived) {
+        return others.length === state.archived.length ? state : { archived: others };
+      }
+      const loaded = state.archived.some((t) => t.id === todo.id);
+      return {
+        archived: loaded
+          ? state.archived.map((t) => (t.id === todo.id ? todo : t))
+          : [todo, ...others],
+      };
+    }),
+
+  setLoading: (isLoading) => set({ isLoading }),
+
+  setError: (error) => set({ error, isLoading: false }),
+}));
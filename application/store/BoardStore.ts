@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { Todo } from '@/domain/entities/Todo';
+import { TODO_STATUS, TodoStatusType } from '@/domain/enums';
+import { sortTodos } from '@/domain/types/TodoQuery';
+import { TodoChangeType } from '@/application/services/todo/out-dtos/todo-change-event.dto';
+
+export type BoardColumns = Record<TodoStatusType, Todo[]>;
+export type BoardTotals = Record<TodoStatusType, number>;
+
+const EMPTY_COLUMNS: BoardColumns = {
+  [TODO_STATUS.PENDING]: [],
+  [TODO_STATUS.IN_PROGRESS]: [],
+  [TODO_STATUS.COMPLETED]: [],
+  [TODO_STATUS.CANCELLED]: [],
+};
+
+const EMPTY_TOTALS: BoardTotals = {
+  [TODO_STATUS.PENDING]: 0,
+  [TODO_STATUS.IN_PROGRESS]: 0,
+  [TODO_STATUS.COMPLETED]: 0,
+  [TODO_STATUS.CANCELLED]: 0,
+};
+
+// Store state interface
+interface BoardStoreState {
+  // Top-level todos of each column, newest first; only the first page of a column is loaded
+  columns: BoardColumns;
+  // Todos in each column across every page, as the service counted them
+  totals: BoardTotals;
+  // Subtasks of the cards, by parent id
+  subtasks: Record<string, Todo[]>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions
+interface BoardStoreActions {
+  setBoard: (columns: BoardColumns, totals: BoardTotals, subtasks: Todo[]) => void;
+  // Put a card in the column of its status, or take it off the board
+  showTodo: (todo: Todo) => void;
+  removeTodo: (id: string) => void;
+  // Apply a change saved elsewhere
+  applyChange: (type: TodoChangeType, todo: Todo) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+export type BoardStore = BoardStoreState & BoardStoreActions;
+
+// The column holding a card, if it is loaded
+function columnOf(columns: BoardColumns, id: string): TodoStatusType | undefined {
+  return (Object.keys(columns) as TodoStatusType[]).find((status) =>
+    columns[status].some((t) => t.id === id)
+  );
+}
+
+// Take a card or subtask off the board
+function withoutTodo(
+  state: BoardStoreState,
+  id: string
+): Pick<BoardStoreState, 'columns' | 'totals' | 'subtasks'> {
+  const columns = { ...state.columns };
+  const totals = { ...state.totals };
+  const from = columnOf(columns, id);
+  if (from) {
+    columns[from] = columns[from].filter((t) => t.id !== id);
+    totals[from] = Math.max(0, totals[from] - 1);
+  }
+  const subtasks = Object.fromEntries(
+    Object.entries(state.subtasks)
+      .filter(([parentId]) => parentId !== id)
+      .map(([parentId, children]) => [parentId, children.filter((t) => t.id !== id)])
+  );
+  return { columns, totals, subtasks };
+}
+
+// A loaded card or subtask
+function findLoaded(state: BoardStoreState, todo: Todo): Todo | undefined {
+  const siblings = todo.parentId
+    ? (state.subtasks[todo.parentId] ?? [])
+    : Object.values(state.columns).flat();
+  return siblings.find((t) => t.id === todo.id);
+}
+
+export const useBoardStore = create<BoardStore>((set, get) => ({
+  // Initial state
+  columns: EMPTY_COLUMNS,
+  totals: EMPTY_TOTALS,
+  subtasks: {},
+  isLoading: false,
+  error: null,
+
+  // Actions
+  setBoard: (columns, totals, subtasks) =>
+    set({
+      columns,
+      totals,
+      subtasks: Object.fromEntries(
+        Object.values(columns)
+          .flat()
+          .map((todo) => [todo.id, subtasks.filter((t) => t.parentId === todo.id)])
+      ),
+      error: null,
+    }),
+
+  // A card arriving from a column that was not loaded is counted in its new column only;
+  // the totals are counted again on the next load
+  showTodo: (todo) =>
+    set((state) => {
+      const isActive = !todo.isDeleted() && !todo.isArchived();
+      if (todo.parentId) {
+        if (!(todo.parentId in state.subtasks)) {
+          return state;
+        }
+        const siblings = state.subtasks[todo.parentId].filter((t) => t.id !== todo.id);
+        return {
+          subtasks: {
+            ...state.subtasks,
+            [todo.parentId]: isActive
+              ? [...siblings, todo].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+              : siblings,
+          },
+        };
+      }
+      if (!isActive) {
+        return withoutTodo(state, todo.id);
+      }
+
+      const isLoaded = columnOf(state.columns, todo.id) !== undefined;
+      const { columns, totals } = withoutTodo(state, todo.id);
+      columns[todo.status] = sortTodos([todo, ...columns[todo.status]]);
+      totals[todo.status] += 1;
+      return {
+        columns,
+        totals,
+        subtasks: isLoaded ? state.subtasks : { ...state.subtasks, [todo.id]: [] },
+      };
+    }),
+
+  removeTodo: (id) => set((state) => withoutTodo(state, id)),
+
+  applyChange: (type, todo) => {
+    const state = get();
+    const loaded = findLoaded(state, todo);
+    // Events may arrive twice or out of order; never go back to an older version
+    if (loaded && loaded.version > todo.version) {
+      return;
+    }
+    if (type === 'deleted' || type === 'purged') {
+      state.removeTodo(todo.id);
+      return;
+    }
+    state.showTodo(todo);
+  },
+
+  setLoading: (isLoading) => set({ isLoading }),
+
+  setError: (error) => set({ error, isLoading: false }),
+}));
@@ -0,0 +1,92 @@
+import { create } from 'zustand';
+import { Todo } from '@/domain/entities/Todo';
+import { sortTodos } from '@/domain/types/TodoQuery';
+import { TodoChangeType } from '@/application/services/todo/out-dtos/todo-change-event.dto';
+
+// Days shown by the calendar or the agenda, both ends included
+export interface CalendarRange {
+  from: Date;
+  to: Date;
+}
+
+// Store state interface
+interface CalendarStoreState {
+  range: CalendarRange | null;
+  // Todos due within the range, subtasks included, soonest first
+  dated: Todo[];
+  // Open top-level todos without a due date, waiting to be scheduled
+  undated: Todo[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions
+interface CalendarStoreActions {
+  setRange: (range: CalendarRange) => void;
+  setTodos: (dated: Todo[], undated: Todo[]) => void;
+  // Put a todo where its due date now places it, or take it out of view
+  showTodo: (todo: Todo) => void;
+  // Apply a change saved elsewhere
+  applyChange: (type: TodoChangeType, todo: Todo) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+export type CalendarStore = CalendarStoreState & CalendarStoreActions;
+
+function isDueWithin(todo: Todo, range: CalendarRange | null): boolean {
+  return range !== null && todo.dueAt !== null && todo.dueAt >= range.from && todo.dueAt <= range.to;
+}
+
+function isUnscheduled(todo: Todo): boolean {
+  return todo.dueAt === null && todo.isOpen() && !todo.isSubtask();
+}
+
+export const useCalendarStore = create<CalendarStore>((set, get) => ({
+  // Initial state
+  range: null,
+  dated: [],
+  undated: [],
+  isLoading: false,
+  error: null,
+
+  // Actions
+  setRange: (range) => set({ range }),
+
+  setTodos: (dated, undated) => set({ dated, undated, error: null }),
+
+  showTodo: (todo) =>
+    set((state) => {
+      const isActive = !todo.isDeleted() && !todo.isArchived();
+      const dated = state.dated.filter((t) => t.id !== todo.id);
+      const undated = state.undated.filter((t) => t.id !== todo.id);
+      return {
+        dated:
+          isActive && isDueWithin(todo, state.range)
+            ? sortTodos([...dated, todo], { sortBy: 'dueAt', sortDirection: 'asc' })
+            : dated,
+        undated: isActive && isUnscheduled(todo) ? sortTodos([...undated, todo]) : undated,
+      };
+    }),
+
+  applyChange: (type, todo) => {
+    const state = get();
+    const loaded = [...state.dated, ...state.undated].find((t) => t.id === todo.id);
+    // Events may arrive twice or out of order; never go back to an older version
+    if (loaded && loaded.version > todo.version) {
+      return;
+    }
+    if (type === 'deleted' || type === 'purged') {
+      set({
+        dated: state.dated.filter((t) => t.id !== todo.id),
+        undated: state.undated.filter((t) => t.id !== todo.id),
+      });
+      return;
+    }
+    state.showTodo(todo);
+  },
+
+  setLoading: (isLoading) => set({ isLoading }),
+
+  setError: (error) => set({ error, isLoading: false }),
+}));
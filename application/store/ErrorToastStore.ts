@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { ErrorResponseDTO } from '@/application/services/shared/out-dtos/error-response.dto';
+
+// Older toasts are dropped beyond this many
+const MAX_TOASTS = 3;
+
+// A failure shown until dismissed or timed out
+export interface ErrorToast {
+  id: number;
+  error: ErrorResponseDTO;
+}
+
+// Store state interface
+interface ErrorToastStoreState {
+  // Oldest first
+  toasts: ErrorToast[];
+}
+
+// Store actions
+interface ErrorToastStoreActions {
+  pushError: (error: ErrorResponseDTO) => void;
+  dismiss: (id: number) => void;
+}
+
+export type ErrorToastStore = ErrorToastStoreState & ErrorToastStoreActions;
+
+let nextToastId = 1;
+
+export const useErrorToastStore = create<ErrorToastStore>((set) => ({
+  // Initial state
+  toasts: [],
+
+  // Actions
+  pushError: (error) =>
+    set((state) => ({
+      toasts: [...state.toasts, { id: nextToastId++, error }].slice(-MAX_TOASTS),
+    })),
+
+  dismiss: (id) => set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) })),
+}));
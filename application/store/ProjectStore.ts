@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { Project } from '@/domain/entities/Project';
+
+// Store state interface
+interface ProjectStoreState {
+  projects: Project[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions
+interface ProjectStoreActions {
+  setProjects: (projects: Project[]) => void;
+  addProject: (project: Project) => void;
+  updateProject: (project: Project) => void;
+  removeProject: (id: string) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+export type ProjectStore = ProjectStoreState & ProjectStoreActions;
+
+const byPosition = (a: Project, b: Project) => a.position - b.position;
+
+export const useProjectStore = create<ProjectStore>((set) => ({
+  // Initial state
+  projects: [],
+  isLoading: false,
+  error: null,
+
+  // Actions
+  setProjects: (projects) => set({ projects: [...projects].sort(byPosition), error: null }),
+
+  addProject: (project) =>
+    set((state) => ({ projects: [...state.projects, project].sort(byPosition), error: null })),
+
+  updateProject: (project) =>
+    set((state) => ({
+      projects: state.projects.map((p) => (p.id === project.id ? project : p)).sort(byPosition),
+      error: null,
+    })),
+
+  removeProject: (id) =>
+    set((state) => ({ projects: state.projects.filter((p) => p.id !== id), error: null })),
+
+  setLoading: (isLoading) => set({ isLoading }),
+
+  setError: (error) => set({ error, isLoading: false }),
+}));
@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+import { Tag } from '@/domain/entities/Tag';
+
+// Store state interface
+interface TagStoreState {
+  tags: Tag[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions
+interface TagStoreActions {
+  setTags: (tags: Tag[]) => void;
+  addTag: (tag: Tag) => void;
+  updateTag: (tag: Tag) => void;
+  removeTag: (id: string) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+}
+
+export type TagStore = TagStoreState & TagStoreActions;
+
+const byName = (a: Tag, b: Tag) => a.name.localeCompare(b.name);
+
+export const useTagStore = create<TagStore>((set) => ({
+  // Initial state
+  tags: [],
+  isLoading: false,
+  error: null,
+
+  // Actions
+  setTags: (tags) => set({ tags, error: null }),
+
+  addTag: (tag) => set((state) => ({ tags: [...state.tags, tag].sort(byName), error: null })),
+
+  updateTag: (tag) =>
+    set((state) => ({
+      tags: state.tags.map((t) => (t.id === tag.id ? tag : t)).sort(byName),
+      error: null,
+    })),
+
+  removeTag: (id) => set((state) => ({ tags: state.tags.filter((t) => t.id !== id), error: null })),
+
+  setLoading: (isLoading) => set({ isLoading }),
+
+  setError: (error) => set({ error, isLoading: false }),
+}));
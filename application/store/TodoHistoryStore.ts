@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+
+// Oldest commands are dropped beyond this many
+const MAX_HISTORY = 50;
+
+// A recorded todo mutation that can be reversed and applied again
+export interface TodoCommand {
+  // What the command did, e.g. 'Delete "Buy milk"'
+  label: string;
+  // Offer an Undo toast right after the command runs
+  destructive: boolean;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+// Store state interface
+interface TodoHistoryStoreState {
+  // Applied commands, most recent last
+  past: TodoCommand[];
+  // Undone commands, most recently undone last
+  future: TodoCommand[];
+  // Destructive command the Undo toast is showing
+  toast: TodoCommand | null;
+}
+
+// Store actions
+interface TodoHistoryStoreActions {
+  // Record a command that has just run; clears the redo stack
+  record: (command: TodoCommand) => void;
+  // Move the latest command from past to future and return it
+  takeUndo: () => TodoCommand | undefined;
+  // Move the latest undone command back to past and return it
+  takeRedo: () => TodoCommand | undefined;
+  // Put back a taken command whose undo or redo failed, so it can be tried again
+  putBackUndo: (command: TodoCommand) => void;
+  putBackRedo: (command: TodoCommand) => void;
+  dismissToast: () => void;
+}
+
+export type TodoHistoryStore = TodoHistoryStoreState & TodoHistoryStoreActions;
+
+export const useTodoHistoryStore = create<TodoHistoryStore>((set, get) => ({
+  // Initial state
+  past: [],
+  future: [],
+  toast: null,
+
+  // Actions
+  record: (command) =>
+    set((state) => ({
+      past: [...state.past, command].slice(-MAX_HISTORY),
+      future: [],
+      toast: command.destructive ? command : null,
+    })),
+
+  takeUndo: () => {
+    const command = get().past.at(-1);
+    if (command) {
+      set((state) => ({
+        past: state.past.slice(0, -1),
+        future: [...state.future, command],
+        toast: state.toast === command ? null : state.toast,
+      }));
+    }
+    return command;
+  },
+
+  takeRedo: () => {
+    const command = get().future.at(-1);
+    if (command) {
+      set((state) => ({ past: [...state.past, command], future: state.future.slice(0, -1) }));
+    }
+    return command;
+  },
+
+  putBackUndo: (command) =>
+    set((state) => ({
+      past: [...state.past, command],
+      future: state.future.filter((candidate) => candidate !== command),
+    })),
+
+  putBackRedo: (command) =>
+    set((state) => ({
+      past: state.past.filter((candidate) => candidate !== command),
+      future: [...state.future, command],
+    })),
+
+  dismissToast: () => set({ toast: null }),
+}));
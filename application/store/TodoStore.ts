@@ -1,50 +1,234 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import { Todo } from '@/domain/entities/Todo';
+import {
+  DEFAULT_TODO_QUERY,
+  matchesTodoFilter,
+  sortTodos,
+  TodoFilter,
+  TodoQuery,
+} from '@/domain/types/TodoQuery';
+import { TodoChangeType } from '@/application/services/todo/out-dtos/todo-change-event.dto';
 
 // Store state interface
 interface TodoStoreState {
+  // Top-level todos of the loaded pages
   todos: Todo[];
+  // Subtasks of the loaded todos, by parent id
+  subtasks: Record<string, Todo[]>;
+  // Loading pages of todos; mutations track their own pending state
   isLoading: boolean;
+  // Number of in-flight mutations by todo id
+  pending: Record<string, number>;
   error: string | null;
+  query: TodoQuery;
+  filter: TodoFilter;
+  total: number;
+  nextCursor: string | null;
 }
 
 // Store actions
 interface TodoStoreActions {
   setTodos: (todos: Todo[]) => void;
+  // Add a todo, or replace the copy already loaded
   addTodo: (todo: Todo) => void;
   updateTodo: (todo: Todo) => void;
   removeTodo: (id: string) => void;
   setLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
+  setQuery: (query: TodoQuery) => void;
+  setFilter: (filter: TodoFilter) => void;
+  appendTodos: (todos: Todo[]) => void;
+  // Replace the subtasks of the given parents
+  setSubtasks: (parentIds: string[], subtasks: Todo[]) => void;
+  setPageInfo: (total: number, nextCursor: string | null) => void;
+  beginMutation: (id: string) => void;
+  endMutation: (id: string) => void;
+  // Apply a change saved elsewhere: another tab, another client, or another service
+  applyChange: (type: TodoChangeType, todo: Todo) => void;
 }
 
 export type TodoStore = TodoStoreState & TodoStoreActions;
 
-export const useTodoStore = create<TodoStore>((set) => ({
-  // Initial state
-  todos: [],
-  isLoading: false,
-  error: null,
-
-  // Actions
-  setTodos: (todos) => set({ todos, error: null }),
+// Insert or replace a subtask under its parent, oldest first
+function withSubtask(subtasks: Record<string, Todo[]>, todo: Todo): Record<string, Todo[]> {
+  const siblings = (subtasks[todo.parentId!] ?? []).filter((t) => t.id !== todo.id);
+  return {
+    ...subtasks,
+    [todo.parentId!]: [...siblings, todo].sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+    ),
+  };
+}
 
-  addTodo: (todo) =>
-    set((state) => ({ todos: [todo, ...state.todos], error: null })),
+// The loaded copy of a todo or subtask
+function findLoaded(state: TodoStoreState, todo: Todo): Todo | undefined {
+  const siblings = todo.parentId ? (state.subtasks[todo.parentId] ?? []) : state.todos;
+  return siblings.find((t) => t.id === todo.id);
+}
 
-  updateTodo: (todo) =>
-    set((state) => ({
-      todos: state.todos.map((t) => (t.id === todo.id ? todo : t)),
+// Only the sort choice is persisted; todos always come from the service and the filter from the URL
+// Hydration is skipped so server and first client render agree - useTodos rehydrates before loading
+export const useTodoStore = create<TodoStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      todos: [],
+      subtasks: {},
+      isLoading: false,
+      pending: {},
       error: null,
-    })),
+      query: DEFAULT_TODO_QUERY,
+      filter: {},
+      total: 0,
+      nextCursor: null,
 
-  removeTodo: (id) =>
-    set((state) => ({
-      todos: state.todos.filter((t) => t.id !== id),
-      error: null,
-    })),
+      // Actions
+      setTodos: (todos) => set({ todos, error: null }),
+
+      addTodo: (todo) =>
+        set((state) =>
+          todo.parentId
+            ? { subtasks: withSubtask(state.subtasks, todo), error: null }
+            : {
+                todos: sortTodos([todo, ...state.todos.filter((t) => t.id !== todo.id)], state.query),
+                total: findLoaded(state, todo) ? state.total : state.total + 1,
+                error: null,
+              }
+        ),
+
+      updateTodo: (todo) =>
+        set((state) =>
+          todo.parentId
+            ? { subtasks: withSubtask(state.subtasks, todo), error: null }
+            : {
+                todos: sortTodos(
+                  state.todos.map((t) => (t.id === todo.id ? todo : t)),
+                  state.query
+                ),
+                error: null,
+              }
+        ),
+
+      removeTodo: (id) =>
+        set((state) => {
+          const isTopLevel = state.todos.some((t) => t.id === id);
+          const subtasks = Object.fromEntries(
+            Object.entries(state.subtasks)
+              .filter(([parentId]) => parentId !== id)
+              .map(([parentId, children]) => [parentId, children.filter((t) => t.id !== id)])
+          );
+          return {
+            todos: state.todos.filter((t) => t.id !== id),
+            subtasks,
+            total: isTopLevel ? Math.max(0, state.total - 1) : state.total,
+            error: null,
+          };
+        }),
+
+      setLoading: (isLoading) => set({ isLoading }),
+
+      setError: (error) => set({ error, isLoading: false }),
+
+      setQuery: (query) =>
+        set((state) => ({ query, todos: sortTodos(state.todos, query) })),
+
+      setFilter: (filter) => set({ filter }),
+
+      // Todos already added by a change event are not repeated
+      appendTodos: (todos) =>
+        set((state) => {
+          const loaded = new Set(state.todos.map((t) => t.id));
+          return { todos: [...state.todos, ...todos.filter((t) => !loaded.has(t.id))], error: null };
+        }),
 
-  setLoading: (isLoading) => set({ isLoading }),
+      setPageInfo: (total, nextCursor) => set({ total, nextCursor }),
 
-  setError: (error) => set({ error, isLoading: false }),
-}));
+      setSubtasks: (parentIds, subtasks) =>
+        set((state) => {
+          const next = { ...state.subtasks };
+          parentIds.forEach((parentId) => {
+            next[parentId] = subtasks.filter((t) => t.parentId === parentId);
+          });
+          return { subtasks: next };
+        }),
+
+      beginMutation: (id) =>
+        set((state) => ({ pending: { ...state.pending, [id]: (state.pending[id] ?? 0) + 1 } })),
+
+      endMutation: (id) =>
+        set((state) => {
+          const { [id]: count = 0, ...pending } = state.pending;
+          return { pending: count > 1 ? { ...pending, [id]: count - 1 } : pending };
+        }),
+
+      // A todo shows up, changes or goes away depending on whether it still matches the view
+      applyChange: (type, todo) => {
+        const state = get();
+        const loaded = findLoaded(state, todo);
+        // Events may arrive twice or out of order; never go back to an older version
+        if (loaded && loaded.version > todo.version) {
+          return;
+        }
+        const isActive =
+          type !== 'deleted' && type !== 'purged' && !todo.isDeleted() && !todo.isArchived();
+        const belongs = todo.parentId
+          ? todo.parentId in state.subtasks
+          : matchesTodoFilter(todo, { ...state.filter, topLevelOnly: true });
+
+        if (isActive && belongs) {
+          state.addTodo(todo);
+        } else if (loaded) {
+          state.removeTodo(todo.id);
+        }
+      },
+    }),
+    {
+      name: 'todo-preferences',
+      partialize: (state) => ({ query: state.query }),
+      skipHydration: true,
+    }
+  )
+);
+
+// setTimeout cannot wait longer than this; farther reminders are picked up on a later change
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+const reminderTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Schedule a browser notification for every pending reminder
+ * Timers are rebuilt whenever the todos in the store change
+ */
+function scheduleReminders(todos: Todo[]): void {
+  reminderTimers.forEach((timer) => clearTimeout(timer));
+  reminderTimers.clear();
+
+  const now = new Date();
+  todos
+    .filter((todo) => todo.hasPendingReminder(now))
+    .forEach((todo) => {
+      const delay = todo.remindAt!.getTime() - now.getTime();
+      if (delay > MAX_TIMER_DELAY_MS) return;
+
+      reminderTimers.set(
+        todo.id,
+        setTimeout(() => {
+          reminderTimers.delete(todo.id);
+          if (Notification.permission === 'granted') {
+            new Notification(todo.title, {
+              body: todo.dueAt ? `Due ${todo.dueAt.toLocaleString()}` : todo.description,
+              tag: todo.id,
+            });
+          }
+        }, delay)
+      );
+    });
+}
+
+if (typeof window !== 'undefined' && 'Notification' in window) {
+  useTodoStore.subscribe((state, previous) => {
+    if (state.todos !== previous.todos || state.subtasks !== previous.subtasks) {
+      scheduleReminders([...state.todos, ...Object.values(state.subtasks).flat()]);
+    }
+  });
+}
@@ -0,0 +1,46 @@
+import { create } from 'zustand';
+import { Todo } from '@/domain/entities/Todo';
+import { TodoChangeType } from '@/application/services/todo/out-dtos/todo-change-event.dto';
+
+// Store state interface
+interface TrashStoreState {
+  // Deleted todos, most recently deleted first
+  trash: Todo[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Store actions
+interface TrashStoreActions {
+  setTrash: (todos: Todo[]) => void;
+  setLoading: (isLoading: boolean) => void;
+  setError: (error: string | null) => void;
+  // Apply a change saved elsewhere
+  applyChange: (type: TodoChangeType, todo: Todo) => void;
+}
+
+export type TrashStore = TrashStoreState & TrashStoreActions;
+
+export const useTrashStore = create<TrashStore>((set) => ({
+  // Initial state
+  trash: [],
+  isLoading: false,
+  error: null,
+
+  // Actions
+  setTrash: (todos) => set({ trash: todos, error: null }),
+
+  setLoading: (isLoading) => set({ isLoading }),
+
+  setError: (error) => set({ error, isLoading: false }),
+
+  // Deleted todos come in at the top; restored and purged ones leave
+  applyChange: (type, todo) =>
+    set((state) => {
+      const others = state.trash.filter((t) => t.id !== todo.id);
+      if (type !== 'deleted' && others.length === state.trash.length) {
+        return state;
+      }
+      return { trash: type === 'deleted' ? [todo, ...others] : others };
+    }),
+}));
@@ -0,0 +1,252 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Project } from '@domain/entities/Project';
+import { INBOX_LIST_ID } from '@domain/types/TodoQuery';
+import { useProjects } from '@/hooks/useProjects';
+import { useTodos } from '@/hooks/useTodos';
+
+interface ProjectSidebarProps {
+  // Route id of the open list; undefined for "All todos"
+  activeListId?: string;
+  // Open todo view outside the lists
+  activeView?: 'archive' | 'trash' | 'board' | 'calendar' | 'agenda';
+}
+
+const linkClasses = (active: boolean) =>
+  `block px-3 py-1 rounded-lg text-sm ${
+    active ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+  }`;
+
+/**
+ * Sidebar with the todo lists: create, rename, reorder, archive and delete
+ * Owns loading the lists
+ */
+export function ProjectSidebar({ activeListId, activeView }: ProjectSidebarProps) {
+  const { projects, error, isLoading, loadProjects, createProject } = useProjects();
+  const [newName, setNewName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  const active = projects.filter((project) => !project.isArchived());
+  const archived = projects.filter((project) => project.isArchived());
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    try {
+      await createProject({ name: newName });
+      setNewName('');
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <nav className="bg-white p-4 rounded-lg shadow-md space-y-3" aria-label="Todo lists">
+      <div className="space-y-1">
+        <Link href="/" className={linkClasses(activeListId === undefined && !activeView)}>
+          All todos
+        </Link>
+        <Link href={`/lists/${INBOX_LIST_ID}`} className={linkClasses(activeListId === INBOX_LIST_ID)}>
+          Inbox
+        </Link>
+      </div>
+
+      <div className="space-y-1">
+        {active.map((project, index) => (
+          <ProjectRow
+            key={`${project.id}:${project.name}`}
+            project={project}
+            active={project.id === activeListId}
+            previous={active[index - 1]}
+            next={active[index + 1]}
+            disabled={isLoading}
+          />
+        ))}
+      </div>
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New list..."
+          aria-label="New list name"
+          className="flex-1 min-w-0 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          disabled={isLoading}
+        />
+        <button
+          type="submit"
+          disabled={isLoading || !newName.trim()}
+          className="px-3 py-1 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          Add
+        </button>
+      </form>
+
+      {archived.length > 0 && (
+        <div className="space-y-1">
+          <button
+            type="button"
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-xs text-gray-500 hover:text-gray-800"
+          >
+            {showArchived ? 'Hide' : 'Show'} archived ({archived.length})
+          </button>
+          {showArchived &&
+            archived.map((project) => (
+              <ProjectRow
+                key={`${project.id}:${project.name}`}
+                project={project}
+                active={project.id === activeListId}
+                disabled={isLoading}
+              />
+            ))}
+        </div>
+      )}
+
+      <div className="space-y-1 border-t border-gray-100 pt-3">
+        <Link href="/board" className={linkClasses(activeView === 'board')}>
+          Board
+        </Link>
+        <Link href="/calendar" className={linkClasses(activeView === 'calendar')}>
+          Calendar
+        </Link>
+        <Link href="/agenda" className={linkClasses(activeView === 'agenda')}>
+          Agenda
+        </Link>
+        <Link href="/archive" className={linkClasses(activeView === 'archive')}>
+          Archive
+        </Link>
+        <Link href="/trash" className={linkClasses(activeView === 'trash')}>
+          Trash
+        </Link>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </nav>
+  );
+}
+
+interface ProjectRowProps {
+  project: Project;
+  active: boolean;
+  // Neighbours in the sidebar, swapped with when moving up or down
+  previous?: Project;
+  next?: Project;
+  disabled: boolean;
+}
+
+function ProjectRow({ project, active, previous, next, disabled }: ProjectRowProps) {
+  const router = useRouter();
+  const { projects, updateProject, reorderProjects, deleteProject } = useProjects();
+  const { loadTodos } = useTodos();
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(project.name);
+
+  const handleRename = async () => {
+    if (!name.trim() || name.trim() === project.name) {
+      setName(project.name);
+      setIsEditing(false);
+      return;
+    }
+    try {
+      await updateProject(project.id, { name });
+      setIsEditing(false);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  // Swap places with a neighbour; every list id is sent so archived lists keep their slots
+  const handleMove = async (neighbour: Project) => {
+    const ids = projects.map((p) => p.id);
+    const from = ids.indexOf(project.id);
+    const to = ids.indexOf(neighbour.id);
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    try {
+      await reorderProjects(ids);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handleArchive = async () => {
+    try {
+      await updateProject(project.id, { archived: !project.isArchived() });
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the list "${project.name}"?`)) return;
+    const cascade = confirm('Also delete its todos? Choose Cancel to move them to the Inbox instead.');
+    try {
+      await deleteProject(project.id, { todos: cascade ? 'cascade' : 'reassign', targetProjectId: null });
+      if (active) {
+        router.push('/');
+      } else {
+        await loadTodos();
+      }
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleRename}
+        onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+        aria-label="List name"
+        autoFocus
+        className="w-full px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+        disabled={disabled}
+      />
+    );
+  }
+
+  return (
+    <div className="group flex items-center gap-1">
+      <Link
+        href={`/lists/${encodeURIComponent(project.id)}`}
+        className={`flex-1 min-w-0 truncate ${linkClasses(active)} ${
+          project.isArchived() ? 'italic text-gray-400' : ''
+        }`}
+      >
+        {project.name}
+      </Link>
+      <div className="hidden group-hover:flex gap-1 text-xs text-gray-500">
+        {previous && (
+          <button type="button" onClick={() => handleMove(previous)} disabled={disabled} aria-label="Move up">
+            ↑
+          </button>
+        )}
+        {next && (
+          <button type="button" onClick={() => handleMove(next)} disabled={disabled} aria-label="Move down">
+            ↓
+          </button>
+        )}
+        <button type="button" onClick={() => setIsEditing(true)} disabled={disabled}>
+          Rename
+        </button>
+        <button type="button" onClick={handleArchive} disabled={disabled}>
+          {project.isArchived() ? 'Unarchive' : 'Archive'}
+        </button>
+        <button type="button" onClick={handleDelete} disabled={disabled} className="text-red-600">
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { ProjectSidebar } from './ProjectSidebar';
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Tag } from '@domain/entities/Tag';
+import { useTags } from '@/hooks/useTags';
+import { useTodos } from '@/hooks/useTodos';
+
+/**
+ * Tag management panel: rename, recolor, merge and delete tags
+ * Owns loading the tags; merging and deleting retag todos, so the todo list is reloaded after
+ */
+export function TagManager() {
+  const { tags, error, isLoading, loadTags, updateTag, mergeTags, deleteTag } = useTags();
+  const { loadTodos } = useTodos();
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  const handleMerge = async (sourceId: string, targetId: string) => {
+    try {
+      await mergeTags(sourceId, targetId);
+      await loadTodos();
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (confirm(`Delete the tag "${tag.name}"? It will be removed from every todo.`)) {
+      try {
+        await deleteTag(tag.id);
+        await loadTodos();
+      } catch (error) {
+        // Error handled by hook
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md space-y-3">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-3 py-2 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-500">No tags yet. Add one while creating a todo.</p>
+      ) : (
+        tags.map((tag) => (
+          // Keyed by name too, so a saved rename resets the row's input
+          <TagRow
+            key={`${tag.id}:${tag.name}`}
+            tag={tag}
+            others={tags.filter((other) => other.id !== tag.id)}
+            disabled={isLoading}
+            onRename={(name) => updateTag(tag.id, { name }).catch(() => undefined)}
+            onRecolor={(color) => updateTag(tag.id, { color }).catch(() => undefined)}
+            onMerge={(targetId) => handleMerge(tag.id, targetId)}
+            onDelete={() => handleDelete(tag)}
+          />
+        ))
+      )}
+    </div>
+  );
+}
+
+interface TagRowProps {
+  tag: Tag;
+  others: Tag[];
+  disabled: boolean;
+  onRename: (name: string) => void;
+  onRecolor: (color: string) => void;
+  onMerge: (targetId: string) => void;
+  onDelete: () => void;
+}
+
+function TagRow({ tag, others, disabled, onRename, onRecolor, onMerge, onDelete }: TagRowProps) {
+  const [name, setName] = useState(tag.name);
+
+  const commitName = () => {
+    if (name.trim() && name.trim() !== tag.name) {
+      onRename(name);
+    } else {
+      setName(tag.name);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <input
+        type="color"
+        value={tag.color}
+        onChange={(e) => onRecolor(e.target.value)}
+        aria-label={`Color of ${tag.name}`}
+        className="w-8 h-8 rounded border border-gray-300"
+        disabled={disabled}
+      />
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => e.key === 'Enter' && commitName()}
+        aria-label="Tag name"
+        className="flex-1 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        disabled={disabled}
+      />
+      {others.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onMerge(e.target.value)}
+          aria-label={`Merge ${tag.name} into`}
+          className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+          disabled={disabled}
+        >
+          <option value="">Merge into...</option>
+          {others.map((other) => (
+            <option key={other.id} value={other.id}>
+              {other.name}
+            </option>
+          ))}
+        </select>
+      )}
+      <button
+        type="button"
+        onClick={onDelete}
+        disabled={disabled}
+        className="px-2 py-1 text-red-600 hover:text-red-800 disabled:text-gray-300"
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
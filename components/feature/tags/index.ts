@@ -0,0 +1 @@
+export { TagManager } from './TagManager';
@@ -0,0 +1,83 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Todo } from '@/domain/entities/Todo';
+import { useArchive } from '@/hooks/useArchive';
+import { formatDateTime } from '@/utils';
+
+/**
+ * Archived todos: bring them back to their list or move them to the trash
+ */
+export function ArchiveView() {
+  const { archived, isLoading, error, loadArchive, unarchiveTodo, deleteTodo } = useArchive();
+
+  useEffect(() => {
+    loadArchive();
+  }, [loadArchive]);
+
+  const handleUnarchive = async (todo: Todo) => {
+    try {
+      await unarchiveTodo(todo.id);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handleDelete = async (todo: Todo) => {
+    if (confirm(`Move "${todo.title}" to the trash?`)) {
+      try {
+        await deleteTodo(todo.id);
+      } catch (error) {
+        // Error handled by hook
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <p className="font-semibold">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {isLoading && archived.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <div className="animate-pulse">Loading archive...</div>
+        </div>
+      ) : archived.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Nothing archived yet. Archive completed todos to tidy up your lists.
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {archived.map((todo) => (
+            <li key={todo.id} className="bg-white p-4 rounded-lg shadow-md flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-gray-500 line-through truncate">{todo.title}</h3>
+                <p className="text-xs text-gray-500">Archived {formatDateTime(todo.archivedAt!)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleUnarchive(todo)}
+                disabled={isLoading}
+                className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-100 disabled:text-gray-300"
+              >
+                Unarchive
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(todo)}
+                disabled={isLoading}
+                className="px-3 py-1 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:bg-gray-300"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
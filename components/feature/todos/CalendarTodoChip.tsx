@@ -0,0 +1,128 @@
+'use client';
+
+import { DragEvent, KeyboardEvent, ReactNode, useState } from 'react';
+import { Todo } from '@/domain/entities/Todo';
+import { TODO_STATUS, TodoStatusType } from '@/domain/enums';
+
+// Drag data type of a todo chip, so drops of other dragged content are ignored
+const TODO_DRAG_TYPE = 'application/x-todo-id';
+
+// Same colours as the status badge of TodoItem
+const STATUS_CHIP_CLASSES: Record<TodoStatusType, string> = {
+  [TODO_STATUS.PENDING]: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  [TODO_STATUS.IN_PROGRESS]: 'bg-blue-50 text-blue-800 border-blue-200',
+  [TODO_STATUS.COMPLETED]: 'bg-green-50 text-green-700 border-green-200 line-through',
+  [TODO_STATUS.CANCELLED]: 'bg-gray-50 text-gray-500 border-gray-200 line-through',
+};
+
+const chipClassName =
+  'px-2 py-1 rounded border text-xs cursor-grab truncate focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Days moved by the arrow keys: a day sideways, a week up or down
+const KEY_DAY_OFFSETS: Record<string, number> = {
+  ArrowLeft: -1,
+  ArrowRight: 1,
+  ArrowUp: -7,
+  ArrowDown: 7,
+};
+
+interface CalendarTodoChipProps {
+  todo: Todo;
+  // Show the due time next to the title
+  showTime?: boolean;
+  // Move the todo by a number of days; omitted for todos without a due date
+  onMoveDays?: (days: number) => void;
+}
+
+/**
+ * A todo on the calendar, the agenda or the undated tray, styled by status
+ * Dragged onto a TodoDropZone to reschedule it; focused, the arrow keys move it by days
+ */
+export function CalendarTodoChip({ todo, showTime = false, onMoveDays }: CalendarTodoChipProps) {
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const days = KEY_DAY_OFFSETS[event.key];
+    if (onMoveDays && days !== undefined) {
+      event.preventDefault();
+      onMoveDays(days);
+    }
+  };
+
+  return (
+    <div
+      id={`calendar-todo-${todo.id}`}
+      draggable
+      tabIndex={0}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData(TODO_DRAG_TYPE, todo.id);
+      }}
+      onKeyDown={handleKeyDown}
+      aria-label={`${todo.title}, ${todo.status.replace('_', ' ')}${
+        todo.dueAt ? `, due ${todo.dueAt.toLocaleString()}` : ''
+      }`}
+      className={`${chipClassName} ${STATUS_CHIP_CLASSES[todo.status]} ${
+        todo.isOverdue() ? 'border-red-400' : ''
+      }`}
+    >
+      {showTime && todo.dueAt && (
+        <span className="mr-1 tabular-nums">
+          {todo.dueAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      )}
+      {todo.title}
+    </div>
+  );
+}
+
+interface TodoDropZoneProps {
+  // Called with the id of the todo chip dropped here
+  onDropTodo: (todoId: string) => void;
+  className?: string;
+  // Class added while a chip is dragged over the zone
+  activeClassName?: string;
+  children: ReactNode;
+}
+
+/**
+ * Area that todo chips can be dropped on, such as a calendar day or the undated tray
+ */
+export function TodoDropZone({
+  onDropTodo,
+  className = '',
+  activeClassName = 'ring-2 ring-blue-300',
+  children,
+}: TodoDropZoneProps) {
+  const [isOver, setIsOver] = useState(false);
+
+  const handleDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (event.dataTransfer.types.includes(TODO_DRAG_TYPE)) {
+      event.preventDefault();
+      setIsOver(true);
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    const todoId = event.dataTransfer.getData(TODO_DRAG_TYPE);
+    setIsOver(false);
+    if (todoId) {
+      event.preventDefault();
+      onDropTodo(todoId);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        // Moving onto a chip inside the zone is not leaving it
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsOver(false);
+        }
+      }}
+      onDrop={handleDrop}
+      className={`${className} ${isOver ? activeClassName : ''}`}
+    >
+      {children}
+    </div>
+  );
+}
@@ -2,23 +2,104 @@
 
 import { useState } from 'react';
 import { useTodos } from '@/hooks/useTodos';
+import { TODO_PRIORITY, TodoPriorityType } from '@/domain/enums';
+import { TagPicker } from '@/components/shared/TagPicker';
+import { RecurrencePicker } from '@/components/shared/RecurrencePicker';
+import { FieldError, OtherFieldErrors } from '@/components/shared/FieldError';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+import { RecurrenceDTO } from '@/application/services/todo/in-dtos/recurrence.dto';
+import { TodoDTOValidator } from '@/application/services/todo/validators/todo-dto.validator';
+import { fromDateTimeLocalValue, requestNotificationPermission } from '@/utils';
 
-export function CreateTodoForm() {
+interface CreateTodoFormProps {
+  // List new todos go into; null for the Inbox
+  projectId?: string | null;
+}
+
+export function CreateTodoForm({ projectId = null }: CreateTodoFormProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const { createTodo, isLoading } = useTodos();
+  const [dueAt, setDueAt] = useState('');
+  const [remindAt, setRemindAt] = useState('');
+  const [priority, setPriority] = useState<TodoPriorityType>(TODO_PRIORITY.MEDIUM);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<RecurrenceDTO | null>(null);
+  // Remounts the picker so its end choice resets with the form
+  const [formKey, setFormKey] = useState(0);
+  // Messages from the last failed save, by field
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const { createTodo } = useTodos();
+
+  // Same rules the server applies, checked as the user types
+  const liveErrors = TodoDTOValidator.createTodoErrors({
+    title,
+    description,
+    dueAt: fromDateTimeLocalValue(dueAt),
+    remindAt: fromDateTimeLocalValue(remindAt),
+    tagIds,
+    recurrence,
+  });
+  // An empty title only disables the button until something is typed
+  if (!title.trim()) {
+    delete liveErrors.title;
+  }
+  const errors = { ...fieldErrors, ...liveErrors };
+  const canSubmit = title.trim().length > 0 && Object.keys(liveErrors).length === 0;
+
+  const fillForm = (values: {
+    title: string;
+    description: string;
+    dueAt: string;
+    remindAt: string;
+    priority: TodoPriorityType;
+    tagIds: string[];
+    recurrence: RecurrenceDTO | null;
+  }) => {
+    setTitle(values.title);
+    setDescription(values.description);
+    setDueAt(values.dueAt);
+    setRemindAt(values.remindAt);
+    setPriority(values.priority);
+    setTagIds(values.tagIds);
+    setRecurrence(values.recurrence);
+    setFormKey((key) => key + 1);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!title.trim()) return;
+    if (!canSubmit) return;
 
+    if (remindAt) {
+      requestNotificationPermission();
+    }
+    const draft = { title, description, dueAt, remindAt, priority, tagIds, recurrence };
+    setFieldErrors({});
+    // The new todo shows up straight away, so the form is ready for the next one
+    fillForm({
+      title: '',
+      description: '',
+      dueAt: '',
+      remindAt: '',
+      priority: TODO_PRIORITY.MEDIUM,
+      tagIds: [],
+      recurrence: null,
+    });
     try {
-      await createTodo({ title, description });
-      setTitle('');
-      setDescription('');
+      await createTodo({
+        title: draft.title,
+        description: draft.description,
+        dueAt: fromDateTimeLocalValue(draft.dueAt),
+        remindAt: fromDateTimeLocalValue(draft.remindAt),
+        priority: draft.priority,
+        tagIds: draft.tagIds,
+        projectId,
+        recurrence: draft.recurrence,
+      });
     } catch (error) {
-      // Error is handled by the hook
+      // Other errors are shown by the hook; put the draft back so it can be fixed and sent again
+      fillForm(draft);
+      setFieldErrors(ErrorMapper.toFieldErrors(error));
     }
   };
 
@@ -35,8 +116,8 @@ export function CreateTodoForm() {
           onChange={(e) => setTitle(e.target.value)}
           placeholder="Enter todo title..."
           className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          disabled={isLoading}
         />
+        <FieldError fields={errors} field="title" />
       </div>
 
       <div>
@@ -50,16 +131,81 @@ export function CreateTodoForm() {
           placeholder="Enter todo description..."
           rows={3}
           className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          disabled={isLoading}
         />
+        <FieldError fields={errors} field="description" />
+      </div>
+
+      <div>
+        <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-2">
+          Priority
+        </label>
+        <select
+          id="priority"
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as TodoPriorityType)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {Object.values(TODO_PRIORITY).map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
       </div>
 
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="dueAt" className="block text-sm font-medium text-gray-700 mb-2">
+            Due
+          </label>
+          <input
+            type="datetime-local"
+            id="dueAt"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <FieldError fields={errors} field="dueAt" />
+        </div>
+
+        <div>
+          <label htmlFor="remindAt" className="block text-sm font-medium text-gray-700 mb-2">
+            Remind me
+          </label>
+          <input
+            type="datetime-local"
+            id="remindAt"
+            value={remindAt}
+            onChange={(e) => setRemindAt(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <FieldError fields={errors} field="remindAt" />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Repeat</span>
+        <RecurrencePicker key={formKey} value={recurrence} onChange={setRecurrence} />
+        <FieldError fields={errors} field="recurrence" />
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Tags</span>
+        <TagPicker selectedIds={tagIds} onChange={setTagIds} />
+        <FieldError fields={errors} field="tagIds" />
+      </div>
+
+      <OtherFieldErrors
+        fields={errors}
+        shown={['title', 'description', 'dueAt', 'remindAt', 'recurrence', 'tagIds']}
+      />
+
       <button
         type="submit"
-        disabled={isLoading || !title.trim()}
+        disabled={!canSubmit}
         className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
       >
-        {isLoading ? 'Adding...' : 'Add Todo'}
+        Add Todo
       </button>
     </form>
   );
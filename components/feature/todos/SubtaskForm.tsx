@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { useTodos } from '@/hooks/useTodos';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+
+interface SubtaskFormProps {
+  parentId: string;
+}
+
+/**
+ * Inline form adding a checklist item under a todo
+ */
+export function SubtaskForm({ parentId }: SubtaskFormProps) {
+  const [title, setTitle] = useState('');
+  // Field messages from the last failed save
+  const [error, setError] = useState<string | null>(null);
+  const { createTodo } = useTodos();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!title.trim()) return;
+
+    // The subtask shows up straight away, so the input is ready for the next one
+    setTitle('');
+    setError(null);
+    try {
+      await createTodo({ title, description: '', parentId });
+    } catch (error) {
+      // Other errors are shown by the hook; put the title back so it can be sent again
+      setTitle(title);
+      setError(Object.values(ErrorMapper.toFieldErrors(error)).join(' ') || null);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Add a subtask..."
+          aria-label="Subtask title"
+          className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={!title.trim()}
+          className="px-3 py-1 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          Add
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  );
+}
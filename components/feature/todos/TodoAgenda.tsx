@@ -0,0 +1,145 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useCalendar } from '@/hooks/useCalendar';
+import { CalendarRange } from '@/application/store/CalendarStore';
+import { Todo } from '@/domain/entities/Todo';
+import { addDays, formatDate, startOfDay, toDateInputValue } from '@/utils';
+import { CalendarTodoChip, TodoDropZone } from './CalendarTodoChip';
+import { UndatedTray } from './UndatedTray';
+
+// Days the agenda lists at a time
+const AGENDA_DAYS = 14;
+
+const buttonClassName =
+  'py-1 px-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm';
+
+/**
+ * The todos due over the next two weeks, day by day in time order, with the undated
+ * todos beside them
+ * Every day is listed, empty or not, so todos can be dragged onto any of them
+ */
+export function TodoAgenda() {
+  const { dated, undated, isLoading, error, loadRange, rescheduleTodo } = useCalendar();
+  const [start, setStart] = useState(() => startOfDay(new Date()));
+  // Todo moved with the keyboard, which gets the focus back on its new day
+  const [keyboardMovedId, setKeyboardMovedId] = useState<string | null>(null);
+
+  const range = useMemo<CalendarRange>(
+    () => ({ from: start, to: new Date(addDays(start, AGENDA_DAYS).getTime() - 1) }),
+    [start]
+  );
+  const days = useMemo(
+    () => Array.from({ length: AGENDA_DAYS }, (_, index) => addDays(start, index)),
+    [start]
+  );
+
+  useEffect(() => {
+    loadRange(range);
+  }, [range, loadRange]);
+
+  useEffect(() => {
+    if (keyboardMovedId) {
+      document.getElementById(`calendar-todo-${keyboardMovedId}`)?.focus();
+    }
+  }, [dated, keyboardMovedId]);
+
+  const handleDrop = (todoId: string, day: Date) => {
+    const todo = [...dated, ...undated].find((t) => t.id === todoId);
+    if (todo && (!todo.dueAt || toDateInputValue(todo.dueAt) !== toDateInputValue(day))) {
+      rescheduleTodo(todo, day);
+    }
+  };
+
+  const handleMoveDays = (todo: Todo, offset: number) => {
+    setKeyboardMovedId(todo.id);
+    rescheduleTodo(todo, addDays(startOfDay(todo.dueAt!), offset)).finally(() =>
+      setKeyboardMovedId(null)
+    );
+  };
+
+  const today = toDateInputValue(new Date());
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr_14rem]">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setStart((current) => addDays(current, -AGENDA_DAYS))}
+            className={buttonClassName}
+          >
+            ← Earlier
+          </button>
+          <button
+            type="button"
+            onClick={() => setStart(startOfDay(new Date()))}
+            className={buttonClassName}
+          >
+            Today
+          </button>
+          <button
+            type="button"
+            onClick={() => setStart((current) => addDays(current, AGENDA_DAYS))}
+            className={buttonClassName}
+          >
+            Later →
+          </button>
+          <h3 className="flex-1 text-lg font-semibold text-gray-800" aria-live="polite">
+            {formatDate(range.from)} – {formatDate(range.to)}
+          </h3>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            <p className="font-semibold">Error:</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        <ol className="space-y-2" aria-busy={isLoading}>
+          {days.map((day) => {
+            const key = toDateInputValue(day);
+            const todos = dated.filter((todo) => toDateInputValue(todo.dueAt!) === key);
+            return (
+              <li key={key}>
+                <TodoDropZone
+                  onDropTodo={(todoId) => handleDrop(todoId, day)}
+                  className="bg-white p-3 rounded-lg shadow-sm flex gap-4"
+                >
+                  <h4
+                    className={`w-28 shrink-0 text-sm font-medium ${
+                      key === today ? 'text-blue-700' : 'text-gray-700'
+                    }`}
+                  >
+                    {day.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+                    {key === today && <span className="block text-xs font-normal">Today</span>}
+                  </h4>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    {todos.length === 0 ? (
+                      <p className="text-sm text-gray-400">Nothing due</p>
+                    ) : (
+                      todos.map((todo) => (
+                        <CalendarTodoChip
+                          key={todo.id}
+                          todo={todo}
+                          showTime
+                          onMoveDays={(offset) => handleMoveDays(todo, offset)}
+                        />
+                      ))
+                    )}
+                  </div>
+                </TodoDropZone>
+              </li>
+            );
+          })}
+        </ol>
+        <p className="text-xs text-gray-500">
+          Drag a todo to another day, or focus it and use the arrow keys, to reschedule it.
+        </p>
+      </div>
+
+      <UndatedTray />
+    </div>
+  );
+}
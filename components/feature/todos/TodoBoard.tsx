@@ -0,0 +1,254 @@
+'use client';
+
+import { DragEvent, KeyboardEvent, useEffect, useState } from 'react';
+import { useBoard } from '@/hooks/useBoard';
+import { TodoItem } from '@/components/shared/TodoItem';
+import { Todo } from '@/domain/entities/Todo';
+import { TODO_STATUS, TodoStatusType } from '@/domain/enums';
+import { config } from '@/config';
+
+// One column per status, in the order work flows through them
+const BOARD_COLUMNS: readonly TodoStatusType[] = [
+  TODO_STATUS.PENDING,
+  TODO_STATUS.IN_PROGRESS,
+  TODO_STATUS.COMPLETED,
+  TODO_STATUS.CANCELLED,
+];
+
+const STATUS_LABELS: Record<TodoStatusType, string> = {
+  [TODO_STATUS.PENDING]: 'Pending',
+  [TODO_STATUS.IN_PROGRESS]: 'In Progress',
+  [TODO_STATUS.COMPLETED]: 'Completed',
+  [TODO_STATUS.CANCELLED]: 'Cancelled',
+};
+
+/**
+ * Why a card cannot move to a column, or null when it can
+ * Mirrors the Todo state machine, so a move the service would reject is explained up front
+ */
+function rejectionOf(
+  todo: Todo,
+  subtasks: Todo[],
+  target: TodoStatusType,
+  cardsInTarget: number
+): string | null {
+  if (!todo.canTransitionTo(target)) {
+    const allowed = BOARD_COLUMNS.filter((status) => todo.canTransitionTo(status));
+    return `${STATUS_LABELS[todo.status]} todos can only move to ${allowed
+      .map((status) => STATUS_LABELS[status])
+      .join(' or ')}.`;
+  }
+  if (target === TODO_STATUS.COMPLETED && !todo.canBeCompleted(subtasks)) {
+    const open = todo.openSubtasks(subtasks).length;
+    return open > 0
+      ? `"${todo.title}" has ${open} open subtask${open === 1 ? '' : 's'}; close them before completing it.`
+      : 'Only todos with a title can be completed.';
+  }
+  const limit = config.board.wipLimits[target];
+  if (limit !== null && cardsInTarget >= limit) {
+    return `${STATUS_LABELS[target]} is at its limit of ${limit} todos; finish or move one out first.`;
+  }
+  return null;
+}
+
+/**
+ * Kanban board with a column per status
+ * Dragging a card to another column runs the matching status transition; moves the
+ * domain rules or the column's WIP limit forbid leave the card where it was and say why
+ * The board loads its own todos, so the filter of the lists is left as it was
+ */
+export function TodoBoard() {
+  const { columns, totals, subtasks, isLoading, error, loadBoard, transitionCard } =
+    useBoard(BOARD_COLUMNS);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TodoStatusType | null>(null);
+  // Why the last move was refused
+  const [rejection, setRejection] = useState<string | null>(null);
+  // Todo being moved with the keyboard, whose handle gets the focus back in its new column
+  const [keyboardMovedId, setKeyboardMovedId] = useState<string | null>(null);
+  // Read out by screen readers after each move
+  const [announcement, setAnnouncement] = useState('');
+
+  // Every list, unfiltered
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  useEffect(() => {
+    if (keyboardMovedId) {
+      document.getElementById(`board-card-${keyboardMovedId}`)?.focus();
+    }
+  }, [columns, keyboardMovedId]);
+
+  const moveCard = async (todo: Todo, target: TodoStatusType) => {
+    if (todo.status === target) {
+      return;
+    }
+    const refused = rejectionOf(todo, subtasks[todo.id] ?? [], target, totals[target]);
+    setRejection(refused);
+    if (refused) {
+      return;
+    }
+    setAnnouncement(`Moved "${todo.title}" to ${STATUS_LABELS[target]}`);
+    try {
+      await transitionCard(todo, target);
+    } catch {
+      // The hook puts the card back and shows the error
+    }
+  };
+
+  const handleCardKey = (event: KeyboardEvent<HTMLButtonElement>, todo: Todo) => {
+    const offset = event.key === 'ArrowLeft' ? -1 : event.key === 'ArrowRight' ? 1 : 0;
+    if (offset === 0) {
+      return;
+    }
+    event.preventDefault();
+    const target = BOARD_COLUMNS[BOARD_COLUMNS.indexOf(todo.status) + offset];
+    if (target) {
+      setKeyboardMovedId(todo.id);
+      moveCard(todo, target).finally(() => setKeyboardMovedId(null));
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, target: TodoStatusType) => {
+    event.preventDefault();
+    const todo = Object.values(columns)
+      .flat()
+      .find((t) => t.id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (todo) {
+      moveCard(todo, target);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p id="board-help" className="text-sm text-gray-500">
+        Drag a card by its handle to another column, or focus the handle and press the left and right
+        arrow keys, to change its status.
+      </p>
+      <p className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </p>
+
+      {rejection && (
+        <div
+          role="alert"
+          className="flex items-start gap-4 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm"
+        >
+          <p className="flex-1">{rejection}</p>
+          <button
+            type="button"
+            onClick={() => setRejection(null)}
+            className="font-semibold hover:text-amber-950"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <div className="flex-1">
+            <p className="font-semibold">Error:</p>
+            <p>{error}</p>
+          </div>
+          <button
+            type="button"
+            onClick={loadBoard}
+            disabled={isLoading}
+            className="text-sm font-semibold hover:text-red-900 disabled:text-red-300"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-flow-col auto-cols-[minmax(18rem,1fr)] gap-4 overflow-x-auto pb-2">
+        {BOARD_COLUMNS.map((status) => {
+          const cards = columns[status];
+          const limit = config.board.wipLimits[status];
+          return (
+            <section
+              key={status}
+              aria-labelledby={`board-column-${status}`}
+              onDragOver={(e) => {
+                if (draggedId) {
+                  e.preventDefault();
+                  setDropTarget(status);
+                }
+              }}
+              onDragLeave={(e) => {
+                // Leaving for one of the column's own cards is not leaving the column
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                  setDropTarget((current) => (current === status ? null : current));
+                }
+              }}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`rounded-lg bg-white/60 p-3 space-y-3 min-h-48 ${
+                dropTarget === status ? 'ring-2 ring-blue-300' : ''
+              }`}
+            >
+              <h3
+                id={`board-column-${status}`}
+                className="flex items-baseline justify-between font-semibold text-gray-800"
+              >
+                {STATUS_LABELS[status]}
+                <span
+                  className={`text-sm font-normal ${
+                    limit !== null && totals[status] >= limit ? 'text-red-600' : 'text-gray-500'
+                  }`}
+                >
+                  {totals[status]}
+                  {limit !== null && ` / ${limit}`}
+                </span>
+              </h3>
+
+              {cards.map((todo) => (
+                <div key={todo.id} className="flex items-start gap-2">
+                  <button
+                    type="button"
+                    id={`board-card-${todo.id}`}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', todo.id);
+                      setDraggedId(todo.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                    onKeyDown={(e) => handleCardKey(e, todo)}
+                    aria-label={`Move "${todo.title}"`}
+                    aria-describedby="board-help"
+                    className="mt-4 px-1 text-gray-400 hover:text-gray-600 cursor-grab focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                  >
+                    ⠿
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <TodoItem todo={todo} subtasks={subtasks[todo.id]} />
+                  </div>
+                </div>
+              ))}
+
+              {cards.length === 0 && !isLoading && (
+                <p className="text-center py-6 text-sm text-gray-400">No todos</p>
+              )}
+              {cards.length < totals[status] && (
+                <p className="text-center text-sm text-gray-500">
+                  Showing the newest {cards.length} of {totals[status]}
+                </p>
+              )}
+            </section>
+          );
+        })}
+      </div>
+
+      {isLoading && (
+        <div className="text-center text-sm text-gray-500 animate-pulse">Loading todos...</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useCalendar } from '@/hooks/useCalendar';
+import { CalendarRange } from '@/application/store/CalendarStore';
+import { Todo } from '@/domain/entities/Todo';
+import { addDays, formatDate, startOfDay, toDateInputValue, WEEKDAY_LABELS } from '@/utils';
+import { CalendarTodoChip, TodoDropZone } from './CalendarTodoChip';
+import { UndatedTray } from './UndatedTray';
+
+type CalendarMode = 'month' | 'week';
+
+const buttonClassName =
+  'py-1 px-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm';
+
+// Weeks start on Sunday, matching WEEKDAY_LABELS
+function startOfWeek(date: Date): Date {
+  return addDays(startOfDay(date), -date.getDay());
+}
+
+// Whole weeks covering the month or the week around the anchor date
+function rangeOf(mode: CalendarMode, anchor: Date): CalendarRange {
+  const from =
+    mode === 'month'
+      ? startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+      : startOfWeek(anchor);
+  const lastDay =
+    mode === 'month'
+      ? addDays(startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)), 6)
+      : addDays(from, 6);
+  return { from, to: new Date(addDays(lastDay, 1).getTime() - 1) };
+}
+
+/**
+ * Month or week calendar of the todos by due day, with the undated todos beside it
+ * Drag a todo to another day, or focus it and use the arrow keys, to reschedule it
+ */
+export function TodoCalendar() {
+  const { dated, undated, isLoading, error, loadRange, rescheduleTodo } = useCalendar();
+  const [mode, setMode] = useState<CalendarMode>('month');
+  // Any day of the month or week shown
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  // Todo moved with the keyboard, which gets the focus back on its new day
+  const [keyboardMovedId, setKeyboardMovedId] = useState<string | null>(null);
+
+  const range = useMemo(() => rangeOf(mode, anchor), [mode, anchor]);
+  const days = useMemo(() => {
+    const result: Date[] = [];
+    for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [range]);
+
+  useEffect(() => {
+    loadRange(range);
+  }, [range, loadRange]);
+
+  useEffect(() => {
+    if (keyboardMovedId) {
+      document.getElementById(`calendar-todo-${keyboardMovedId}`)?.focus();
+    }
+  }, [dated, keyboardMovedId]);
+
+  const todosByDay = useMemo(() => {
+    const groups = new Map<string, Todo[]>();
+    for (const todo of dated) {
+      const key = toDateInputValue(todo.dueAt!);
+      groups.set(key, [...(groups.get(key) ?? []), todo]);
+    }
+    return groups;
+  }, [dated]);
+
+  const step = (direction: number) => {
+    setAnchor((current) =>
+      mode === 'month'
+        ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+        : addDays(current, 7 * direction)
+    );
+  };
+
+  const handleDrop = (todoId: string, day: Date) => {
+    const todo = [...dated, ...undated].find((t) => t.id === todoId);
+    if (todo && (!todo.dueAt || toDateInputValue(todo.dueAt) !== toDateInputValue(day))) {
+      rescheduleTodo(todo, day);
+    }
+  };
+
+  const handleMoveDays = (todo: Todo, offset: number) => {
+    setKeyboardMovedId(todo.id);
+    rescheduleTodo(todo, addDays(startOfDay(todo.dueAt!), offset)).finally(() =>
+      setKeyboardMovedId(null)
+    );
+  };
+
+  const today = toDateInputValue(new Date());
+  const title =
+    mode === 'month'
+      ? anchor.toLocaleDateString([], { month: 'long', year: 'numeric' })
+      : `${formatDate(range.from)} – ${formatDate(range.to)}`;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[1fr_14rem]">
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={() => step(-1)} className={buttonClassName}>
+            ← Previous
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor(startOfDay(new Date()))}
+            className={buttonClassName}
+          >
+            Today
+          </button>
+          <button type="button" onClick={() => step(1)} className={buttonClassName}>
+            Next →
+          </button>
+          <h3 className="flex-1 text-lg font-semibold text-gray-800" aria-live="polite">
+            {title}
+          </h3>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as CalendarMode)}
+            aria-label="Calendar view"
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-sm"
+          >
+            <option value="month">Month</option>
+            <option value="week">Week</option>
+          </select>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            <p className="font-semibold">Error:</p>
+            <p>{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-7 gap-1 text-sm" aria-busy={isLoading}>
+          {WEEKDAY_LABELS.map((label) => (
+            <div key={label} className="px-1 text-center text-xs font-medium text-gray-500">
+              {label}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = toDateInputValue(day);
+            const isOtherMonth = mode === 'month' && day.getMonth() !== anchor.getMonth();
+            return (
+              <TodoDropZone
+                key={key}
+                onDropTodo={(todoId) => handleDrop(todoId, day)}
+                className={`rounded-lg p-1 space-y-1 ${mode === 'month' ? 'min-h-24' : 'min-h-64'} ${
+                  isOtherMonth ? 'bg-white/40' : 'bg-white'
+                } ${key === today ? 'ring-2 ring-blue-500' : ''}`}
+              >
+                <div
+                  className={`text-xs font-medium ${
+                    isOtherMonth ? 'text-gray-400' : 'text-gray-600'
+                  }`}
+                >
+                  {day.getDate()}
+                </div>
+                {todosByDay.get(key)?.map((todo) => (
+                  <CalendarTodoChip
+                    key={todo.id}
+                    todo={todo}
+                    showTime={mode === 'week'}
+                    onMoveDays={(offset) => handleMoveDays(todo, offset)}
+                  />
+                ))}
+              </TodoDropZone>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-500">
+          Drag a todo to another day, or focus it and use the arrow keys, to reschedule it.
+        </p>
+      </div>
+
+      <UndatedTray />
+    </div>
+  );
+}
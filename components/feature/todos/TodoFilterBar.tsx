@@ -0,0 +1,184 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useTodos } from '@/hooks/useTodos';
+import { useTags } from '@/hooks/useTags';
+import { TagChip } from '@/components/shared/TagChip';
+import { TodoQueryMapper } from '@/application/services/todo/mappers/todo-query.mapper';
+import { TODO_STATUS, TodoStatusType } from '@/domain/enums';
+import { TodoFilter } from '@/domain/types/TodoQuery';
+import { fromDateInputValue, toDateInputValue } from '@/utils';
+
+const STATUS_LABELS: Record<TodoStatusType, string> = {
+  [TODO_STATUS.PENDING]: 'Pending',
+  [TODO_STATUS.IN_PROGRESS]: 'In Progress',
+  [TODO_STATUS.COMPLETED]: 'Completed',
+  [TODO_STATUS.CANCELLED]: 'Cancelled',
+};
+
+const DATE_FILTERS = [
+  { key: 'createdFrom', label: 'Created from', endOfDay: false },
+  { key: 'createdTo', label: 'Created to', endOfDay: true },
+  { key: 'dueFrom', label: 'Due from', endOfDay: false },
+  { key: 'dueTo', label: 'Due to', endOfDay: true },
+] as const;
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Search bar and filter chips
+ * Writes the filter to the URL query string; TodoList reads it back and reloads
+ */
+export function TodoFilterBar() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { filter } = useTodos();
+  const { tags } = useTags();
+  const [search, setSearch] = useState(filter.search ?? '');
+  const [showDates, setShowDates] = useState(false);
+
+  // The list comes from the path, so it stays out of the query string
+  const applyFilter = useCallback(
+    (next: TodoFilter) => {
+      const params = TodoQueryMapper.toSearchParams({
+        filter: { ...next, projectId: undefined },
+      }).toString();
+      router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+    },
+    [router, pathname]
+  );
+
+  // Keep the input in step with the URL (back/forward, shared links), adjusting the
+  // state while rendering rather than in an effect
+  const [urlSearch, setUrlSearch] = useState(filter.search ?? '');
+  if ((filter.search ?? '') !== urlSearch) {
+    setUrlSearch(filter.search ?? '');
+    setSearch(filter.search ?? '');
+  }
+
+  useEffect(() => {
+    if (search.trim() === (filter.search ?? '')) return;
+    const timer = setTimeout(() => applyFilter({ ...filter, search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, filter, applyFilter]);
+
+  const toggleStatus = (status: TodoStatusType) => {
+    const statuses = filter.statuses ?? [];
+    const next = statuses.includes(status)
+      ? statuses.filter((value) => value !== status)
+      : [...statuses, status];
+    applyFilter({ ...filter, statuses: next });
+  };
+
+  const toggleTag = (tagId: string) => {
+    const tagIds = filter.tagIds ?? [];
+    const next = tagIds.includes(tagId) ? tagIds.filter((id) => id !== tagId) : [...tagIds, tagId];
+    applyFilter({ ...filter, tagIds: next });
+  };
+
+  const activeDates = DATE_FILTERS.filter(({ key }) => filter[key]);
+  const hasFilter = Boolean(
+    filter.search || filter.statuses?.length || filter.tagIds?.length || activeDates.length
+  );
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search todos..."
+        aria-label="Search todos"
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(Object.keys(STATUS_LABELS) as TodoStatusType[]).map((status) => {
+          const active = filter.statuses?.includes(status) ?? false;
+          return (
+            <button
+              key={status}
+              type="button"
+              onClick={() => toggleStatus(status)}
+              aria-pressed={active}
+              className={`px-3 py-1 rounded-full border transition-colors ${
+                active
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {STATUS_LABELS[status]}
+            </button>
+          );
+        })}
+
+        {activeDates.map(({ key, label }) => (
+          <span
+            key={key}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-indigo-100 text-indigo-700"
+          >
+            {label} {filter[key]!.toLocaleDateString()}
+            <button
+              type="button"
+              onClick={() => applyFilter({ ...filter, [key]: undefined })}
+              aria-label={`Remove ${label} filter`}
+              className="ml-1 hover:text-indigo-900"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => setShowDates(!showDates)}
+          className="px-3 py-1 text-gray-600 hover:text-gray-900"
+        >
+          {showDates ? 'Hide dates' : 'Dates...'}
+        </button>
+
+        {hasFilter && (
+          <button
+            type="button"
+            onClick={() => applyFilter({})}
+            className="px-3 py-1 text-red-600 hover:text-red-800"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              active={filter.tagIds?.includes(tag.id) ?? false}
+              onClick={() => toggleTag(tag.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {showDates && (
+        <div className="grid gap-2 sm:grid-cols-2 text-xs text-gray-600">
+          {DATE_FILTERS.map(({ key, label, endOfDay }) => (
+            <label key={key}>
+              {label}
+              <input
+                type="date"
+                value={toDateInputValue(filter[key])}
+                onChange={(e) =>
+                  applyFilter({ ...filter, [key]: fromDateInputValue(e.target.value, endOfDay) })
+                }
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useTodoHistory } from '@/hooks/useTodoHistory';
+
+// How long the Undo toast stays up
+const TOAST_DURATION_MS = 8000;
+
+// Leave Ctrl+Z to the browser while the user is typing
+function isEditingText(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+/**
+ * Undo and redo buttons, their Ctrl+Z / Ctrl+Shift+Z shortcuts,
+ * and an Undo toast after a destructive action
+ */
+export function TodoHistoryControls() {
+  const { canUndo, canRedo, undoLabel, redoLabel, toast, dismissToast, undo, redo } =
+    useTodoHistory();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if (isEditingText(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(dismissToast, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast, dismissToast]);
+
+  return (
+    <>
+      <div className="flex gap-2 mb-4">
+        <button
+          type="button"
+          onClick={undo}
+          disabled={!canUndo}
+          title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+          className="px-3 py-1 border border-gray-300 bg-white text-gray-700 rounded-lg text-sm hover:bg-gray-100 disabled:text-gray-300"
+        >
+          ↶ Undo
+        </button>
+        <button
+          type="button"
+          onClick={redo}
+          disabled={!canRedo}
+          title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          className="px-3 py-1 border border-gray-300 bg-white text-gray-700 rounded-lg text-sm hover:bg-gray-100 disabled:text-gray-300"
+        >
+          ↷ Redo
+        </button>
+      </div>
+
+      {toast && (
+        <div
+          role="status"
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 flex items-center gap-4 bg-gray-900 text-white px-4 py-3 rounded-lg shadow-lg text-sm"
+        >
+          <span>{toast.label}</span>
+          <button
+            type="button"
+            onClick={undo}
+            disabled={!canUndo}
+            className="font-semibold text-blue-300 hover:text-blue-200"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={dismissToast}
+            aria-label="Dismiss"
+            className="text-gray-400 hover:text-white"
+          >
+            ×
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
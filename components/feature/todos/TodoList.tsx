@@ -1,65 +1,283 @@
 'use client';
 
+import { DragEvent, KeyboardEvent, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { useTodos } from '@/hooks/useTodos';
 import { TodoItem } from '@/components/shared/TodoItem';
+import { Todo } from '@/domain/entities/Todo';
+import { DEFAULT_TODO_QUERY, TodoFilter } from '@/domain/types/TodoQuery';
+import { TodoDTOValidator } from '@/application/services/todo/validators/todo-dto.validator';
+import { TodoFilterBar } from './TodoFilterBar';
+import { TodoSortControls } from './TodoSortControls';
+import { SubtaskForm } from './SubtaskForm';
 
-export function TodoList() {
-  const { todos, isLoading, error } = useTodos();
-
-  if (error) {
-    return (
-      <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
-        <p className="font-semibold">Error:</p>
-        <p>{error}</p>
-      </div>
-    );
+// Read the filter from the URL, ignoring malformed parameters
+function readFilter(params: URLSearchParams): TodoFilter {
+  try {
+    return TodoDTOValidator.toTodoQuery(params).filter ?? {};
+  } catch {
+    return {};
   }
+}
 
-  if (isLoading && todos.length === 0) {
-    return (
-      <div className="text-center py-8 text-gray-500">
-        <div className="animate-pulse">Loading todos...</div>
-      </div>
-    );
-  }
+interface TodoListProps {
+  // List to show; null for the Inbox, undefined for every list
+  projectId?: string | null;
+}
 
-  if (todos.length === 0) {
-    return (
-      <div className="text-center py-12 bg-gray-50 rounded-lg">
-        <p className="text-gray-500 text-lg">No todos yet. Create your first todo above!</p>
-      </div>
-    );
-  }
+export function TodoList({ projectId }: TodoListProps) {
+  const searchParams = useSearchParams();
+  const {
+    todos,
+    subtasks,
+    isLoading,
+    error,
+    query,
+    filter,
+    total,
+    hasMore,
+    loadTodos,
+    loadMore,
+    setFilter,
+    moveTodo,
+  } = useTodos();
+  // Parents whose subtasks are shown
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  // Todo being moved with the keyboard, whose handle gets the focus back once the list re-renders
+  const [keyboardMovedId, setKeyboardMovedId] = useState<string | null>(null);
+  // Read out by screen readers after each move
+  const [announcement, setAnnouncement] = useState('');
+
+  // Todos are reordered by hand only while the list shows the manual order
+  const isManualOrder = (query.sortBy ?? DEFAULT_TODO_QUERY.sortBy) === 'position';
+  // Positions grow down the list unless it is sorted descending
+  const isAscending = (query.sortDirection ?? DEFAULT_TODO_QUERY.sortDirection) === 'asc';
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // The URL query string holds the filter so filtered views can be shared; the path holds the list
+  useEffect(() => {
+    setFilter({ ...readFilter(searchParams), projectId });
+  }, [searchParams, projectId, setFilter]);
+
+  useEffect(() => {
+    if (keyboardMovedId) {
+      document.getElementById(`reorder-${keyboardMovedId}`)?.focus();
+    }
+  }, [todos, keyboardMovedId]);
+
+  // Reload once connectivity returns so todos changed offline show their server copies
+  useEffect(() => {
+    window.addEventListener('online', loadTodos);
+    return () => window.removeEventListener('online', loadTodos);
+  }, [loadTodos]);
+
+  /**
+   * Move a todo to a new index within its section
+   * Only the neighbours it lands between matter, so other sections keep their order
+   */
+  const reorder = async (section: Todo[], todo: Todo, index: number) => {
+    if (section[index]?.id === todo.id) {
+      return;
+    }
+    const others = section.filter((t) => t.id !== todo.id);
+    const above = others[index - 1] ?? null;
+    const below = others[index] ?? null;
+    const [before, after] = isAscending ? [above, below] : [below, above];
+    setAnnouncement(`Moved "${todo.title}" to position ${index + 1} of ${section.length}`);
+    try {
+      await moveTodo(todo.id, before?.id ?? null, after?.id ?? null);
+    } catch {
+      // Error handled by hook
+    }
+  };
 
-  const pendingTodos = todos.filter((todo) => todo.isPending());
-  const completedTodos = todos.filter((todo) => todo.isCompleted());
+  const handleReorderKey = (event: KeyboardEvent<HTMLButtonElement>, section: Todo[], todo: Todo) => {
+    const index = section.findIndex((t) => t.id === todo.id);
+    const target = event.key === 'ArrowUp' ? index - 1 : event.key === 'ArrowDown' ? index + 1 : null;
+    if (target === null) {
+      return;
+    }
+    event.preventDefault();
+    if (target >= 0 && target < section.length) {
+      setKeyboardMovedId(todo.id);
+      reorder(section, todo, target).finally(() => setKeyboardMovedId(null));
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, section: Todo[], target: Todo) => {
+    event.preventDefault();
+    const todo = section.find((t) => t.id === draggedId);
+    setDraggedId(null);
+    setDropTargetId(null);
+    if (todo) {
+      reorder(section, todo, section.findIndex((t) => t.id === target.id));
+    }
+  };
+
+  // The list is where we are, not a filter
+  const hasFilter = Object.entries(filter).some(
+    ([key, value]) => key !== 'projectId' && (Array.isArray(value) ? value.length > 0 : Boolean(value))
+  );
+
+  // Overdue and due-today todos are pulled out of their status section
+  const now = new Date();
+  const isUrgent = (todo: Todo) => todo.isOverdue(now) || todo.isDueToday(now);
+
+  const sections = [
+    { title: 'Overdue', todos: todos.filter((todo) => todo.isOverdue(now)) },
+    { title: 'Due today', todos: todos.filter((todo) => todo.isDueToday(now)) },
+    { title: 'Pending', todos: todos.filter((todo) => todo.isPending() && !isUrgent(todo)) },
+    { title: 'In Progress', todos: todos.filter((todo) => todo.isInProgress() && !isUrgent(todo)) },
+    { title: 'Completed', todos: todos.filter((todo) => todo.isCompleted()) },
+    { title: 'Cancelled', todos: todos.filter((todo) => todo.isCancelled()) },
+  ];
 
   return (
     <div className="space-y-6">
-      {pendingTodos.length > 0 && (
-        <div>
-          <h2 className="text-xl font-semibold text-gray-800 mb-3">
-            Pending ({pendingTodos.length})
-          </h2>
-          <div className="space-y-3">
-            {pendingTodos.map((todo) => (
-              <TodoItem key={todo.id} todo={todo} />
-            ))}
+      <TodoFilterBar />
+      <TodoSortControls />
+      {isManualOrder && (
+        <p id="reorder-help" className="text-sm text-gray-500">
+          Drag a todo by its handle, or focus the handle and press the up and down arrow keys, to
+          reorder it within its section.
+        </p>
+      )}
+      <p className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </p>
+
+      {/* Loading failed; whatever was loaded before stays listed below */}
+      {error && (
+        <div className="flex items-start gap-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <div className="flex-1">
+            <p className="font-semibold">Error:</p>
+            <p>{error}</p>
           </div>
+          <button
+            type="button"
+            onClick={loadTodos}
+            disabled={isLoading}
+            className="text-sm font-semibold hover:text-red-900 disabled:text-red-300"
+          >
+            Retry
+          </button>
         </div>
       )}
 
-      {completedTodos.length > 0 && (
-        <div>
-          <h2 className="text-xl font-semibold text-gray-800 mb-3">
-            Completed ({completedTodos.length})
-          </h2>
-          <div className="space-y-3">
-            {completedTodos.map((todo) => (
-              <TodoItem key={todo.id} todo={todo} />
-            ))}
-          </div>
+      {isLoading && todos.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <div className="animate-pulse">Loading todos...</div>
         </div>
+      ) : todos.length === 0 ? (
+        !error && (
+          <div className="text-center py-12 bg-gray-50 rounded-lg">
+            <p className="text-gray-500 text-lg">
+              {hasFilter ? 'No todos match your filters.' : 'No todos yet. Create your first todo above!'}
+            </p>
+          </div>
+        )
+      ) : (
+        <>
+          {sections.map(
+            (section) =>
+              section.todos.length > 0 && (
+                <div key={section.title}>
+                  <h2 className="text-xl font-semibold text-gray-800 mb-3">
+                    {section.title} ({section.todos.length})
+                  </h2>
+                  <div className="space-y-3">
+                    {section.todos.map((todo) => (
+                      <div
+                        key={todo.id}
+                        // Todos only move within their own section
+                        onDragOver={(e) => {
+                          if (section.todos.some((t) => t.id === draggedId)) {
+                            e.preventDefault();
+                            setDropTargetId(todo.id);
+                          }
+                        }}
+                        onDragLeave={() => setDropTargetId((id) => (id === todo.id ? null : id))}
+                        onDrop={(e) => handleDrop(e, section.todos, todo)}
+                        className={
+                          dropTargetId === todo.id && draggedId !== todo.id
+                            ? 'rounded-lg ring-2 ring-blue-300'
+                            : undefined
+                        }
+                      >
+                        <div className="flex items-start gap-2">
+                          {isManualOrder && (
+                            <button
+                              type="button"
+                              id={`reorder-${todo.id}`}
+                              draggable
+                              onDragStart={(e) => {
+                                e.dataTransfer.effectAllowed = 'move';
+                                e.dataTransfer.setData('text/plain', todo.id);
+                                setDraggedId(todo.id);
+                              }}
+                              onDragEnd={() => {
+                                setDraggedId(null);
+                                setDropTargetId(null);
+                              }}
+                              onKeyDown={(e) => handleReorderKey(e, section.todos, todo)}
+                              aria-label={`Reorder "${todo.title}"`}
+                              aria-describedby="reorder-help"
+                              className="mt-4 px-1 text-gray-400 hover:text-gray-600 cursor-grab focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                            >
+                              ⠿
+                            </button>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <TodoItem
+                              todo={todo}
+                              subtasks={subtasks[todo.id]}
+                              expanded={expanded.has(todo.id)}
+                              onToggleExpand={() => toggleExpanded(todo.id)}
+                            />
+                          </div>
+                        </div>
+                        {expanded.has(todo.id) && (
+                          <div className="ml-6 mt-2 pl-3 border-l-2 border-gray-200 space-y-2">
+                            {subtasks[todo.id]?.map((subtask) => (
+                              <TodoItem key={subtask.id} todo={subtask} />
+                            ))}
+                            {todo.isOpen() && <SubtaskForm parentId={todo.id} />}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+          )}
+
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              Showing {todos.length} of {total}
+            </span>
+            {hasMore && (
+              <button
+                type="button"
+                onClick={loadMore}
+                disabled={isLoading}
+                className="px-3 py-1 border border-gray-300 rounded-lg bg-white hover:bg-gray-100 disabled:text-gray-300 transition-colors"
+              >
+                {isLoading ? 'Loading...' : 'Load more'}
+              </button>
+            )}
+          </div>
+        </>
       )}
     </div>
   );
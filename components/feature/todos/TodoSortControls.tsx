@@ -0,0 +1,47 @@
+'use client';
+
+import { useTodos } from '@/hooks/useTodos';
+import { DEFAULT_TODO_QUERY, TODO_SORT_KEYS, TodoSortKey } from '@/domain/types/TodoQuery';
+
+const SORT_KEY_LABELS: Record<TodoSortKey, string> = {
+  createdAt: 'Created',
+  updatedAt: 'Updated',
+  dueAt: 'Due date',
+  priority: 'Priority',
+  title: 'Title',
+  position: 'Manual',
+};
+
+export function TodoSortControls() {
+  const { query, setQuery, isLoading } = useTodos();
+  const sortBy = query.sortBy ?? DEFAULT_TODO_QUERY.sortBy;
+  const sortDirection = query.sortDirection ?? DEFAULT_TODO_QUERY.sortDirection;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-700">
+      <label htmlFor="sortBy">Sort by</label>
+      <select
+        id="sortBy"
+        value={sortBy}
+        onChange={(e) => setQuery({ ...query, sortBy: e.target.value as TodoSortKey })}
+        disabled={isLoading}
+        className="px-2 py-1 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500"
+      >
+        {TODO_SORT_KEYS.map((key) => (
+          <option key={key} value={key}>
+            {SORT_KEY_LABELS[key]}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => setQuery({ ...query, sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' })}
+        disabled={isLoading}
+        aria-label={sortDirection === 'asc' ? 'Sort descending' : 'Sort ascending'}
+        className="px-2 py-1 border border-gray-300 rounded-lg bg-white hover:bg-gray-100 disabled:text-gray-300 transition-colors"
+      >
+        {sortDirection === 'asc' ? '↑ Asc' : '↓ Desc'}
+      </button>
+    </div>
+  );
+}
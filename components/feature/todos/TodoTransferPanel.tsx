@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+import { useTodoTransfer } from '@/hooks/useTodoTransfer';
+import { useTodos } from '@/hooks/useTodos';
+import { useErrorToasts } from '@/hooks/useErrorToasts';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+import {
+  TODO_TRANSFER_FORMATS,
+  TodoTransferFormat,
+  TodoTransferService,
+} from '@/application/services/todo/todo-transfer.service';
+import { TodoImportAction } from '@/application/services/todo/out-dtos/todo-import.dto';
+import { FieldError } from '@/components/shared/FieldError';
+
+const FORMAT_LABELS: Record<TodoTransferFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown task list',
+  icalendar: 'iCalendar',
+};
+
+const ACTION_LABELS: Record<TodoImportAction, string> = {
+  create: 'Import',
+  skip: 'Skip',
+  error: 'Error',
+};
+
+const ACTION_CLASSES: Record<TodoImportAction, string> = {
+  create: 'bg-green-100 text-green-700',
+  skip: 'bg-gray-100 text-gray-600',
+  error: 'bg-red-100 text-red-700',
+};
+
+const buttonClassName =
+  'py-1 px-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm disabled:text-gray-300';
+
+/**
+ * Download the todos in a chosen format, and import a file after previewing
+ * what happens to each of its rows
+ * Committing creates todos, so the todo list is reloaded after
+ */
+export function TodoTransferPanel() {
+  const { preview, result, isWorking, downloadTodos, previewImport, commitImport, cancelImport } =
+    useTodoTransfer();
+  const { loadTodos } = useTodos();
+  const { showError } = useErrorToasts();
+  const [format, setFormat] = useState<TodoTransferFormat>('json');
+  const [fileErrors, setFileErrors] = useState<Record<string, string>>({});
+
+  const handleDownload = async () => {
+    try {
+      await downloadTodos(format);
+    } catch (error) {
+      showError(error, 'Failed to export todos');
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setFileErrors({});
+    if (!file) return;
+    try {
+      await previewImport(file);
+    } catch (error) {
+      const { fields } = ErrorMapper.toResponseDTO(error);
+      if (fields) {
+        setFileErrors(fields);
+      } else {
+        showError(error, 'Failed to read the file');
+      }
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      await commitImport();
+      await loadTodos();
+    } catch (error) {
+      showError(error, 'Failed to import todos');
+    }
+  };
+
+  const counts = (action: TodoImportAction) =>
+    preview?.rows.filter((row) => row.action === action).length ?? 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md space-y-4 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as TodoTransferFormat)}
+          aria-label="Export format"
+          className="px-3 py-1 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {TODO_TRANSFER_FORMATS.map((value) => (
+            <option key={value} value={value}>
+              {FORMAT_LABELS[value]}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={handleDownload} disabled={isWorking} className={buttonClassName}>
+          Download
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-gray-700">
+          Import from a file
+          <input
+            type="file"
+            accept={TODO_TRANSFER_FORMATS.map(TodoTransferService.extensionOf).join(',')}
+            // Cleared after each pick, so choosing the same file again previews it again
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+            disabled={isWorking}
+            className="mt-1 block w-full text-sm text-gray-600"
+          />
+        </label>
+        <FieldError fields={fileErrors} field="file" />
+      </div>
+
+      {preview && (
+        <div className="space-y-3">
+          <p className="text-gray-700">
+            {counts('create')} to import, {counts('skip')} already here, {counts('error')} with errors
+          </p>
+          {preview.rows.length > 0 && (
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-2 font-medium">Row</th>
+                    <th className="py-1 pr-2 font-medium">Todo</th>
+                    <th className="py-1 font-medium">Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.row} className="border-t border-gray-100 align-top">
+                      <td className="py-1 pr-2 text-gray-500">{row.row}</td>
+                      <td className="py-1 pr-2 text-gray-800">
+                        <span className={row.parentRow !== null || row.todo?.parentId ? 'pl-3' : ''}>
+                          {row.title || <em className="text-gray-400">Untitled</em>}
+                        </span>
+                        {row.messages.map((message) => (
+                          <p key={message} className="text-xs text-gray-500">
+                            {message}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="py-1">
+                        <span className={`px-2 py-0.5 rounded text-xs ${ACTION_CLASSES[row.action]}`}>
+                          {ACTION_LABELS[row.action]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={cancelImport} disabled={isWorking} className={buttonClassName}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isWorking || counts('create') === 0}
+              className="bg-blue-600 text-white py-1 px-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Import {counts('create')} todos
+            </button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-1" role="status">
+          <p className="text-gray-700">
+            Imported {result.created} todos, skipped {result.skipped}.
+          </p>
+          {result.failed.map((row) => (
+            <p key={`${row.row}:${row.messages.join()}`} className="text-xs text-red-600">
+              Row {row.row} ({row.title || 'Untitled'}): {row.messages.join(' ')}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
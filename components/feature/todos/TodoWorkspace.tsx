@@ -0,0 +1,112 @@
+'use client';
+
+import { ReactNode, Suspense } from 'react';
+import { INBOX_LIST_ID } from '@/domain/types/TodoQuery';
+import { useProjects } from '@/hooks/useProjects';
+import { useTodoSync } from '@/hooks/useTodoSync';
+import { ProjectSidebar } from '@/components/feature/projects/ProjectSidebar';
+import { TagManager } from '@/components/feature/tags/TagManager';
+import { ErrorToasts } from '@/components/shared/ErrorToasts';
+import { CreateTodoForm } from './CreateTodoForm';
+import { TodoList } from './TodoList';
+import { TodoHistoryControls } from './TodoHistoryControls';
+import { TrashView } from './TrashView';
+import { ArchiveView } from './ArchiveView';
+import { TodoBoard } from './TodoBoard';
+import { TodoCalendar } from './TodoCalendar';
+import { TodoAgenda } from './TodoAgenda';
+
+type TodoView = 'trash' | 'archive' | 'board' | 'calendar' | 'agenda';
+
+const VIEW_TITLES: Record<TodoView, string> = {
+  trash: 'Trash',
+  archive: 'Archive',
+  board: 'Board',
+  calendar: 'Calendar',
+  agenda: 'Agenda',
+};
+
+const VIEWS: Record<TodoView, ReactNode> = {
+  trash: <TrashView />,
+  archive: <ArchiveView />,
+  board: <TodoBoard />,
+  calendar: <TodoCalendar />,
+  agenda: <TodoAgenda />,
+};
+
+interface TodoWorkspaceProps {
+  // Route id of the list to show: a list id, 'inbox', or undefined for every list
+  listId?: string;
+  // Show another view of the todos instead of a list
+  view?: TodoView;
+  // Extra panels for the side column of the list view, such as import and export
+  children?: ReactNode;
+}
+
+/**
+ * Page shared by the home page, the list pages and the other todo views
+ */
+export function TodoWorkspace({ listId, view, children }: TodoWorkspaceProps) {
+  const { projects } = useProjects();
+  useTodoSync();
+  const projectId = listId === undefined ? undefined : listId === INBOX_LIST_ID ? null : listId;
+  const project = projects.find((p) => p.id === projectId);
+  const title =
+    projectId === undefined ? 'All todos' : projectId === null ? 'Inbox' : (project?.name ?? 'List');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4">
+      <div className="max-w-6xl mx-auto">
+        <header className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Todo List</h1>
+          <p className="text-gray-600">Built with Onion Architecture</p>
+        </header>
+
+        <div className="grid gap-8 md:grid-cols-[200px_1fr_1fr]">
+          <aside>
+            <ProjectSidebar activeListId={listId} activeView={view} />
+          </aside>
+
+          {view ? (
+            <div className="md:col-span-2">
+              <h2 className="text-2xl font-semibold text-gray-800 mb-4">{VIEW_TITLES[view]}</h2>
+              {VIEWS[view]}
+            </div>
+          ) : (
+            <>
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-800 mb-4">Create New Todo</h2>
+                {project?.isArchived() ? (
+                  <p className="text-sm text-gray-500">This list is archived. Unarchive it to add todos.</p>
+                ) : (
+                  <CreateTodoForm projectId={projectId ?? null} />
+                )}
+
+                <h2 className="text-2xl font-semibold text-gray-800 mt-8 mb-4">Tags</h2>
+                <TagManager />
+
+                {children}
+              </div>
+
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-800 mb-4">{title}</h2>
+                <TodoHistoryControls />
+                {/* TodoList reads its filter from the URL query string */}
+                <Suspense>
+                  <TodoList projectId={projectId} />
+                </Suspense>
+              </div>
+            </>
+          )}
+        </div>
+
+        <ErrorToasts />
+
+        <footer className="mt-12 text-center text-sm text-gray-600">
+          <p>Following DPP Frontend Architecture</p>
+          <p className="mt-1">Domain → Application → Infrastructure → Presentation</p>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Todo } from '@/domain/entities/Todo';
+import { useTrash } from '@/hooks/useTrash';
+import { config } from '@/config';
+import { formatDateTime } from '@/utils';
+
+/**
+ * Deleted todos: restore them or delete them for good
+ * Subtasks deleted along with their parent are listed under it and come back with it
+ */
+export function TrashView() {
+  const { trash, isLoading, error, loadTrash, restoreTodo, purgeTodo, emptyTrash } = useTrash();
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const trashedIds = new Set(trash.map((todo) => todo.id));
+  const items = trash.filter((todo) => !todo.parentId || !trashedIds.has(todo.parentId));
+  const subtaskCount = (todo: Todo) => trash.filter((t) => t.parentId === todo.id).length;
+
+  const handleRestore = async (todo: Todo) => {
+    try {
+      await restoreTodo(todo.id);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handlePurge = async (todo: Todo) => {
+    if (confirm(`Delete "${todo.title}" for good? This cannot be undone.`)) {
+      try {
+        await purgeTodo(todo.id);
+      } catch (error) {
+        // Error handled by hook
+      }
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (confirm('Delete everything in the trash for good? This cannot be undone.')) {
+      try {
+        await emptyTrash();
+      } catch (error) {
+        // Error handled by hook
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 text-sm text-gray-600">
+        <p>Todos in the trash are deleted for good after {config.todos.trashRetentionDays} days.</p>
+        <button
+          type="button"
+          onClick={handleEmpty}
+          disabled={isLoading || trash.length === 0}
+          className="px-3 py-1 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:text-gray-300 disabled:border-gray-200"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          <p className="font-semibold">Error:</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      {isLoading && trash.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <div className="animate-pulse">Loading trash...</div>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">The trash is empty.</div>
+      ) : (
+        <ul className="space-y-3">
+          {items.map((todo) => (
+            <li key={todo.id} className="bg-white p-4 rounded-lg shadow-md flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-gray-800 truncate">{todo.title}</h3>
+                <p className="text-xs text-gray-500">
+                  {todo.isSubtask() && 'Subtask · '}
+                  Deleted {formatDateTime(todo.deletedAt!)}
+                  {subtaskCount(todo) > 0 && ` · ${subtaskCount(todo)} subtasks`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRestore(todo)}
+                disabled={isLoading}
+                className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-100 disabled:text-gray-300"
+              >
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => handlePurge(todo)}
+                disabled={isLoading}
+                className="px-3 py-1 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:bg-gray-300"
+              >
+                Delete forever
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useCalendar } from '@/hooks/useCalendar';
+import { fromDateInputValue } from '@/utils';
+import { CalendarTodoChip, TodoDropZone } from './CalendarTodoChip';
+
+/**
+ * Open todos without a due date, beside the calendar and the agenda
+ * Drag one onto a day, or pick a date, to schedule it; drop a scheduled todo here to
+ * clear its due date
+ */
+export function UndatedTray() {
+  const { dated, undated, rescheduleTodo } = useCalendar();
+
+  const handleDrop = (todoId: string) => {
+    const todo = dated.find((t) => t.id === todoId);
+    if (todo) {
+      rescheduleTodo(todo, null);
+    }
+  };
+
+  return (
+    <aside aria-labelledby="undated-tray-title">
+      <TodoDropZone
+        onDropTodo={handleDrop}
+        className="bg-white p-4 rounded-lg shadow-md space-y-3"
+      >
+        <h3 id="undated-tray-title" className="font-semibold text-gray-800">
+          No due date ({undated.length})
+        </h3>
+        {undated.length === 0 ? (
+          <p className="text-sm text-gray-500">Every open todo is scheduled.</p>
+        ) : (
+          <ul className="space-y-2">
+            {undated.map((todo) => (
+              <li key={todo.id} className="space-y-1">
+                <CalendarTodoChip todo={todo} />
+                <input
+                  type="date"
+                  value=""
+                  onChange={(e) => {
+                    const day = fromDateInputValue(e.target.value);
+                    if (day) {
+                      rescheduleTodo(todo, day);
+                    }
+                  }}
+                  aria-label={`Schedule "${todo.title}"`}
+                  className="w-full px-2 py-0.5 border border-gray-300 rounded text-xs text-gray-600"
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="text-xs text-gray-400">Drop a scheduled todo here to clear its due date.</p>
+      </TodoDropZone>
+    </aside>
+  );
+}
@@ -1,2 +1,12 @@
 export { TodoList } from './TodoList';
 export { CreateTodoForm } from './CreateTodoForm';
+export { TodoSortControls } from './TodoSortControls';
+export { TodoFilterBar } from './TodoFilterBar';
+export { TodoWorkspace } from './TodoWorkspace';
+export { TodoHistoryControls } from './TodoHistoryControls';
+export { TrashView } from './TrashView';
+export { ArchiveView } from './ArchiveView';
+export { TodoTransferPanel } from './TodoTransferPanel';
+export { TodoBoard } from './TodoBoard';
+export { TodoCalendar } from './TodoCalendar';
+export { TodoAgenda } from './TodoAgenda';
@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect } from 'react';
+import { ErrorToast } from '@/application/store/ErrorToastStore';
+import { useErrorToasts } from '@/hooks/useErrorToasts';
+
+// How long an error toast stays up
+const TOAST_DURATION_MS = 6000;
+
+/**
+ * Stack of error toasts in the top right corner
+ */
+export function ErrorToasts() {
+  const { toasts, dismiss } = useErrorToasts();
+
+  return (
+    <div className="fixed top-4 right-4 z-50 flex w-80 flex-col gap-2" aria-live="assertive">
+      {toasts.map((toast) => (
+        <ErrorToastItem key={toast.id} toast={toast} onDismiss={dismiss} />
+      ))}
+    </div>
+  );
+}
+
+interface ErrorToastItemProps {
+  toast: ErrorToast;
+  onDismiss: (id: number) => void;
+}
+
+function ErrorToastItem({ toast, onDismiss }: ErrorToastItemProps) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, onDismiss]);
+
+  const fieldMessages = Object.values(toast.error.fields ?? {});
+
+  return (
+    <div
+      role="alert"
+      className="flex items-start gap-3 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg shadow-lg text-sm"
+    >
+      <div className="flex-1 min-w-0">
+        <p className="font-semibold">{toast.error.message}</p>
+        {fieldMessages.map((message) => (
+          <p key={message}>{message}</p>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onDismiss(toast.id)}
+        aria-label="Dismiss"
+        className="text-red-400 hover:text-red-700"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
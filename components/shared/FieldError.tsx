@@ -0,0 +1,45 @@
+interface FieldErrorProps {
+  // Field messages from a failed save, by field name
+  fields: Record<string, string>;
+  // The field and its nested fields: 'recurrence' covers 'recurrence.interval'
+  field: string;
+}
+
+// Messages for a field and its nested fields
+function messagesFor(fields: Record<string, string>, field: string): string[] {
+  return Object.entries(fields)
+    .filter(([name]) => name === field || name.startsWith(`${field}.`))
+    .map(([, message]) => message);
+}
+
+/**
+ * Validation message shown under a form field
+ */
+export function FieldError({ fields, field }: FieldErrorProps) {
+  const messages = messagesFor(fields, field);
+  if (messages.length === 0) return null;
+  return <p className="mt-1 text-xs text-red-600">{messages.join(' ')}</p>;
+}
+
+interface OtherFieldErrorsProps {
+  fields: Record<string, string>;
+  // Fields the form already shows next to their inputs
+  shown: string[];
+}
+
+/**
+ * Messages for fields the form has no input for, such as a list that was archived meanwhile
+ */
+export function OtherFieldErrors({ fields, shown }: OtherFieldErrorsProps) {
+  const others = Object.keys(fields).filter(
+    (name) => !shown.some((field) => name === field || name.startsWith(`${field}.`))
+  );
+  if (others.length === 0) return null;
+  return (
+    <div className="text-sm text-red-600">
+      {others.map((name) => (
+        <p key={name}>{fields[name]}</p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { RecurrenceDTO } from '@/application/services/todo/in-dtos/recurrence.dto';
+import { RECURRENCE_FREQUENCIES, RecurrenceFrequency } from '@domain/types/Recurrence';
+import { fromDateInputValue, toDateInputValue, WEEKDAY_LABELS } from '@/utils';
+
+type RecurrenceEnd = 'never' | 'until' | 'count';
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+const inputClassName =
+  'px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+interface RecurrencePickerProps {
+  // null when the todo does not repeat
+  value: RecurrenceDTO | null;
+  onChange: (value: RecurrenceDTO | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Choose how a todo repeats and when the series ends
+ * Weekdays and the day of the month default to the due date's when left out
+ */
+export function RecurrencePicker({ value, onChange, disabled = false }: RecurrencePickerProps) {
+  const [end, setEnd] = useState<RecurrenceEnd>(
+    value?.until ? 'until' : value?.count ? 'count' : 'never'
+  );
+
+  const update = (changes: Partial<RecurrenceDTO>) => onChange({ ...value!, ...changes });
+
+  const handleFrequency = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval ?? 1,
+      until: value?.until ?? null,
+      count: value?.count ?? null,
+    });
+  };
+
+  const handleEnd = (next: RecurrenceEnd) => {
+    setEnd(next);
+    update({ until: null, count: next === 'count' ? (value?.count ?? 10) : null });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.weekdays ?? [];
+    update({
+      weekdays: weekdays.includes(day)
+        ? weekdays.filter((d) => d !== day)
+        : [...weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="space-y-2 text-sm text-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value?.frequency ?? ''}
+          onChange={(e) => handleFrequency(e.target.value)}
+          aria-label="Repeat"
+          className={`${inputClassName} bg-white`}
+          disabled={disabled}
+        >
+          <option value="">Does not repeat</option>
+          {RECURRENCE_FREQUENCIES.map((frequency) => (
+            <option key={frequency} value={frequency}>
+              {FREQUENCY_LABELS[frequency]}
+            </option>
+          ))}
+        </select>
+        {value && (
+          <label className="flex items-center gap-2">
+            every
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className={`${inputClassName} w-16`}
+              disabled={disabled}
+            />
+            {INTERVAL_UNITS[value.frequency]}
+          </label>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Weekdays">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              aria-pressed={value.weekdays?.includes(day) ?? false}
+              disabled={disabled}
+              className={`px-2 py-1 rounded-lg border text-xs ${
+                value.weekdays?.includes(day)
+                  ? 'bg-blue-600 border-blue-600 text-white'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <label className="flex items-center gap-2">
+          on day
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.monthDay ?? ''}
+            placeholder="due day"
+            onChange={(e) =>
+              update({ monthDay: e.target.value ? Number(e.target.value) : undefined })
+            }
+            className={`${inputClassName} w-24`}
+            disabled={disabled}
+          />
+        </label>
+      )}
+
+      {value && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={end}
+            onChange={(e) => handleEnd(e.target.value as RecurrenceEnd)}
+            aria-label="Ends"
+            className={`${inputClassName} bg-white`}
+            disabled={disabled}
+          >
+            <option value="never">Never ends</option>
+            <option value="until">Ends on</option>
+            <option value="count">Ends after</option>
+          </select>
+          {end === 'until' && (
+            <input
+              type="date"
+              value={toDateInputValue(value.until ? new Date(value.until) : undefined)}
+              onChange={(e) =>
+                update({ until: fromDateInputValue(e.target.value, true)?.toISOString() ?? null })
+              }
+              aria-label="End date"
+              className={inputClassName}
+              disabled={disabled}
+            />
+          )}
+          {end === 'count' && (
+            <label className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={value.count ?? ''}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                className={`${inputClassName} w-20`}
+                disabled={disabled}
+              />
+              occurrences
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
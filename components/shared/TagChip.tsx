@@ -0,0 +1,30 @@
+import { Tag } from '@domain/entities/Tag';
+
+interface TagChipProps {
+  tag: Tag;
+  active?: boolean;
+  onClick?: () => void;
+}
+
+/**
+ * A tag rendered in its color; clickable when `onClick` is given
+ */
+export function TagChip({ tag, active = true, onClick }: TagChipProps) {
+  const style = active
+    ? { backgroundColor: tag.color, borderColor: tag.color, color: '#fff' }
+    : { borderColor: tag.color, color: tag.color };
+  const className = 'px-2 py-0.5 rounded-full border text-xs';
+
+  if (!onClick) {
+    return (
+      <span className={className} style={style}>
+        {tag.name}
+      </span>
+    );
+  }
+  return (
+    <button type="button" onClick={onClick} aria-pressed={active} className={className} style={style}>
+      {tag.name}
+    </button>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { useTags } from '@/hooks/useTags';
+import { TagChip } from './TagChip';
+
+interface TagPickerProps {
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Toggle existing tags on a todo, or create a new one by name
+ */
+export function TagPicker({ selectedIds, onChange, disabled = false }: TagPickerProps) {
+  const { tags, createTag, isLoading } = useTags();
+  const [newName, setNewName] = useState('');
+
+  const toggle = (tagId: string) => {
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter((id) => id !== tagId)
+        : [...selectedIds, tagId]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      const tag = await createTag({ name: newName });
+      onChange([...selectedIds, tag.id]);
+      setNewName('');
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              active={selectedIds.includes(tag.id)}
+              onClick={disabled ? undefined : () => toggle(tag.id)}
+            />
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder="New tag..."
+          aria-label="New tag name"
+          className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          disabled={disabled || isLoading}
+        />
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={disabled || isLoading || !newName.trim()}
+          className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-100 disabled:text-gray-300"
+        >
+          Add tag
+        </button>
+      </div>
+    </div>
+  );
+}
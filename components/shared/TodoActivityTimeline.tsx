@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect } from 'react';
+import { ACTIVITY_ACTION, ACTIVITY_ACTOR, ActivityActionType } from '@domain/enums';
+import { ActivityValue, TrackedTodoField } from '@domain/entities/ActivityEntry';
+import { useTodoActivity } from '@/hooks/useTodoActivity';
+import { useTags } from '@/hooks/useTags';
+import { useProjects } from '@/hooks/useProjects';
+import { FieldChangeDTO } from '@/application/services/todo/out-dtos/activity-entry-response.dto';
+import { RecurrenceDTO } from '@/application/services/todo/in-dtos/recurrence.dto';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { describeRecurrence, formatDateTime } from '@/utils';
+
+const ACTION_LABELS: Record<ActivityActionType, string> = {
+  [ACTIVITY_ACTION.CREATED]: 'Created',
+  [ACTIVITY_ACTION.UPDATED]: 'Edited',
+  [ACTIVITY_ACTION.STATUS_CHANGED]: 'Status changed',
+  [ACTIVITY_ACTION.DELETED]: 'Moved to the trash',
+  [ACTIVITY_ACTION.RESTORED]: 'Restored',
+};
+
+const FIELD_LABELS: Record<TrackedTodoField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  dueAt: 'Due',
+  remindAt: 'Reminder',
+  tagIds: 'Tags',
+  projectId: 'List',
+  parentId: 'Parent',
+  recurrence: 'Repeats',
+  archivedAt: 'Archived',
+};
+
+// Longer text is cut short in the timeline
+const MAX_TEXT_LENGTH = 60;
+
+interface TodoActivityTimelineProps {
+  todoId: string;
+  // Changes whenever the todo is saved, to reload the history
+  version: number;
+}
+
+/**
+ * Change history of a todo, newest first, with the before and after value of each field
+ */
+export function TodoActivityTimeline({ todoId, version }: TodoActivityTimelineProps) {
+  const { entries, isLoading, error, loadActivity } = useTodoActivity(todoId);
+  const { tags } = useTags();
+  const { projects } = useProjects();
+
+  useEffect(() => {
+    loadActivity();
+  }, [loadActivity, version]);
+
+  const describe = (field: TrackedTodoField, value: ActivityValue): string => {
+    if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      return field === 'projectId' ? 'Inbox' : 'none';
+    }
+    switch (field) {
+      case 'dueAt':
+      case 'remindAt':
+      case 'archivedAt':
+        return formatDateTime(new Date(value as string));
+      case 'tagIds':
+        return (value as string[])
+          .map((tagId) => tags.find((tag) => tag.id === tagId)?.name ?? 'deleted tag')
+          .join(', ');
+      case 'projectId':
+        return projects.find((project) => project.id === value)?.name ?? 'deleted list';
+      case 'parentId':
+        return 'a todo';
+      case 'recurrence':
+        return describeRecurrence(TodoMapper.toRecurrence(value as unknown as RecurrenceDTO));
+      case 'status':
+        return (value as string).replace('_', ' ');
+      default: {
+        const text = String(value);
+        return text.length > MAX_TEXT_LENGTH ? `"${text.slice(0, MAX_TEXT_LENGTH)}…"` : `"${text}"`;
+      }
+    }
+  };
+
+  const describeChange = ({ field, from, to }: FieldChangeDTO): string =>
+    `${FIELD_LABELS[field]}: ${describe(field, from)} → ${describe(field, to)}`;
+
+  if (error) {
+    return <p className="mt-2 text-xs text-red-600">{error}</p>;
+  }
+  if (isLoading && entries.length === 0) {
+    return <p className="mt-2 text-xs text-gray-500">Loading history…</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="mt-2 text-xs text-gray-500">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="mt-2 space-y-2 border-l-2 border-gray-200 pl-3 text-xs">
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <p className="text-gray-700">
+            <span className="font-medium">{ACTION_LABELS[entry.action]}</span>
+            {entry.actor === ACTIVITY_ACTOR.SYSTEM && ' automatically'}
+            <span className="text-gray-400"> · {formatDateTime(new Date(entry.occurredAt))}</span>
+          </p>
+          {entry.action !== ACTIVITY_ACTION.CREATED &&
+            entry.changes.map((change) => (
+              <p key={change.field} className="text-gray-500 break-words">
+                {describeChange(change)}
+              </p>
+            ))}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { Todo } from '@domain/entities/Todo';
+import { useTags } from '@/hooks/useTags';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { UpdateTodoDTO } from '@/application/services/todo/in-dtos/update-todo.dto';
+import { formatDateTime, fromDateTimeLocalValue, toDateTimeLocalValue } from '@/utils';
+
+// Fields the edit form saves, in the order the dialog lists them
+const MERGE_FIELDS = ['title', 'description', 'dueAt', 'remindAt', 'priority', 'tagIds'] as const;
+
+type MergeField = (typeof MERGE_FIELDS)[number];
+type MergeSide = 'local' | 'server';
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  dueAt: 'Due',
+  remindAt: 'Reminder',
+  priority: 'Priority',
+  tagIds: 'Tags',
+};
+
+const differs = (a: UpdateTodoDTO, b: UpdateTodoDTO, field: MergeField): boolean =>
+  JSON.stringify(a[field]) !== JSON.stringify(b[field]);
+
+/**
+ * The fields of a todo as the edit form holds them, dates to the minute
+ */
+export function editableFields(todo: Todo): UpdateTodoDTO {
+  return {
+    title: todo.title,
+    description: todo.description,
+    dueAt: fromDateTimeLocalValue(toDateTimeLocalValue(todo.dueAt)),
+    remindAt: fromDateTimeLocalValue(toDateTimeLocalValue(todo.remindAt)),
+    priority: todo.priority,
+    tagIds: todo.tagIds,
+  };
+}
+
+/**
+ * Three-way merge of an edit that hit a version conflict, against the fields it started from
+ * Fields the edit left alone take the server's value and fields only the edit changed keep
+ * it; fields both sides changed, to different values, are the conflicts left to the user
+ */
+export function mergeEdit(
+  base: UpdateTodoDTO,
+  local: UpdateTodoDTO,
+  server: Todo
+): { merged: UpdateTodoDTO; conflicts: MergeField[] } {
+  const current = editableFields(server);
+  const saved = TodoMapper.toUpdateDTO(server);
+  const merged: UpdateTodoDTO = { ...local, version: server.version };
+  const conflicts: MergeField[] = [];
+  for (const field of MERGE_FIELDS) {
+    if (local[field] === undefined) {
+      continue;
+    }
+    if (!differs(local, base, field)) {
+      Object.assign(merged, { [field]: saved[field] });
+    } else if (differs(base, current, field) && differs(local, current, field)) {
+      conflicts.push(field);
+    }
+  }
+  return { merged, conflicts };
+}
+
+interface TodoConflictDialogProps {
+  // The fields as they were when the edit began
+  base: UpdateTodoDTO;
+  // The edit that could not be saved
+  local: UpdateTodoDTO;
+  // The copy saved elsewhere since the edit began
+  server: Todo;
+  // Save the merged fields over the server's copy
+  onMerge: (merged: UpdateTodoDTO) => void;
+  // Drop the edit and keep the server's copy
+  onDiscard: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shows an edit that hit a version conflict next to the copy saved elsewhere,
+ * and lets the user pick a side for each field both of them changed
+ * Changes on either side to the other fields are kept as they are
+ */
+export function TodoConflictDialog({
+  base,
+  local,
+  server,
+  onMerge,
+  onDiscard,
+  onCancel,
+}: TodoConflictDialogProps) {
+  const { merged: autoMerged, conflicts: fields } = mergeEdit(base, local, server);
+  const saved = TodoMapper.toUpdateDTO(server);
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeSide>>>({});
+  const { tags } = useTags();
+
+  const describe = (field: MergeField, dto: UpdateTodoDTO): string => {
+    switch (field) {
+      case 'dueAt':
+      case 'remindAt':
+        return dto[field] ? formatDateTime(new Date(dto[field])) : 'None';
+      case 'tagIds':
+        return (
+          dto.tagIds
+            ?.map((tagId) => tags.find((tag) => tag.id === tagId)?.name ?? 'Unknown tag')
+            .join(', ') || 'None'
+        );
+      default:
+        return dto[field] || 'None';
+    }
+  };
+
+  const handleMerge = () => {
+    const merged: UpdateTodoDTO = { ...autoMerged };
+    for (const field of fields) {
+      if ((choices[field] ?? 'local') === 'server') {
+        Object.assign(merged, { [field]: saved[field] });
+      }
+    }
+    onMerge(merged);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={`conflict-${server.id}`}
+        className="w-full max-w-2xl space-y-4 rounded-lg bg-white p-6 shadow-xl"
+      >
+        <div>
+          <h2 id={`conflict-${server.id}`} className="text-lg font-semibold text-gray-800">
+            This todo was changed elsewhere
+          </h2>
+          <p className="text-sm text-gray-600">
+            Choose which value to keep for each field you both changed. Your other edits and
+            the other changes made elsewhere are kept.
+          </p>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-3 font-medium">Field</th>
+              <th className="py-1 pr-3 font-medium">Your edit</th>
+              <th className="py-1 font-medium">Saved elsewhere</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => (
+              <tr key={field} className="border-t border-gray-100 align-top">
+                <td className="py-2 pr-3 font-medium text-gray-700">{FIELD_LABELS[field]}</td>
+                {(['local', 'server'] as const).map((side) => (
+                  <td key={side} className="py-2 pr-3">
+                    <label className="flex items-start gap-2 text-gray-700">
+                      <input
+                        type="radio"
+                        name={`${server.id}-${field}`}
+                        checked={(choices[field] ?? 'local') === side}
+                        onChange={() => setChoices({ ...choices, [field]: side })}
+                        className="mt-1"
+                      />
+                      <span className="break-words">
+                        {describe(field, side === 'local' ? local : saved)}
+                      </span>
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="py-1 px-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm"
+          >
+            Back to editing
+          </button>
+          <button
+            type="button"
+            onClick={onDiscard}
+            className="py-1 px-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm"
+          >
+            Keep saved version
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            className="bg-blue-600 text-white py-1 px-3 rounded-lg hover:bg-blue-700 text-sm"
+          >
+            Save merged
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
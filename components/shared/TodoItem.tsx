@@ -2,17 +2,107 @@
 
 import { useState } from 'react';
 import { Todo } from '@domain/entities/Todo';
+import { TODO_PRIORITY, TODO_STATUS, TodoPriorityType, TodoStatusType } from '@domain/enums';
+import { VersionConflictError } from '@domain/errors';
 import { useTodos } from '@/hooks/useTodos';
+import { useTags } from '@/hooks/useTags';
+import { useProjects } from '@/hooks/useProjects';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+import { RecurrenceDTO } from '@/application/services/todo/in-dtos/recurrence.dto';
+import { UpdateTodoDTO } from '@/application/services/todo/in-dtos/update-todo.dto';
+import { TodoDTOValidator } from '@/application/services/todo/validators/todo-dto.validator';
+import {
+  describeRecurrence,
+  formatDateTime,
+  fromDateTimeLocalValue,
+  requestNotificationPermission,
+  toDateTimeLocalValue,
+} from '@/utils';
+import { TagChip } from './TagChip';
+import { TagPicker } from './TagPicker';
+import { RecurrencePicker } from './RecurrencePicker';
+import { FieldError, OtherFieldErrors } from './FieldError';
+import { editableFields, mergeEdit, TodoConflictDialog } from './TodoConflictDialog';
+import { TodoActivityTimeline } from './TodoActivityTimeline';
+
+const STATUS_BADGE_CLASSES: Record<TodoStatusType, string> = {
+  [TODO_STATUS.PENDING]: 'bg-yellow-100 text-yellow-700',
+  [TODO_STATUS.IN_PROGRESS]: 'bg-blue-100 text-blue-700',
+  [TODO_STATUS.COMPLETED]: 'bg-green-100 text-green-700',
+  [TODO_STATUS.CANCELLED]: 'bg-gray-100 text-gray-600',
+};
+
+const PRIORITY_BADGE_CLASSES: Record<TodoPriorityType, string> = {
+  [TODO_PRIORITY.LOW]: 'bg-slate-100 text-slate-600',
+  [TODO_PRIORITY.MEDIUM]: 'bg-indigo-100 text-indigo-700',
+  [TODO_PRIORITY.HIGH]: 'bg-orange-100 text-orange-700',
+  [TODO_PRIORITY.URGENT]: 'bg-red-100 text-red-700',
+};
 
 interface TodoItemProps {
   todo: Todo;
+  // Subtasks of a top-level todo, for progress and the completion rule
+  subtasks?: Todo[];
+  // Whether the subtasks are shown below; omitted for subtasks themselves
+  expanded?: boolean;
+  onToggleExpand?: () => void;
 }
 
-export function TodoItem({ todo }: TodoItemProps) {
+export function TodoItem({ todo, subtasks = [], expanded = false, onToggleExpand }: TodoItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(todo.title);
   const [editDescription, setEditDescription] = useState(todo.description);
-  const { updateTodo, deleteTodo, toggleTodoStatus, isLoading } = useTodos();
+  const [editDueAt, setEditDueAt] = useState(toDateTimeLocalValue(todo.dueAt));
+  const [editRemindAt, setEditRemindAt] = useState(toDateTimeLocalValue(todo.remindAt));
+  const [editPriority, setEditPriority] = useState<TodoPriorityType>(todo.priority);
+  const [editTagIds, setEditTagIds] = useState<string[]>(todo.tagIds);
+  const currentRecurrence = todo.recurrence ? TodoMapper.toRecurrenceDTO(todo.recurrence) : null;
+  const [editRecurrence, setEditRecurrence] = useState<RecurrenceDTO | null>(currentRecurrence);
+  // Version the edit is based on; saving fails if the todo has changed since
+  const [editVersion, setEditVersion] = useState(todo.version);
+  // Fields at that version, to tell the user's edits from changes made elsewhere
+  const [editBase, setEditBase] = useState<UpdateTodoDTO>(() => editableFields(todo));
+  // Messages from the last failed save, by field
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Edit that hit a version conflict, next to the copy saved elsewhere
+  const [conflict, setConflict] = useState<{
+    base: UpdateTodoDTO;
+    local: UpdateTodoDTO;
+    server: Todo;
+  } | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const { tags } = useTags();
+  const { projects } = useProjects();
+  const {
+    updateTodo,
+    deleteTodo,
+    archiveTodo,
+    moveToProject,
+    toggleTodoStatus,
+    transitionStatus,
+    completeWithSubtasks,
+    updateSeries,
+    refreshTodo,
+    isPending,
+  } = useTodos();
+  // Only this todo waits for its own changes; the rest of the list stays usable
+  const isBusy = isPending(todo.id);
+  const isClosed = todo.isCompleted() || todo.isCancelled();
+  const todoTags = tags.filter((tag) => todo.hasTag(tag.id));
+  const progress = todo.subtaskProgress(subtasks);
+  const openSubtaskCount = todo.openSubtasks(subtasks).length;
+  // Archived lists take no new todos, but stay selectable for the one a todo is already in
+  const movableProjects = projects.filter(
+    (project) => !project.isArchived() || project.id === todo.projectId
+  );
+
+  const transitions = [
+    { label: 'Start', target: TODO_STATUS.IN_PROGRESS, allowed: todo.canBeStarted() },
+    { label: 'Complete', target: TODO_STATUS.COMPLETED, allowed: todo.canBeCompleted(subtasks) },
+    { label: 'Reopen', target: TODO_STATUS.PENDING, allowed: todo.canBeReopened() },
+    { label: 'Cancel', target: TODO_STATUS.CANCELLED, allowed: todo.canBeCancelled() },
+  ].filter((transition) => transition.allowed);
 
   const handleToggle = async () => {
     try {
@@ -22,8 +112,40 @@ export function TodoItem({ todo }: TodoItemProps) {
     }
   };
 
+  const handleTransition = async (target: TodoStatusType) => {
+    try {
+      await transitionStatus(todo.id, target);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handleCompleteAll = async () => {
+    try {
+      await completeWithSubtasks(todo.id);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handleMove = async (projectId: string | null) => {
+    try {
+      await moveToProject(todo.id, projectId);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
+  const handleArchive = async () => {
+    try {
+      await archiveTodo(todo.id);
+    } catch (error) {
+      // Error handled by hook
+    }
+  };
+
   const handleDelete = async () => {
-    if (confirm('Are you sure you want to delete this todo?')) {
+    if (confirm('Move this todo to the trash?')) {
       try {
         await deleteTodo(todo.id);
       } catch (error) {
@@ -32,22 +154,131 @@ export function TodoItem({ todo }: TodoItemProps) {
     }
   };
 
-  const handleSave = async () => {
-    try {
-      await updateTodo({
-        id: todo.id,
+  const handleStopSeries = async () => {
+    if (confirm('Stop repeating? This todo stays, but no further occurrences are created.')) {
+      try {
+        await updateSeries(todo.id, null);
+        setEditRecurrence(null);
+      } catch (error) {
+        // Error handled by hook
+      }
+    }
+  };
+
+  // Same rules the server applies, checked while editing
+  const liveErrors = isEditing
+    ? TodoDTOValidator.updateTodoErrors({
         title: editTitle,
         description: editDescription,
-      });
+        dueAt: fromDateTimeLocalValue(editDueAt),
+        remindAt: fromDateTimeLocalValue(editRemindAt),
+        tagIds: editTagIds,
+        recurrence: editRecurrence,
+      })
+    : {};
+  const editErrors = { ...fieldErrors, ...liveErrors };
+  const canSave = Object.keys(liveErrors).length === 0;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    return save({
+      title: editTitle,
+      description: editDescription,
+      dueAt: fromDateTimeLocalValue(editDueAt),
+      remindAt: fromDateTimeLocalValue(editRemindAt),
+      priority: editPriority,
+      tagIds: editTagIds,
+      version: editVersion,
+    });
+  };
+
+  const save = async (dto: UpdateTodoDTO, base: UpdateTodoDTO = editBase) => {
+    setFieldErrors({});
+    try {
+      if (dto.remindAt) {
+        requestNotificationPermission();
+      }
+      await updateTodo(todo.id, dto);
+      // A schedule change applies to every open occurrence of the series
+      if (JSON.stringify(editRecurrence) !== JSON.stringify(currentRecurrence)) {
+        await updateSeries(todo.id, editRecurrence);
+      }
       setIsEditing(false);
     } catch (error) {
-      // Error handled by hook
+      if (error instanceof VersionConflictError) {
+        await resolveConflict(dto, base);
+        return;
+      }
+      // Other errors are shown by the hook
+      setFieldErrors(ErrorMapper.toFieldErrors(error));
+    }
+  };
+
+  // The todo changed elsewhere since editing began: ask only when both sides changed a field
+  const resolveConflict = async (dto: UpdateTodoDTO, base: UpdateTodoDTO) => {
+    try {
+      const server = await refreshTodo(todo.id);
+      if (!server) {
+        setIsEditing(false);
+        return;
+      }
+      const { merged, conflicts } = mergeEdit(base, dto, server);
+      if (conflicts.length === 0) {
+        await saveMerged(merged, server);
+      } else {
+        setConflict({ base, local: dto, server });
+      }
+    } catch (error) {
+      setFieldErrors(ErrorMapper.toFieldErrors(error));
     }
   };
 
+  const handleMerge = (merged: UpdateTodoDTO) => {
+    setConflict(null);
+    return saveMerged(merged, conflict!.server);
+  };
+
+  // The merge is based on the server's copy, which becomes the edit's new starting point
+  const saveMerged = (merged: UpdateTodoDTO, server: Todo) => {
+    const base = editableFields(server);
+    setEditBase(base);
+    setEditTitle(merged.title ?? '');
+    setEditDescription(merged.description ?? '');
+    setEditDueAt(toDateTimeLocalValue(merged.dueAt ? new Date(merged.dueAt) : null));
+    setEditRemindAt(toDateTimeLocalValue(merged.remindAt ? new Date(merged.remindAt) : null));
+    setEditPriority(merged.priority ?? todo.priority);
+    setEditTagIds(merged.tagIds ?? []);
+    setEditVersion(merged.version ?? todo.version);
+    return save(merged, base);
+  };
+
+  const handleDiscard = () => {
+    setConflict(null);
+    fillEditForm(conflict!.server);
+    setIsEditing(false);
+  };
+
+  // Start from the todo as it is now, so the edit is based on its current version
+  const fillEditForm = (source: Todo) => {
+    setFieldErrors({});
+    setEditTitle(source.title);
+    setEditDescription(source.description);
+    setEditDueAt(toDateTimeLocalValue(source.dueAt));
+    setEditRemindAt(toDateTimeLocalValue(source.remindAt));
+    setEditPriority(source.priority);
+    setEditTagIds(source.tagIds);
+    setEditRecurrence(source.recurrence ? TodoMapper.toRecurrenceDTO(source.recurrence) : null);
+    setEditVersion(source.version);
+    setEditBase(editableFields(source));
+  };
+
+  const handleEdit = () => {
+    fillEditForm(todo);
+    setIsEditing(true);
+  };
+
   const handleCancel = () => {
-    setEditTitle(todo.title);
-    setEditDescription(todo.description);
+    fillEditForm(todo);
     setIsEditing(false);
   };
 
@@ -60,31 +291,93 @@ export function TodoItem({ todo }: TodoItemProps) {
             value={editTitle}
             onChange={(e) => setEditTitle(e.target.value)}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            disabled={isLoading}
+            disabled={isBusy}
           />
+          <FieldError fields={editErrors} field="title" />
           <textarea
             value={editDescription}
             onChange={(e) => setEditDescription(e.target.value)}
             rows={2}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            disabled={isLoading}
+            disabled={isBusy}
+          />
+          <FieldError fields={editErrors} field="description" />
+          <select
+            value={editPriority}
+            onChange={(e) => setEditPriority(e.target.value as TodoPriorityType)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={isBusy}
+          >
+            {Object.values(TODO_PRIORITY).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className="text-xs text-gray-600">
+              Due
+              <input
+                type="datetime-local"
+                value={editDueAt}
+                onChange={(e) => setEditDueAt(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isBusy}
+              />
+              <FieldError fields={editErrors} field="dueAt" />
+            </label>
+            <label className="text-xs text-gray-600">
+              Remind me
+              <input
+                type="datetime-local"
+                value={editRemindAt}
+                onChange={(e) => setEditRemindAt(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isBusy}
+              />
+              <FieldError fields={editErrors} field="remindAt" />
+            </label>
+          </div>
+          <TagPicker selectedIds={editTagIds} onChange={setEditTagIds} disabled={isBusy} />
+          <FieldError fields={editErrors} field="tagIds" />
+          {!todo.isSubtask() && (
+            <RecurrencePicker
+              value={editRecurrence}
+              onChange={setEditRecurrence}
+              disabled={isBusy}
+            />
+          )}
+          <FieldError fields={editErrors} field="recurrence" />
+          <OtherFieldErrors
+            fields={editErrors}
+            shown={['title', 'description', 'dueAt', 'remindAt', 'tagIds', 'recurrence']}
           />
           <div className="flex gap-2">
             <button
               onClick={handleSave}
-              disabled={isLoading || !editTitle.trim()}
+              disabled={isBusy || !canSave}
               className="flex-1 bg-green-600 text-white py-1 px-3 rounded-lg hover:bg-green-700 disabled:bg-gray-300 transition-colors"
             >
               Save
             </button>
             <button
               onClick={handleCancel}
-              disabled={isLoading}
+              disabled={isBusy}
               className="flex-1 bg-gray-600 text-white py-1 px-3 rounded-lg hover:bg-gray-700 disabled:bg-gray-300 transition-colors"
             >
               Cancel
             </button>
           </div>
+          {conflict && (
+            <TodoConflictDialog
+              base={conflict.base}
+              local={conflict.local}
+              server={conflict.server}
+              onMerge={handleMerge}
+              onDiscard={handleDiscard}
+              onCancel={() => setConflict(null)}
+            />
+          )}
         </div>
       ) : (
         <>
@@ -93,13 +386,16 @@ export function TodoItem({ todo }: TodoItemProps) {
               type="checkbox"
               checked={todo.isCompleted()}
               onChange={handleToggle}
-              disabled={isLoading}
+              disabled={
+                isBusy || todo.isCancelled() || (!todo.isCompleted() && openSubtaskCount > 0)
+              }
+              title={openSubtaskCount > 0 ? 'Finish the subtasks first' : undefined}
               className="mt-1 w-5 h-5 text-blue-600 rounded focus:ring-2 focus:ring-blue-500"
             />
             <div className="flex-1">
               <h3
                 className={`text-lg font-semibold ${
-                  todo.isCompleted() ? 'line-through text-gray-400' : 'text-gray-800'
+                  isClosed ? 'line-through text-gray-400' : 'text-gray-800'
                 }`}
               >
                 {todo.title}
@@ -107,35 +403,154 @@ export function TodoItem({ todo }: TodoItemProps) {
               {todo.description && (
                 <p
                   className={`text-sm mt-1 ${
-                    todo.isCompleted() ? 'line-through text-gray-400' : 'text-gray-600'
+                    isClosed ? 'line-through text-gray-400' : 'text-gray-600'
                   }`}
                 >
                   {todo.description}
                 </p>
               )}
               <div className="flex items-center gap-2 mt-2 text-xs text-gray-500">
-                <span className={`px-2 py-1 rounded-full ${
-                  todo.isCompleted()
-                    ? 'bg-green-100 text-green-700'
-                    : 'bg-yellow-100 text-yellow-700'
-                }`}>
+                <span className={`px-2 py-1 rounded-full ${STATUS_BADGE_CLASSES[todo.status]}`}>
                   {todo.status}
                 </span>
+                <span className={`px-2 py-1 rounded-full ${PRIORITY_BADGE_CLASSES[todo.priority]}`}>
+                  {todo.priority}
+                </span>
                 <span>Created: {todo.createdAt.toLocaleDateString()}</span>
+                {todo.dueAt && (
+                  <span className={todo.isOverdue() ? 'text-red-600 font-semibold' : undefined}>
+                    Due: {formatDateTime(todo.dueAt)}
+                  </span>
+                )}
+                {todo.hasPendingReminder() && (
+                  <span>Reminder: {formatDateTime(todo.remindAt!)}</span>
+                )}
               </div>
+              {todo.recurrence && (
+                <div className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                  <span title={`Occurrence ${todo.occurrence}`}>
+                    ↻ {describeRecurrence(todo.recurrence)}
+                  </span>
+                  {todo.isOpen() && (
+                    <button
+                      type="button"
+                      onClick={handleStopSeries}
+                      disabled={isBusy}
+                      className="text-gray-500 hover:text-red-600 disabled:text-gray-300"
+                    >
+                      Stop repeating
+                    </button>
+                  )}
+                </div>
+              )}
+              {subtasks.length === 0 && onToggleExpand && todo.isOpen() && (
+                <button
+                  type="button"
+                  onClick={onToggleExpand}
+                  aria-expanded={expanded}
+                  className="mt-2 text-xs text-gray-500 hover:text-gray-900"
+                >
+                  {expanded ? '▾ Hide subtasks' : '+ Add subtasks'}
+                </button>
+              )}
+              {subtasks.length > 0 && (
+                <button
+                  type="button"
+                  onClick={onToggleExpand}
+                  aria-expanded={expanded}
+                  className="flex items-center gap-2 mt-2 w-full text-xs text-gray-600 hover:text-gray-900"
+                >
+                  <span>{expanded ? '▾' : '▸'}</span>
+                  <span>
+                    Subtasks {progress.completed}/{progress.total}
+                  </span>
+                  <span className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                    <span
+                      className="block h-full bg-green-500"
+                      style={{
+                        width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%`,
+                      }}
+                    />
+                  </span>
+                </button>
+              )}
+              {todoTags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {todoTags.map((tag) => (
+                    <TagChip key={tag.id} tag={tag} />
+                  ))}
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={() => setShowHistory(!showHistory)}
+                aria-expanded={showHistory}
+                className="mt-2 text-xs text-gray-500 hover:text-gray-900"
+              >
+                {showHistory ? '▾ Hide history' : '▸ History'}
+              </button>
+              {showHistory && <TodoActivityTimeline todoId={todo.id} version={todo.version} />}
             </div>
           </div>
+          {transitions.length > 0 && (
+            <div className="flex gap-2 mt-3">
+              {openSubtaskCount > 0 && todo.canTransitionTo(TODO_STATUS.COMPLETED) && (
+                <button
+                  onClick={handleCompleteAll}
+                  disabled={isBusy}
+                  className="flex-1 border border-green-300 text-green-700 py-1 px-3 rounded-lg hover:bg-green-50 disabled:text-gray-300 transition-colors text-sm"
+                >
+                  Complete all
+                </button>
+              )}
+              {transitions.map((transition) => (
+                <button
+                  key={transition.target}
+                  onClick={() => handleTransition(transition.target)}
+                  disabled={isBusy}
+                  className="flex-1 border border-gray-300 text-gray-700 py-1 px-3 rounded-lg hover:bg-gray-100 disabled:text-gray-300 transition-colors text-sm"
+                >
+                  {transition.label}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="flex gap-2 mt-3">
+            {!todo.isSubtask() && (
+              <select
+                value={todo.projectId ?? ''}
+                onChange={(e) => handleMove(e.target.value || null)}
+                aria-label="Move to list"
+                disabled={isBusy}
+                className="flex-1 min-w-0 border border-gray-300 rounded-lg bg-white px-2 py-1 text-sm text-gray-700"
+              >
+                <option value="">Inbox</option>
+                {movableProjects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            )}
             <button
-              onClick={() => setIsEditing(true)}
-              disabled={isLoading}
+              onClick={handleEdit}
+              disabled={isBusy}
               className="flex-1 bg-blue-600 text-white py-1 px-3 rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors text-sm"
             >
               Edit
             </button>
+            {!todo.isSubtask() && todo.canBeArchived() && (
+              <button
+                onClick={handleArchive}
+                disabled={isBusy}
+                className="flex-1 border border-gray-300 text-gray-700 py-1 px-3 rounded-lg hover:bg-gray-100 disabled:text-gray-300 transition-colors text-sm"
+              >
+                Archive
+              </button>
+            )}
             <button
               onClick={handleDelete}
-              disabled={isLoading}
+              disabled={isBusy}
               className="flex-1 bg-red-600 text-white py-1 px-3 rounded-lg hover:bg-red-700 disabled:bg-gray-300 transition-colors text-sm"
             >
               Delete
@@ -1 +1,8 @@
 export { TodoItem } from './TodoItem';
+export { TagChip } from './TagChip';
+export { TagPicker } from './TagPicker';
+export { RecurrencePicker } from './RecurrencePicker';
+export { ErrorToasts } from './ErrorToasts';
+export { FieldError, OtherFieldErrors } from './FieldError';
+export { TodoConflictDialog } from './TodoConflictDialog';
+export { TodoActivityTimeline } from './TodoActivityTimeline';
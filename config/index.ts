@@ -3,11 +3,57 @@
  * Add your app-level configuration here
  */
 
+import type { TodoStatusType } from '@/domain/enums';
+
+export type TodoRepositoryDriver = 'memory' | 'file';
+export type TodoClientStorage = 'http' | 'indexeddb' | 'offline';
+
 export const config = {
   app: {
     name: 'Todo List',
     description: 'Built with Onion Architecture',
   },
+  todos: {
+    // Storage driver for todos on the server: 'memory' or 'file'
+    repository: (process.env.TODO_REPOSITORY ?? 'file') as TodoRepositoryDriver,
+    // JSON file used by the 'file' driver, relative to the working directory
+    dataFile: process.env.TODO_DATA_FILE ?? 'data/todos.json',
+    // Storage used by the browser: the REST API, IndexedDB only,
+    // or 'offline' - the REST API with IndexedDB as fallback
+    clientStorage: (process.env.NEXT_PUBLIC_TODO_CLIENT_STORAGE ?? 'offline') as TodoClientStorage,
+    // Todos fetched per page in the list
+    pageSize: 20,
+    // Days a deleted todo stays in the trash before it is purged for good
+    // Public so the browser and the server purge on the same schedule
+    trashRetentionDays: Number(process.env.NEXT_PUBLIC_TODO_TRASH_RETENTION_DAYS ?? 30),
+  },
+  tags: {
+    // JSON file for tags when todos use the 'file' driver
+    dataFile: process.env.TAG_DATA_FILE ?? 'data/tags.json',
+  },
+  projects: {
+    // JSON file for todo lists when todos use the 'file' driver
+    dataFile: process.env.PROJECT_DATA_FILE ?? 'data/projects.json',
+  },
+  activity: {
+    // JSON file for todo history when todos use the 'file' driver
+    dataFile: process.env.ACTIVITY_DATA_FILE ?? 'data/activity.json',
+  },
+  board: {
+    // Most todos a board column holds before it takes no more; null for no limit
+    // Public so the board checks them in the browser
+    wipLimits: {
+      pending: null,
+      in_progress: Number(process.env.NEXT_PUBLIC_BOARD_WIP_IN_PROGRESS ?? 3),
+      completed: null,
+      cancelled: null,
+    } as Record<TodoStatusType, number | null>,
+  },
+  api: {
+    // Base URL of the todo REST API used by the browser
+    baseUrl: process.env.NEXT_PUBLIC_API_BASE_URL ?? '/api',
+    requestTimeoutMs: 10000,
+  },
   // Add more configuration as needed
 };
 
@@ -0,0 +1,82 @@
+import { ActivityActionType, ActivityActorType } from '@domain/enums';
+import { Todo } from '@domain/entities/Todo';
+
+// A field value as it is stored: dates become ISO strings
+export type ActivityValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ActivityValue[]
+  | { [key: string]: ActivityValue };
+
+// Todo fields whose changes are logged, in display order
+export const TRACKED_TODO_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueAt',
+  'remindAt',
+  'tagIds',
+  'projectId',
+  'parentId',
+  'recurrence',
+  'archivedAt',
+] as const;
+
+export type TrackedTodoField = (typeof TRACKED_TODO_FIELDS)[number];
+
+export interface FieldChange {
+  field: TrackedTodoField;
+  from: ActivityValue;
+  to: ActivityValue;
+}
+
+function toActivityValue(value: unknown): ActivityValue {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toActivityValue);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, toActivityValue(entry)])
+    );
+  }
+  return (value ?? null) as ActivityValue;
+}
+
+/**
+ * One change in a todo's history
+ */
+export class ActivityEntry {
+  constructor(
+    public id: string,
+    public todoId: string,
+    public action: ActivityActionType,
+    // Fields the change touched, with their values before and after
+    public changes: FieldChange[],
+    public occurredAt: Date,
+    public actor: ActivityActorType
+  ) {}
+
+  /**
+   * The tracked fields that differ between two copies of a todo
+   * Without a copy before, every field that is set counts as changed
+   */
+  static changesBetween(before: Todo | null, after: Todo): FieldChange[] {
+    return TRACKED_TODO_FIELDS.flatMap((field) => {
+      const from = before ? toActivityValue(before[field]) : null;
+      const to = toActivityValue(after[field]);
+      const unset = to === null || to === '' || (Array.isArray(to) && to.length === 0);
+      if (JSON.stringify(from) === JSON.stringify(to) || (!before && unset)) {
+        return [];
+      }
+      return [{ field, from, to }];
+    });
+  }
+}
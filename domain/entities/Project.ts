@@ -0,0 +1,50 @@
+import { ValidationError } from '@domain/errors';
+
+/**
+ * A named list that owns todos
+ * Todos without a project live in the Inbox
+ */
+export class Project {
+  constructor(
+    public id: string,
+    public name: string,
+    public position: number,
+    public createdAt: Date,
+    public updatedAt: Date,
+    public archivedAt: Date | null = null
+  ) {}
+
+  // Pure business logic - no dependencies
+  rename(newName: string): void {
+    if (newName.trim().length === 0) {
+      throw new ValidationError('List name cannot be empty', { name: 'Name is required' });
+    }
+    this.name = newName.trim();
+    this.updatedAt = new Date();
+  }
+
+  moveTo(position: number): void {
+    this.position = position;
+    this.updatedAt = new Date();
+  }
+
+  archive(): void {
+    if (this.isArchived()) return;
+    this.archivedAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  unarchive(): void {
+    if (!this.isArchived()) return;
+    this.archivedAt = null;
+    this.updatedAt = new Date();
+  }
+
+  isArchived(): boolean {
+    return this.archivedAt !== null;
+  }
+
+  hasName(name: string): boolean {
+    return this.name.toLocaleLowerCase() === name.trim().toLocaleLowerCase();
+  }
+}
@@ -0,0 +1,30 @@
+import { ValidationError } from '@domain/errors';
+
+export class Tag {
+  constructor(
+    public id: string,
+    public name: string,
+    public color: string,
+    public createdAt: Date,
+    public updatedAt: Date
+  ) {}
+
+  // Pure business logic - no dependencies
+  rename(newName: string): void {
+    if (newName.trim().length === 0) {
+      throw new ValidationError('Tag name cannot be empty', { name: 'Name is required' });
+    }
+    this.name = newName.trim();
+    this.updatedAt = new Date();
+  }
+
+  updateColor(color: string): void {
+    this.color = color;
+    this.updatedAt = new Date();
+  }
+
+  // Tag names are unique regardless of case
+  hasName(name: string): boolean {
+    return this.name.toLocaleLowerCase() === name.trim().toLocaleLowerCase();
+  }
+}
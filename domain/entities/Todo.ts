@@ -1,46 +1,159 @@
 import { TodoStatus, TODO_STATUS } from '@domain/types/TodoStatus';
+import { InvalidTransitionError, OpenSubtasksError, ValidationError } from '@domain/errors';
+import { TODO_PRIORITY, TodoPriorityType } from '@domain/enums';
+import { assertValidRecurrence, nextOccurrenceDate, Recurrence } from '@domain/types/Recurrence';
+import { initialTodoPosition, isValidPosition } from '@domain/types/Position';
+import {
+  DomainEvent,
+  TodoCompleted,
+  TodoCreated,
+  TodoDeleted,
+  TodoRenamed,
+  TodoReopened,
+} from '@domain/events';
+
+// Allowed status transitions - the Todo state machine
+const TODO_STATUS_TRANSITIONS: Record<TodoStatus, readonly TodoStatus[]> = {
+  [TODO_STATUS.PENDING]: [TODO_STATUS.IN_PROGRESS, TODO_STATUS.COMPLETED, TODO_STATUS.CANCELLED],
+  [TODO_STATUS.IN_PROGRESS]: [TODO_STATUS.COMPLETED, TODO_STATUS.CANCELLED],
+  [TODO_STATUS.COMPLETED]: [TODO_STATUS.PENDING],
+  [TODO_STATUS.CANCELLED]: [TODO_STATUS.PENDING],
+};
 
 export class Todo {
+  // Events recorded since they were last pulled for dispatch
+  private recordedEvents: DomainEvent[] = [];
+
   constructor(
     public id: string,
     public title: string,
     public description: string,
     public status: TodoStatus,
     public createdAt: Date,
-    public updatedAt: Date
+    public updatedAt: Date,
+    public dueAt: Date | null = null,
+    public remindAt: Date | null = null,
+    public priority: TodoPriorityType = TODO_PRIORITY.MEDIUM,
+    public tagIds: string[] = [],
+    // Owning list; null for the Inbox
+    public projectId: string | null = null,
+    // Parent todo for a subtask; null for a top-level todo
+    public parentId: string | null = null,
+    // Schedule the next occurrence follows once this one is completed
+    public recurrence: Recurrence | null = null,
+    // First todo of the recurring series; null when this todo starts it
+    public seriesId: string | null = null,
+    // 1-based position within the series
+    public occurrence: number = 1,
+    // Set while the todo is soft-deleted; repositories hide it until restored
+    public deletedAt: Date | null = null,
+    // Set once a completed todo is archived out of the lists
+    public archivedAt: Date | null = null,
+    // Bumped by the repository on every saved update; saves from an older version are rejected
+    public version: number = 1,
+    // Sort key of the manual order; see domain/types/Position
+    public position: string = initialTodoPosition(createdAt),
+    // Id the todo had in the file it was imported from, so importing the file again skips it
+    public importedFrom: string | null = null
   ) {}
 
   // Pure business logic - no dependencies
-  canBeCompleted(): boolean {
-    return this.status === TODO_STATUS.PENDING && this.title.trim().length > 0;
+  canTransitionTo(target: TodoStatus): boolean {
+    return TODO_STATUS_TRANSITIONS[this.status].includes(target);
   }
 
-  canBeUncompleted(): boolean {
-    return this.status === TODO_STATUS.COMPLETED;
+  canBeStarted(): boolean {
+    return this.canTransitionTo(TODO_STATUS.IN_PROGRESS);
+  }
+
+  // A parent can only be completed once none of its subtasks are open
+  canBeCompleted(subtasks: Todo[] = []): boolean {
+    return (
+      this.canTransitionTo(TODO_STATUS.COMPLETED) &&
+      this.title.trim().length > 0 &&
+      this.openSubtasks(subtasks).length === 0
+    );
+  }
+
+  canBeReopened(): boolean {
+    return this.canTransitionTo(TODO_STATUS.PENDING);
   }
 
-  complete(): void {
+  canBeCancelled(): boolean {
+    return this.canTransitionTo(TODO_STATUS.CANCELLED);
+  }
+
+  start(): void {
+    if (!this.canBeStarted()) {
+      throw new InvalidTransitionError(this.status, TODO_STATUS.IN_PROGRESS);
+    }
+    this.setStatus(TODO_STATUS.IN_PROGRESS);
+  }
+
+  complete(subtasks: Todo[] = []): void {
+    const open = this.openSubtasks(subtasks);
+    if (open.length > 0) {
+      throw new OpenSubtasksError(this.id, open.map((subtask) => subtask.id));
+    }
     if (!this.canBeCompleted()) {
-      throw new Error('Todo cannot be completed');
+      throw new InvalidTransitionError(this.status, TODO_STATUS.COMPLETED);
     }
-    this.status = TODO_STATUS.COMPLETED;
-    this.updatedAt = new Date();
+    this.setStatus(TODO_STATUS.COMPLETED);
+    this.record(new TodoCompleted(this.id));
   }
 
-  uncomplete(): void {
-    if (!this.canBeUncompleted()) {
-      throw new Error('Todo is not completed');
+  /**
+   * Complete every open subtask, then this todo
+   */
+  completeAll(subtasks: Todo[]): void {
+    this.openSubtasks(subtasks).forEach((subtask) => subtask.complete());
+    this.complete(subtasks);
+  }
+
+  reopen(): void {
+    if (!this.canBeReopened()) {
+      throw new InvalidTransitionError(this.status, TODO_STATUS.PENDING);
+    }
+    const from = this.status;
+    this.setStatus(TODO_STATUS.PENDING);
+    this.record(new TodoReopened(this.id, from));
+  }
+
+  cancel(): void {
+    if (!this.canBeCancelled()) {
+      throw new InvalidTransitionError(this.status, TODO_STATUS.CANCELLED);
+    }
+    this.setStatus(TODO_STATUS.CANCELLED);
+  }
+
+  /**
+   * Move to the target status through the matching transition
+   */
+  transitionTo(target: TodoStatus, subtasks: Todo[] = []): void {
+    switch (target) {
+      case TODO_STATUS.IN_PROGRESS:
+        return this.start();
+      case TODO_STATUS.COMPLETED:
+        return this.complete(subtasks);
+      case TODO_STATUS.PENDING:
+        return this.reopen();
+      case TODO_STATUS.CANCELLED:
+        return this.cancel();
+      default:
+        throw new InvalidTransitionError(this.status, target);
     }
-    this.status = TODO_STATUS.PENDING;
-    this.updatedAt = new Date();
   }
 
   updateTitle(newTitle: string): void {
     if (newTitle.trim().length === 0) {
-      throw new Error('Title cannot be empty');
+      throw new ValidationError('Invalid todo input', { title: 'Title cannot be empty' });
     }
+    const from = this.title;
     this.title = newTitle.trim();
     this.updatedAt = new Date();
+    if (this.title !== from) {
+      this.record(new TodoRenamed(this.id, from, this.title));
+    }
   }
 
   updateDescription(newDescription: string): void {
@@ -48,6 +161,218 @@ export class Todo {
     this.updatedAt = new Date();
   }
 
+  updateDueAt(dueAt: Date | null): void {
+    this.dueAt = dueAt;
+    this.updatedAt = new Date();
+  }
+
+  updateRemindAt(remindAt: Date | null): void {
+    this.remindAt = remindAt;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Move the due date, or clear it with null
+   * The reminder moves along at the same offset; without a previous due date it is only
+   * pulled back onto the new one, since a reminder after the due date is no use
+   */
+  reschedule(dueAt: Date | null): void {
+    if (this.remindAt && dueAt) {
+      const remindAt = this.dueAt
+        ? new Date(this.remindAt.getTime() + (dueAt.getTime() - this.dueAt.getTime()))
+        : this.remindAt;
+      this.updateRemindAt(remindAt > dueAt ? dueAt : remindAt);
+    }
+    this.updateDueAt(dueAt);
+  }
+
+  updatePriority(priority: TodoPriorityType): void {
+    this.priority = priority;
+    this.updatedAt = new Date();
+  }
+
+  updateTags(tagIds: string[]): void {
+    this.tagIds = Array.from(new Set(tagIds));
+    this.updatedAt = new Date();
+  }
+
+  hasTag(tagId: string): boolean {
+    return this.tagIds.includes(tagId);
+  }
+
+  removeTag(tagId: string): void {
+    this.updateTags(this.tagIds.filter((id) => id !== tagId));
+  }
+
+  // Swap one tag for another, used when tags are merged
+  replaceTag(fromTagId: string, toTagId: string): void {
+    this.updateTags(this.tagIds.map((id) => (id === fromTagId ? toTagId : id)));
+  }
+
+  moveToProject(projectId: string | null): void {
+    this.projectId = projectId;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Take a new place in the manual order
+   * Reordering is not an edit of the todo, so updatedAt is left alone
+   */
+  reposition(position: string): void {
+    if (!isValidPosition(position)) {
+      throw new ValidationError('Invalid position', { position: `Invalid position: ${position}` });
+    }
+    this.position = position;
+  }
+
+  /**
+   * Set or clear the schedule; clearing it stops the series after this occurrence
+   */
+  updateRecurrence(recurrence: Recurrence | null): void {
+    if (recurrence) {
+      if (this.isSubtask()) {
+        throw new ValidationError('Subtasks cannot recur', {
+          recurrence: 'Only top-level todos can recur',
+        });
+      }
+      assertValidRecurrence(recurrence);
+    }
+    this.recurrence = recurrence;
+    this.updatedAt = new Date();
+  }
+
+  isRecurring(): boolean {
+    return this.recurrence !== null;
+  }
+
+  /**
+   * Build the next occurrence of the series, or null once the series has ended
+   * The reminder keeps the same offset from the due date; without a due date the
+   * schedule runs from `now`
+   */
+  nextOccurrence(id: string, now: Date = new Date()): Todo | null {
+    if (!this.recurrence) {
+      return null;
+    }
+
+    const previous = this.dueAt ?? now;
+    const dueAt = nextOccurrenceDate(this.recurrence, previous, this.occurrence, now);
+    if (!dueAt) {
+      return null;
+    }
+    const remindAt = this.remindAt
+      ? new Date(dueAt.getTime() - (previous.getTime() - this.remindAt.getTime()))
+      : null;
+
+    return new Todo(
+      id,
+      this.title,
+      this.description,
+      TODO_STATUS.PENDING,
+      now,
+      now,
+      dueAt,
+      remindAt,
+      this.priority,
+      [...this.tagIds],
+      this.projectId,
+      null,
+      { ...this.recurrence },
+      this.seriesId ?? this.id,
+      this.occurrence + 1
+    );
+  }
+
+  isSubtask(): boolean {
+    return this.parentId !== null;
+  }
+
+  // Open subtasks among the given todos
+  openSubtasks(subtasks: Todo[]): Todo[] {
+    return subtasks.filter((subtask) => subtask.parentId === this.id && subtask.isOpen());
+  }
+
+  // Completed subtasks out of those not cancelled
+  subtaskProgress(subtasks: Todo[]): { completed: number; total: number } {
+    const counted = subtasks.filter((subtask) => subtask.parentId === this.id && !subtask.isCancelled());
+    return {
+      completed: counted.filter((subtask) => subtask.isCompleted()).length,
+      total: counted.length,
+    };
+  }
+
+  /**
+   * Soft-delete; timestamps are left alone so a restore brings the todo back unchanged
+   */
+  markDeleted(now: Date = new Date()): void {
+    this.deletedAt = now;
+    this.record(new TodoDeleted(this.id));
+  }
+
+  restore(): void {
+    this.deletedAt = null;
+  }
+
+  isDeleted(): boolean {
+    return this.deletedAt !== null;
+  }
+
+  // Trash older than the retention period is purged for good
+  isTrashExpired(retentionDays: number, now: Date = new Date()): boolean {
+    return (
+      this.deletedAt !== null &&
+      now.getTime() - this.deletedAt.getTime() > retentionDays * 24 * 60 * 60 * 1000
+    );
+  }
+
+  // Only finished work is archived; cancelled subtasks go along with their parent
+  canBeArchived(): boolean {
+    return !this.isArchived() && (this.isCompleted() || (this.isSubtask() && this.isCancelled()));
+  }
+
+  archive(now: Date = new Date()): void {
+    if (!this.canBeArchived()) {
+      throw new ValidationError('Only completed todos can be archived', {
+        archived: 'Complete the todo before archiving it',
+      });
+    }
+    this.archivedAt = now;
+    this.updatedAt = now;
+  }
+
+  unarchive(): void {
+    this.archivedAt = null;
+    this.updatedAt = new Date();
+  }
+
+  isArchived(): boolean {
+    return this.archivedAt !== null;
+  }
+
+  isOpen(): boolean {
+    return this.isPending() || this.isInProgress();
+  }
+
+  // An open todo whose due date has passed
+  isOverdue(now: Date = new Date()): boolean {
+    return this.isOpen() && this.dueAt !== null && this.dueAt.getTime() < now.getTime();
+  }
+
+  // An open todo due later on the same calendar day as `now`
+  isDueToday(now: Date = new Date()): boolean {
+    return (
+      this.isOpen() &&
+      this.dueAt !== null &&
+      !this.isOverdue(now) &&
+      this.dueAt.toDateString() === now.toDateString()
+    );
+  }
+
+  // A reminder still waiting to fire for an open todo
+  hasPendingReminder(now: Date = new Date()): boolean {
+    return this.isOpen() && this.remindAt !== null && this.remindAt.getTime() > now.getTime();
+  }
+
   isCompleted(): boolean {
     return this.status === TODO_STATUS.COMPLETED;
   }
@@ -55,4 +380,37 @@ export class Todo {
   isPending(): boolean {
     return this.status === TODO_STATUS.PENDING;
   }
+
+  isInProgress(): boolean {
+    return this.status === TODO_STATUS.IN_PROGRESS;
+  }
+
+  isCancelled(): boolean {
+    return this.status === TODO_STATUS.CANCELLED;
+  }
+
+  /**
+   * Record that the todo was just created rather than loaded from storage
+   */
+  recordCreated(): void {
+    this.record(new TodoCreated(this.id, this.title));
+  }
+
+  /**
+   * Take the events recorded so far, for dispatch once the todo is saved
+   */
+  pullEvents(): DomainEvent[] {
+    const events = this.recordedEvents;
+    this.recordedEvents = [];
+    return events;
+  }
+
+  private record(event: DomainEvent): void {
+    this.recordedEvents.push(event);
+  }
+
+  private setStatus(status: TodoStatus): void {
+    this.status = status;
+    this.updatedAt = new Date();
+  }
 }
@@ -0,0 +1,25 @@
+export enum ActivityAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  STATUS_CHANGED = 'status_changed',
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+}
+
+export const ACTIVITY_ACTION = {
+  CREATED: 'created' as const,
+  UPDATED: 'updated' as const,
+  STATUS_CHANGED: 'status_changed' as const,
+  DELETED: 'deleted' as const,
+  RESTORED: 'restored' as const,
+};
+
+export type ActivityActionType = typeof ACTIVITY_ACTION[keyof typeof ACTIVITY_ACTION];
+
+// Who made a change: the user, or the app on its own (next occurrences, reopened parents)
+export const ACTIVITY_ACTOR = {
+  USER: 'user' as const,
+  SYSTEM: 'system' as const,
+};
+
+export type ActivityActorType = typeof ACTIVITY_ACTOR[keyof typeof ACTIVITY_ACTOR];
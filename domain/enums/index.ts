@@ -1 +1,3 @@
 export * from './todo-status.enum';
+export * from './todo-priority.enum';
+export * from './activity-action.enum';
@@ -0,0 +1,23 @@
+export enum TodoPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  URGENT = 'urgent',
+}
+
+export const TODO_PRIORITY = {
+  LOW: 'low' as const,
+  MEDIUM: 'medium' as const,
+  HIGH: 'high' as const,
+  URGENT: 'urgent' as const,
+};
+
+export type TodoPriorityType = typeof TODO_PRIORITY[keyof typeof TODO_PRIORITY];
+
+// Relative importance, higher is more important
+export const TODO_PRIORITY_RANK: Record<TodoPriorityType, number> = {
+  [TODO_PRIORITY.LOW]: 0,
+  [TODO_PRIORITY.MEDIUM]: 1,
+  [TODO_PRIORITY.HIGH]: 2,
+  [TODO_PRIORITY.URGENT]: 3,
+};
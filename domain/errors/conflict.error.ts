@@ -0,0 +1,16 @@
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when a change clashes with the current state of stored data, such as a taken name
+ * `fields` maps each clashing field to its message
+ */
+export class ConflictError extends DomainError {
+  readonly code = 'CONFLICT';
+
+  constructor(
+    message: string,
+    public readonly fields: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Domain Error
+ * Base class for all errors raised by domain rules
+ */
+export abstract class DomainError extends Error {
+  abstract readonly code: string;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
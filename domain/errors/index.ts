@@ -0,0 +1,9 @@
+export * from './domain.error';
+export * from './invalid-transition.error';
+export * from './todo-not-found.error';
+export * from './validation.error';
+export * from './tag-not-found.error';
+export * from './project-not-found.error';
+export * from './open-subtasks.error';
+export * from './conflict.error';
+export * from './version-conflict.error';
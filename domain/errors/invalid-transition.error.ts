@@ -0,0 +1,16 @@
+import { TodoStatusType } from '../enums';
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when a todo is asked to move to a status its current status does not allow
+ */
+export class InvalidTransitionError extends DomainError {
+  readonly code = 'INVALID_TRANSITION';
+
+  constructor(
+    public readonly from: TodoStatusType,
+    public readonly to: TodoStatusType
+  ) {
+    super(`Todo cannot transition from '${from}' to '${to}'`);
+  }
+}
@@ -0,0 +1,15 @@
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when a todo is completed while some of its subtasks are still open
+ */
+export class OpenSubtasksError extends DomainError {
+  readonly code = 'OPEN_SUBTASKS';
+
+  constructor(
+    public readonly todoId: string,
+    public readonly openSubtaskIds: string[]
+  ) {
+    super(`Todo ${todoId} has ${openSubtaskIds.length} open subtask(s)`);
+  }
+}
@@ -0,0 +1,12 @@
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when a list id does not resolve to a stored list
+ */
+export class ProjectNotFoundError extends DomainError {
+  readonly code = 'PROJECT_NOT_FOUND';
+
+  constructor(public readonly projectId: string) {
+    super(`List with id ${projectId} not found`);
+  }
+}
@@ -0,0 +1,12 @@
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when a tag id does not resolve to a stored tag
+ */
+export class TagNotFoundError extends DomainError {
+  readonly code = 'TAG_NOT_FOUND';
+
+  constructor(public readonly tagId: string) {
+    super(`Tag with id ${tagId} not found`);
+  }
+}
@@ -0,0 +1,12 @@
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when a todo id does not resolve to a stored todo
+ */
+export class TodoNotFoundError extends DomainError {
+  readonly code = 'TODO_NOT_FOUND';
+
+  constructor(public readonly todoId: string) {
+    super(`Todo with id ${todoId} not found`);
+  }
+}
@@ -0,0 +1,16 @@
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when input does not satisfy the rules for a todo
+ * `fields` maps each offending field to its message
+ */
+export class ValidationError extends DomainError {
+  readonly code = 'VALIDATION_FAILED';
+
+  constructor(
+    message: string,
+    public readonly fields: Record<string, string> = {}
+  ) {
+    super(message);
+  }
+}
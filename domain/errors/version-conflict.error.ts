@@ -0,0 +1,16 @@
+import { DomainError } from './domain.error';
+
+/**
+ * Raised when a todo is saved from a stale copy: it was changed elsewhere since that copy was read
+ */
+export class VersionConflictError extends DomainError {
+  readonly code = 'VERSION_CONFLICT';
+
+  constructor(
+    public readonly todoId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number
+  ) {
+    super(`Todo ${todoId} was changed elsewhere (version ${currentVersion}, expected ${expectedVersion})`);
+  }
+}
@@ -0,0 +1,46 @@
+import { IDomainEventDispatcher } from '../interfaces/IDomainEventDispatcher';
+import { DomainEvent } from './domain.event';
+
+export type DomainEventHandler<E extends DomainEvent = DomainEvent> = (
+  event: E
+) => void | Promise<void>;
+
+/**
+ * Domain Event Bus
+ * Runs the handlers subscribed to each dispatched event's type
+ * Registered in the LogicInvoker as 'domainEventBus'
+ */
+export class DomainEventBus implements IDomainEventDispatcher {
+  private handlers: Map<string, DomainEventHandler[]> = new Map();
+
+  /**
+   * Run the handler for every event of the type; returns a function that unsubscribes it
+   */
+  subscribe<E extends DomainEvent>(type: E['type'], handler: DomainEventHandler<E>): () => void {
+    const handlers = this.handlers.get(type) ?? [];
+    this.handlers.set(type, [...handlers, handler as DomainEventHandler]);
+    return () => {
+      this.handlers.set(
+        type,
+        (this.handlers.get(type) ?? []).filter((candidate) => candidate !== handler)
+      );
+    };
+  }
+
+  /**
+   * Run the handlers one at a time
+   * The events describe changes that are already saved, so a failing handler is skipped
+   * rather than failing the change
+   */
+  async dispatch(events: DomainEvent[]): Promise<void> {
+    for (const event of events) {
+      for (const handler of this.handlers.get(event.type) ?? []) {
+        try {
+          await handler(event);
+        } catch {
+          // The handler's own problem; the remaining handlers still run
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Domain Event
+ * Base class for facts that entities record about themselves
+ * Entities only record events; the service dispatches them once the change is saved
+ */
+export abstract class DomainEvent {
+  abstract readonly type: string;
+
+  constructor(public readonly occurredAt: Date = new Date()) {}
+}
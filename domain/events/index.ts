@@ -0,0 +1,8 @@
+export * from './domain.event';
+export * from './todo-created.event';
+export * from './todo-completed.event';
+export * from './todo-reopened.event';
+export * from './todo-renamed.event';
+export * from './todo-deleted.event';
+export * from './domain-event.bus';
+export * from './recording-event.dispatcher';
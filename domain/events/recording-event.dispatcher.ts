@@ -0,0 +1,25 @@
+import { IDomainEventDispatcher } from '../interfaces/IDomainEventDispatcher';
+import { DomainEvent } from './domain.event';
+
+/**
+ * Recording Event Dispatcher
+ * Test double for the event bus: keeps every dispatched event instead of running handlers
+ */
+export class RecordingEventDispatcher implements IDomainEventDispatcher {
+  readonly dispatched: DomainEvent[] = [];
+
+  async dispatch(events: DomainEvent[]): Promise<void> {
+    this.dispatched.push(...events);
+  }
+
+  /**
+   * Dispatched events of one type, oldest first
+   */
+  ofType<E extends DomainEvent>(type: E['type']): E[] {
+    return this.dispatched.filter((event): event is E => event.type === type);
+  }
+
+  clear(): void {
+    this.dispatched.length = 0;
+  }
+}
@@ -0,0 +1,12 @@
+import { DomainEvent } from './domain.event';
+
+/**
+ * Recorded when a todo is completed
+ */
+export class TodoCompleted extends DomainEvent {
+  readonly type = 'TodoCompleted';
+
+  constructor(public readonly todoId: string) {
+    super();
+  }
+}
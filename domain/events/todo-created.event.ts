@@ -0,0 +1,15 @@
+import { DomainEvent } from './domain.event';
+
+/**
+ * Recorded when a new todo is created, including the next occurrence of a series
+ */
+export class TodoCreated extends DomainEvent {
+  readonly type = 'TodoCreated';
+
+  constructor(
+    public readonly todoId: string,
+    public readonly title: string
+  ) {
+    super();
+  }
+}
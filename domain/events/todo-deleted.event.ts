@@ -0,0 +1,12 @@
+import { DomainEvent } from './domain.event';
+
+/**
+ * Recorded when a todo is moved to the trash
+ */
+export class TodoDeleted extends DomainEvent {
+  readonly type = 'TodoDeleted';
+
+  constructor(public readonly todoId: string) {
+    super();
+  }
+}
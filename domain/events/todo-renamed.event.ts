@@ -0,0 +1,16 @@
+import { DomainEvent } from './domain.event';
+
+/**
+ * Recorded when a todo's title changes
+ */
+export class TodoRenamed extends DomainEvent {
+  readonly type = 'TodoRenamed';
+
+  constructor(
+    public readonly todoId: string,
+    public readonly from: string,
+    public readonly to: string
+  ) {
+    super();
+  }
+}
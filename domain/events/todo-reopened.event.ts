@@ -0,0 +1,16 @@
+import { TodoStatusType } from '../enums';
+import { DomainEvent } from './domain.event';
+
+/**
+ * Recorded when a completed or cancelled todo is reopened
+ */
+export class TodoReopened extends DomainEvent {
+  readonly type = 'TodoReopened';
+
+  constructor(
+    public readonly todoId: string,
+    public readonly from: TodoStatusType
+  ) {
+    super();
+  }
+}
@@ -0,0 +1,9 @@
+import { ActivityEntry } from '@domain/entities/ActivityEntry';
+
+export interface IActivityRepository {
+  // Entries for the todo, oldest first
+  findByTodoId(todoId: string): Promise<ActivityEntry[]>;
+  create(entry: ActivityEntry): Promise<ActivityEntry>;
+  // Drop the todo's history once the todo itself is gone for good
+  deleteByTodoId(todoId: string): Promise<void>;
+}
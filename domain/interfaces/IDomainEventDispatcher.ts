@@ -0,0 +1,6 @@
+import { DomainEvent } from '@domain/events/domain.event';
+
+export interface IDomainEventDispatcher {
+  // Hand saved events to whoever listens, in the order they were recorded
+  dispatch(events: DomainEvent[]): Promise<void>;
+}
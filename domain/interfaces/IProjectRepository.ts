@@ -0,0 +1,9 @@
+import { Project } from '@domain/entities/Project';
+
+export interface IProjectRepository {
+  findAll(): Promise<Project[]>;
+  findById(id: string): Promise<Project | null>;
+  create(project: Project): Promise<Project>;
+  update(project: Project): Promise<Project>;
+  delete(id: string): Promise<void>;
+}
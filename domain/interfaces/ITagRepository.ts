@@ -0,0 +1,9 @@
+import { Tag } from '@domain/entities/Tag';
+
+export interface ITagRepository {
+  findAll(): Promise<Tag[]>;
+  findById(id: string): Promise<Tag | null>;
+  create(tag: Tag): Promise<Tag>;
+  update(tag: Tag): Promise<Tag>;
+  delete(id: string): Promise<void>;
+}
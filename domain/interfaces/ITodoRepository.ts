@@ -1,9 +1,17 @@
 import { Todo } from '@domain/entities/Todo';
+import { TodoPage, TodoQuery } from '@domain/types/TodoQuery';
 
 export interface ITodoRepository {
-  findAll(): Promise<Todo[]>;
+  // Active todos: neither deleted nor archived
+  findAll(query?: TodoQuery): Promise<Todo[]>;
+  findPage(query: TodoQuery): Promise<TodoPage>;
   findById(id: string): Promise<Todo | null>;
   create(todo: Todo): Promise<Todo>;
   update(todo: Todo): Promise<Todo>;
+  // Soft-delete: the todo is hidden from every find until restored
   delete(id: string): Promise<void>;
+  // Bring back a soft-deleted todo with its original id and timestamps
+  restore(id: string): Promise<Todo>;
+  // Remove a todo for good
+  purge(id: string): Promise<void>;
 }
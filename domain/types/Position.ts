@@ -0,0 +1,92 @@
+import { ValidationError } from '@domain/errors';
+
+// Lowercase base 36, so plain and locale-aware string comparison agree on the order
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const BASE = DIGITS.length;
+
+// Keys never end in the lowest digit, so there is always room before them
+const POSITION_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+// Width of the keys derived from the creation time
+const INITIAL_POSITION_WIDTH = 9;
+
+/**
+ * Keys longer than this mean the todos around them are packed too densely,
+ * and the order is rebalanced rather than the key taken
+ */
+export const MAX_POSITION_LENGTH = 24;
+
+export function isValidPosition(position: string): boolean {
+  return position.length <= MAX_POSITION_LENGTH && POSITION_PATTERN.test(position);
+}
+
+/**
+ * Position of a todo that was never moved by hand
+ * Later creation times give smaller keys, so the manual order starts newest first,
+ * like the default sort
+ */
+export function initialTodoPosition(createdAt: Date): string {
+  const largest = BASE ** INITIAL_POSITION_WIDTH - 1;
+  const value = Math.min(Math.max(largest - createdAt.getTime(), 0), largest);
+  return `${value.toString(BASE).padStart(INITIAL_POSITION_WIDTH, '0')}i`;
+}
+
+// Key strictly between a and b (b null for no upper bound); neither may end in '0'
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the common prefix, reading missing digits of a as '0'
+    let shared = 0;
+    while ((a[shared] ?? '0') === b[shared]) {
+      shared++;
+    }
+    if (shared > 0) {
+      return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+    }
+  }
+
+  const low = a ? DIGITS.indexOf(a[0]) : 0;
+  const high = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+  if (high - low > 1) {
+    return DIGITS[Math.round((low + high) / 2)];
+  }
+  // Consecutive digits: b's first digit alone sorts below the rest of b
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[low] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Key that sorts between two positions; null stands for the start or end of the order
+ * Only the new key is made up, so the positions around it are left alone
+ */
+export function positionBetween(before: string | null, after: string | null): string {
+  for (const position of [before, after]) {
+    if (position !== null && !isValidPosition(position)) {
+      throw new ValidationError('Invalid position', { position: `Invalid position: ${position}` });
+    }
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new ValidationError('Invalid position', {
+      position: 'The todo before must sort before the todo after',
+    });
+  }
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * Evenly spread keys between two positions, in order
+ * Used to rebalance a densely packed order in one go
+ */
+export function positionsBetween(before: string | null, after: string | null, count: number): string[] {
+  if (count <= 0) {
+    return [];
+  }
+  const middle = Math.floor(count / 2);
+  const position = positionBetween(before, after);
+  return [
+    ...positionsBetween(before, position, middle),
+    position,
+    ...positionsBetween(position, after, count - middle - 1),
+  ];
+}
@@ -0,0 +1,118 @@
+import { ValidationError } from '@domain/errors';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export const RECURRENCE_FREQUENCIES: readonly RecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * When a recurring todo comes back, in the spirit of an iCalendar RRULE
+ * "Every 3 days" is daily with an interval of 3
+ */
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  // Every N days, weeks or months
+  interval: number;
+  // Weekly only: days of the week, 0 = Sunday
+  weekdays?: number[];
+  // Monthly only: day of the month, clamped to the month's last day
+  monthDay?: number;
+  // No occurrences due after this date
+  until?: Date | null;
+  // Total number of occurrences in the series
+  count?: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check a rule, throwing ValidationError for every offending field
+ */
+export function assertValidRecurrence(rule: Recurrence): void {
+  const fields: Record<string, string> = {};
+
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    fields['recurrence.frequency'] = `Frequency must be one of: ${RECURRENCE_FREQUENCIES.join(', ')}`;
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    fields['recurrence.interval'] = 'Interval must be a positive integer';
+  }
+  if (
+    rule.frequency === 'weekly' &&
+    (!rule.weekdays?.length || !rule.weekdays.every((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+  ) {
+    fields['recurrence.weekdays'] = 'Weekly rules need weekdays between 0 (Sunday) and 6';
+  }
+  if (
+    rule.frequency === 'monthly' &&
+    (!Number.isInteger(rule.monthDay) || rule.monthDay! < 1 || rule.monthDay! > 31)
+  ) {
+    fields['recurrence.monthDay'] = 'Monthly rules need a day of the month between 1 and 31';
+  }
+  if (rule.count !== undefined && rule.count !== null && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    fields['recurrence.count'] = 'Count must be a positive integer';
+  }
+  if (Object.keys(fields).length > 0) {
+    throw new ValidationError('Invalid recurrence', fields);
+  }
+}
+
+function startOfWeek(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+}
+
+function nextAfter(rule: Recurrence, after: Date): Date {
+  const next = new Date(after);
+
+  switch (rule.frequency) {
+    case 'daily':
+      next.setDate(next.getDate() + rule.interval);
+      return next;
+    case 'weekly': {
+      // Walk forward day by day, only accepting weeks that are a multiple of the interval away
+      const anchorWeek = startOfWeek(after).getTime();
+      for (let step = 1; step <= 7 * (rule.interval + 1); step++) {
+        next.setDate(next.getDate() + 1);
+        const weeksApart = Math.round((startOfWeek(next).getTime() - anchorWeek) / (7 * DAY_MS));
+        if (weeksApart % rule.interval === 0 && rule.weekdays!.includes(next.getDay())) {
+          return next;
+        }
+      }
+      throw new Error('Weekly recurrence without weekdays');
+    }
+    case 'monthly': {
+      next.setDate(1);
+      next.setMonth(next.getMonth() + rule.interval);
+      const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+      next.setDate(Math.min(rule.monthDay!, lastDay));
+      return next;
+    }
+  }
+}
+
+/**
+ * Due date of the occurrence after `previous`, keeping its time of day
+ * Occurrences already in the past at `now` are skipped, so a chore finished late
+ * comes back on its next upcoming date. Returns null once the series has ended.
+ */
+export function nextOccurrenceDate(
+  rule: Recurrence,
+  previous: Date,
+  occurrence: number,
+  now: Date = new Date()
+): Date | null {
+  if (rule.count && occurrence >= rule.count) {
+    return null;
+  }
+
+  let next = nextAfter(rule, previous);
+  while (next.getTime() <= now.getTime()) {
+    next = nextAfter(rule, next);
+  }
+  if (rule.until && next.getTime() > rule.until.getTime()) {
+    return null;
+  }
+  return next;
+}
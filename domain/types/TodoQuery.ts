@@ -0,0 +1,224 @@
+import { Todo } from '@domain/entities/Todo';
+import { TODO_PRIORITY_RANK, TodoStatusType } from '@domain/enums';
+import { ValidationError } from '@domain/errors';
+
+// 'position' is the manual order todos are dragged into
+export type TodoSortKey = 'createdAt' | 'updatedAt' | 'dueAt' | 'priority' | 'title' | 'position';
+export type SortDirection = 'asc' | 'desc';
+
+export const TODO_SORT_KEYS: readonly TodoSortKey[] = [
+  'createdAt',
+  'updatedAt',
+  'dueAt',
+  'priority',
+  'title',
+  'position',
+];
+export const SORT_DIRECTIONS: readonly SortDirection[] = ['asc', 'desc'];
+
+// Stands in for the Inbox (no list) in URLs
+export const INBOX_LIST_ID = 'inbox';
+
+// Which todos to return; every set criterion must match
+export interface TodoFilter {
+  statuses?: TodoStatusType[];
+  // Case-insensitive match against title and description
+  search?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  dueFrom?: Date;
+  dueTo?: Date;
+  // Only todos without a due date
+  undated?: boolean;
+  // Todos carrying any of these tags
+  tagIds?: string[];
+  // Todos in this list; null for the Inbox, undefined for every list
+  projectId?: string | null;
+  // Only todos that are not subtasks
+  topLevelOnly?: boolean;
+  // Subtasks of any of these todos
+  parentIds?: string[];
+  // Occurrences of this recurring series
+  seriesId?: string;
+  // Soft-deleted todos instead of live ones
+  deleted?: boolean;
+  // Archived todos instead of active ones; ignored for deleted todos
+  archived?: boolean;
+}
+
+export interface TodoQuery {
+  sortBy?: TodoSortKey;
+  sortDirection?: SortDirection;
+  filter?: TodoFilter;
+  // Opaque cursor from a previous page's `nextCursor`
+  cursor?: string;
+  // Page size; all remaining todos when omitted
+  limit?: number;
+}
+
+export interface TodoPage {
+  items: Todo[];
+  // Number of todos matching the filter across all pages
+  total: number;
+  nextCursor: string | null;
+}
+
+// Newest first, matching the original list order
+export const DEFAULT_TODO_QUERY: Required<Pick<TodoQuery, 'sortBy' | 'sortDirection'>> = {
+  sortBy: 'createdAt',
+  sortDirection: 'desc',
+};
+
+// Position of a todo in a sort order: [sort value, createdAt, id]
+type SortPosition = [number | string | null, number, string];
+
+function sortValue(todo: Todo, sortBy: TodoSortKey): number | string | null {
+  switch (sortBy) {
+    case 'createdAt':
+      return todo.createdAt.getTime();
+    case 'updatedAt':
+      return todo.updatedAt.getTime();
+    case 'dueAt':
+      return todo.dueAt ? todo.dueAt.getTime() : null;
+    case 'priority':
+      return TODO_PRIORITY_RANK[todo.priority];
+    case 'title':
+      return todo.title.toLocaleLowerCase();
+    case 'position':
+      return todo.position;
+  }
+}
+
+function positionOf(todo: Todo, sortBy: TodoSortKey): SortPosition {
+  return [sortValue(todo, sortBy), todo.createdAt.getTime(), todo.id];
+}
+
+/**
+ * Total order over positions
+ * Missing values (no due date) always go last; ties fall back to newest first, then id
+ */
+function comparePositions(a: SortPosition, b: SortPosition, direction: number): number {
+  const [aValue, aCreated, aId] = a;
+  const [bValue, bCreated, bId] = b;
+
+  if ((aValue === null) !== (bValue === null)) {
+    return aValue === null ? 1 : -1;
+  }
+  if (aValue !== null && bValue !== null && aValue !== bValue) {
+    const compared =
+      typeof aValue === 'string' ? aValue.localeCompare(bValue as string) : aValue - (bValue as number);
+    return compared * direction;
+  }
+  if (aCreated !== bCreated) {
+    return bCreated - aCreated;
+  }
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+function resolveSort(query: TodoQuery): { sortBy: TodoSortKey; direction: number } {
+  return {
+    sortBy: query.sortBy ?? DEFAULT_TODO_QUERY.sortBy,
+    direction: (query.sortDirection ?? DEFAULT_TODO_QUERY.sortDirection) === 'asc' ? 1 : -1,
+  };
+}
+
+/**
+ * Return a sorted copy of the todos
+ */
+export function sortTodos(todos: Todo[], query: TodoQuery = {}): Todo[] {
+  const { sortBy, direction } = resolveSort(query);
+  return [...todos].sort((a, b) =>
+    comparePositions(positionOf(a, sortBy), positionOf(b, sortBy), direction)
+  );
+}
+
+/**
+ * Check a todo against every criterion of the filter
+ */
+export function matchesTodoFilter(todo: Todo, filter: TodoFilter = {}): boolean {
+  if (todo.isDeleted() !== (filter.deleted ?? false)) {
+    return false;
+  }
+  if (!filter.deleted && todo.isArchived() !== (filter.archived ?? false)) {
+    return false;
+  }
+  if (filter.statuses?.length && !filter.statuses.includes(todo.status)) {
+    return false;
+  }
+  const search = filter.search?.trim().toLocaleLowerCase();
+  if (
+    search &&
+    !todo.title.toLocaleLowerCase().includes(search) &&
+    !todo.description.toLocaleLowerCase().includes(search)
+  ) {
+    return false;
+  }
+  if (filter.tagIds?.length && !filter.tagIds.some((tagId) => todo.hasTag(tagId))) {
+    return false;
+  }
+  if (filter.projectId !== undefined && todo.projectId !== filter.projectId) {
+    return false;
+  }
+  if (filter.topLevelOnly && todo.isSubtask()) {
+    return false;
+  }
+  if (filter.parentIds && (todo.parentId === null || !filter.parentIds.includes(todo.parentId))) {
+    return false;
+  }
+  if (filter.seriesId && (todo.seriesId ?? todo.id) !== filter.seriesId) {
+    return false;
+  }
+  if (filter.createdFrom && todo.createdAt < filter.createdFrom) return false;
+  if (filter.createdTo && todo.createdAt > filter.createdTo) return false;
+  if (filter.undated && todo.dueAt) return false;
+  if ((filter.dueFrom || filter.dueTo) && !todo.dueAt) return false;
+  if (filter.dueFrom && todo.dueAt! < filter.dueFrom) return false;
+  if (filter.dueTo && todo.dueAt! > filter.dueTo) return false;
+  return true;
+}
+
+function encodeCursor(position: SortPosition): string {
+  return btoa(encodeURIComponent(JSON.stringify(position)));
+}
+
+function decodeCursor(cursor: string): SortPosition {
+  try {
+    const position = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (Array.isArray(position) && position.length === 3) {
+      return position as SortPosition;
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new ValidationError('Invalid cursor', { cursor: 'Cursor is malformed' });
+}
+
+/**
+ * Filter, sort and page todos as the query asks
+ * The cursor records the sort position of the last returned todo, so pages stay
+ * consistent when todos before it are added or removed
+ */
+export function queryTodos(todos: Todo[], query: TodoQuery = {}): TodoPage {
+  const { sortBy, direction } = resolveSort(query);
+  const matching = sortTodos(
+    todos.filter((todo) => matchesTodoFilter(todo, query.filter)),
+    query
+  );
+
+  let remaining = matching;
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    remaining = matching.filter(
+      (todo) => comparePositions(positionOf(todo, sortBy), after, direction) > 0
+    );
+  }
+
+  const items = query.limit !== undefined ? remaining.slice(0, query.limit) : remaining;
+  const hasMore = items.length < remaining.length;
+
+  return {
+    items,
+    total: matching.length,
+    nextCursor: hasMore ? encodeCursor(positionOf(items[items.length - 1], sortBy)) : null,
+  };
+}
@@ -1,6 +1,5 @@
-export type TodoStatus = 'pending' | 'completed';
+import { TODO_STATUS, TodoStatusType } from '../enums';
 
-export const TODO_STATUS = {
-  PENDING: 'pending' as TodoStatus,
-  COMPLETED: 'completed' as TodoStatus,
-};
+export type TodoStatus = TodoStatusType;
+
+export { TODO_STATUS };
@@ -0,0 +1,77 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useArchiveStore } from '@/application/store/ArchiveStore';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TodoService } from '@/application/services/todo/todo.service';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+
+/**
+ * useArchive Hook
+ * Lists archived todos and brings them back or moves them to the trash
+ */
+export function useArchive() {
+  const { archived, isLoading, error, setArchive, removeFromArchive, setLoading, setError } =
+    useArchiveStore();
+
+  // Get service via invoker pattern
+  const getTodoService = useCallback((): TodoService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<TodoService>('todoService');
+  }, []);
+
+  const loadArchive = useCallback(async () => {
+    try {
+      setLoading(true);
+      const todoDTOs = await getTodoService().getArchive();
+      setArchive(todoDTOs.map(TodoMapper.toEntity));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the archive');
+    } finally {
+      setLoading(false);
+    }
+  }, [getTodoService, setArchive, setLoading, setError]);
+
+  const unarchiveTodo = useCallback(
+    async (id: string) => {
+      try {
+        setLoading(true);
+        const todo = TodoMapper.toEntity(await getTodoService().unarchiveTodo(id));
+        removeFromArchive(id);
+        return todo;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to unarchive todo');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTodoService, removeFromArchive, setLoading, setError]
+  );
+
+  const deleteTodo = useCallback(
+    async (id: string) => {
+      try {
+        setLoading(true);
+        await getTodoService().deleteTodo(id);
+        removeFromArchive(id);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete todo');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTodoService, removeFromArchive, setLoading, setError]
+  );
+
+  return {
+    archived,
+    isLoading,
+    error,
+    loadArchive,
+    unarchiveTodo,
+    deleteTodo,
+  };
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback } from 'react';
+import { BoardColumns, BoardTotals, useBoardStore } from '@/application/store/BoardStore';
+import { useTodos } from '@/hooks/useTodos';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TodoService } from '@/application/services/todo/todo.service';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+import { TodoStatusType } from '@/domain/enums';
+import { Todo } from '@/domain/entities/Todo';
+import { config } from '@/config';
+
+/**
+ * useBoard Hook
+ * Loads the board: the first page of top-level todos in each status column, from every list,
+ * with each column's total counted by the service so WIP limits hold without loading every card
+ * Cards are changed through useTodos; the board follows those changes through useTodoSync
+ */
+export function useBoard(statuses: readonly TodoStatusType[]) {
+  const {
+    columns,
+    totals,
+    subtasks,
+    isLoading,
+    error,
+    setBoard,
+    showTodo,
+    setLoading,
+    setError,
+  } = useBoardStore();
+  const { transitionStatus } = useTodos();
+
+  // Get service via invoker pattern
+  const getTodoService = useCallback((): TodoService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<TodoService>('todoService');
+  }, []);
+
+  const loadBoard = useCallback(async () => {
+    try {
+      setLoading(true);
+      const service = getTodoService();
+      const pages = await Promise.all(
+        statuses.map((status) =>
+          service.searchTodos({
+            filter: { statuses: [status], topLevelOnly: true },
+            limit: config.todos.pageSize,
+          })
+        )
+      );
+
+      const nextColumns = {} as BoardColumns;
+      const nextTotals = {} as BoardTotals;
+      statuses.forEach((status, index) => {
+        nextColumns[status] = pages[index].items.map(TodoMapper.toEntity);
+        nextTotals[status] = pages[index].total;
+      });
+      const subtaskDTOs = await service.getSubtasks(
+        Object.values(nextColumns)
+          .flat()
+          .map((todo) => todo.id)
+      );
+      setBoard(nextColumns, nextTotals, subtaskDTOs.map(TodoMapper.toEntity));
+    } catch (err) {
+      setError(ErrorMapper.toResponseDTO(err, 'Failed to load the board').message);
+    } finally {
+      setLoading(false);
+    }
+  }, [statuses, getTodoService, setBoard, setLoading, setError]);
+
+  // Move a card to the column of another status straight away, and put it back if the
+  // service refuses; useTodos records the move for undo and shows the error
+  const transitionCard = useCallback(
+    async (todo: Todo, target: TodoStatusType) => {
+      const predicted = TodoMapper.toEntity(TodoMapper.toResponseDTO(todo));
+      predicted.transitionTo(target, useBoardStore.getState().subtasks[todo.id] ?? []);
+      showTodo(predicted);
+      try {
+        showTodo(await transitionStatus(todo.id, target));
+      } catch (err) {
+        showTodo(todo);
+        throw err;
+      }
+    },
+    [showTodo, transitionStatus]
+  );
+
+  return {
+    columns,
+    totals,
+    subtasks,
+    isLoading,
+    error,
+    loadBoard,
+    transitionCard,
+  };
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useCallback } from 'react';
+import { CalendarRange, useCalendarStore } from '@/application/store/CalendarStore';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TodoService } from '@/application/services/todo/todo.service';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { Todo } from '@/domain/entities/Todo';
+import { useErrorToasts } from '@/hooks/useErrorToasts';
+
+/**
+ * Due date for a todo moved to a day: the same time of day it had, or the end of the
+ * day for a todo that had no due date
+ */
+function dueAtOnDay(todo: Todo, day: Date): Date {
+  const dueAt = new Date(day);
+  if (todo.dueAt) {
+    dueAt.setHours(todo.dueAt.getHours(), todo.dueAt.getMinutes(), 0, 0);
+  } else {
+    dueAt.setHours(23, 59, 0, 0);
+  }
+  return dueAt;
+}
+
+/**
+ * useCalendar Hook
+ * Loads the todos due within a date range for the calendar and agenda, together with
+ * the undated ones, and reschedules todos dropped on another day
+ */
+export function useCalendar() {
+  const {
+    range,
+    dated,
+    undated,
+    isLoading,
+    error,
+    setRange,
+    setTodos,
+    showTodo,
+    setLoading,
+    setError,
+  } = useCalendarStore();
+  const { showError } = useErrorToasts();
+
+  // Get service via invoker pattern
+  const getTodoService = useCallback((): TodoService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<TodoService>('todoService');
+  }, []);
+
+  const loadRange = useCallback(
+    async (nextRange: CalendarRange) => {
+      try {
+        setRange(nextRange);
+        setLoading(true);
+        const service = getTodoService();
+        const [dueDTOs, undatedDTOs] = await Promise.all([
+          service.getTodosDueBetween(nextRange.from, nextRange.to),
+          service.getUndatedTodos(),
+        ]);
+        // A later range may have been asked for while this one loaded
+        if (useCalendarStore.getState().range === nextRange) {
+          setTodos(dueDTOs.map(TodoMapper.toEntity), undatedDTOs.map(TodoMapper.toEntity));
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load the calendar');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTodoService, setRange, setTodos, setLoading, setError]
+  );
+
+  // Move a todo to another day, or back to the undated todos with null
+  // Shown on the new day straight away, and put back if the service refuses
+  const rescheduleTodo = useCallback(
+    async (todo: Todo, day: Date | null) => {
+      const dueAt = day ? dueAtOnDay(todo, day) : null;
+      const predicted = TodoMapper.toEntity(TodoMapper.toResponseDTO(todo));
+      predicted.reschedule(dueAt);
+      showTodo(predicted);
+      try {
+        const dto = await getTodoService().rescheduleTodo(
+          todo.id,
+          dueAt ? dueAt.toISOString() : null
+        );
+        showTodo(TodoMapper.toEntity(dto));
+      } catch (err) {
+        showTodo(todo);
+        showError(err, 'Failed to reschedule todo');
+      }
+    },
+    [getTodoService, showTodo, showError]
+  );
+
+  return {
+    range,
+    dated,
+    undated,
+    isLoading,
+    error,
+    loadRange,
+    rescheduleTodo,
+  };
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useErrorToastStore } from '@/application/store/ErrorToastStore';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+
+/**
+ * useErrorToasts Hook
+ * Surfaces failures that are not tied to a form field as dismissible toasts
+ */
+export function useErrorToasts() {
+  const { toasts, pushError, dismiss } = useErrorToastStore();
+
+  // Show a thrown error; `fallbackMessage` stands in for errors that are not domain errors
+  const showError = useCallback(
+    (error: unknown, fallbackMessage: string) => {
+      pushError(ErrorMapper.toResponseDTO(error, fallbackMessage));
+    },
+    [pushError]
+  );
+
+  return {
+    toasts,
+    showError,
+    dismiss,
+  };
+}
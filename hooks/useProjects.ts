@@ -0,0 +1,124 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useProjectStore } from '@/application/store/ProjectStore';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { ProjectService } from '@/application/services/project/project.service';
+import { CreateProjectDTO } from '@/application/services/project/in-dtos/create-project.dto';
+import { UpdateProjectDTO } from '@/application/services/project/in-dtos/update-project.dto';
+import { DeleteProjectDTO } from '@/application/services/project/in-dtos/delete-project.dto';
+import { ProjectMapper } from '@/application/services/project/mappers/project.mapper';
+
+/**
+ * useProjects Hook
+ * Provides todo list operations using the BYO-DPP service invoker pattern
+ */
+export function useProjects() {
+  const {
+    projects,
+    isLoading,
+    error,
+    setProjects,
+    addProject,
+    updateProject,
+    removeProject,
+    setLoading,
+    setError,
+  } = useProjectStore();
+
+  // Get service via invoker pattern
+  const getProjectService = useCallback((): ProjectService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<ProjectService>('projectService');
+  }, []);
+
+  const loadProjects = useCallback(async () => {
+    try {
+      setLoading(true);
+      const projectDTOs = await getProjectService().getAllProjects();
+      setProjects(projectDTOs.map(ProjectMapper.toEntity));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load lists');
+    } finally {
+      setLoading(false);
+    }
+  }, [getProjectService, setProjects, setLoading, setError]);
+
+  const createProject = useCallback(
+    async (dto: CreateProjectDTO) => {
+      try {
+        setLoading(true);
+        const project = ProjectMapper.toEntity(await getProjectService().createProject(dto));
+        addProject(project);
+        return project;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to create list');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getProjectService, addProject, setLoading, setError]
+  );
+
+  const updateProjectItem = useCallback(
+    async (id: string, dto: UpdateProjectDTO) => {
+      try {
+        setLoading(true);
+        const project = ProjectMapper.toEntity(await getProjectService().updateProject(id, dto));
+        updateProject(project);
+        return project;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update list');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getProjectService, updateProject, setLoading, setError]
+  );
+
+  const reorderProjects = useCallback(
+    async (ids: string[]) => {
+      try {
+        setLoading(true);
+        const projectDTOs = await getProjectService().reorderProjects(ids);
+        setProjects(projectDTOs.map(ProjectMapper.toEntity));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to reorder lists');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getProjectService, setProjects, setLoading, setError]
+  );
+
+  const deleteProject = useCallback(
+    async (id: string, dto: DeleteProjectDTO) => {
+      try {
+        setLoading(true);
+        await getProjectService().deleteProject(id, dto);
+        removeProject(id);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete list');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getProjectService, removeProject, setLoading, setError]
+  );
+
+  return {
+    projects,
+    isLoading,
+    error,
+    loadProjects,
+    createProject,
+    updateProject: updateProjectItem,
+    reorderProjects,
+    deleteProject,
+  };
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useTagStore } from '@/application/store/TagStore';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TagService } from '@/application/services/tag/tag.service';
+import { CreateTagDTO } from '@/application/services/tag/in-dtos/create-tag.dto';
+import { UpdateTagDTO } from '@/application/services/tag/in-dtos/update-tag.dto';
+import { TagMapper } from '@/application/services/tag/mappers/tag.mapper';
+
+/**
+ * useTags Hook
+ * Provides tag operations using the BYO-DPP service invoker pattern
+ * Merging and deleting change todos too, so callers reload the todo list afterwards
+ */
+export function useTags() {
+  const { tags, isLoading, error, setTags, addTag, updateTag, removeTag, setLoading, setError } =
+    useTagStore();
+
+  // Get service via invoker pattern
+  const getTagService = useCallback((): TagService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<TagService>('tagService');
+  }, []);
+
+  const loadTags = useCallback(async () => {
+    try {
+      setLoading(true);
+      const tagDTOs = await getTagService().getAllTags();
+      setTags(tagDTOs.map(TagMapper.toEntity));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  }, [getTagService, setTags, setLoading, setError]);
+
+  const createTag = useCallback(
+    async (dto: CreateTagDTO) => {
+      try {
+        setLoading(true);
+        const tag = TagMapper.toEntity(await getTagService().createTag(dto));
+        addTag(tag);
+        return tag;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to create tag');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTagService, addTag, setLoading, setError]
+  );
+
+  const updateTagItem = useCallback(
+    async (id: string, dto: UpdateTagDTO) => {
+      try {
+        setLoading(true);
+        const tag = TagMapper.toEntity(await getTagService().updateTag(id, dto));
+        updateTag(tag);
+        return tag;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update tag');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTagService, updateTag, setLoading, setError]
+  );
+
+  const mergeTags = useCallback(
+    async (sourceId: string, targetId: string) => {
+      try {
+        setLoading(true);
+        await getTagService().mergeTags(sourceId, targetId);
+        removeTag(sourceId);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to merge tags');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTagService, removeTag, setLoading, setError]
+  );
+
+  const deleteTag = useCallback(
+    async (id: string) => {
+      try {
+        setLoading(true);
+        await getTagService().deleteTag(id);
+        removeTag(id);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete tag');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTagService, removeTag, setLoading, setError]
+  );
+
+  return {
+    tags,
+    isLoading,
+    error,
+    loadTags,
+    createTag,
+    updateTag: updateTagItem,
+    mergeTags,
+    deleteTag,
+  };
+}
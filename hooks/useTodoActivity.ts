@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TodoService } from '@/application/services/todo/todo.service';
+import { ActivityEntryResponseDTO } from '@/application/services/todo/out-dtos/activity-entry-response.dto';
+
+/**
+ * useTodoActivity Hook
+ * Loads the change history of one todo, newest first
+ */
+export function useTodoActivity(todoId: string) {
+  const [entries, setEntries] = useState<ActivityEntryResponseDTO[]>([]);
+  const [isLoading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Get service via invoker pattern
+  const getTodoService = useCallback((): TodoService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<TodoService>('todoService');
+  }, []);
+
+  const loadActivity = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEntries(await getTodoService().getHistory(todoId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the history');
+    } finally {
+      setLoading(false);
+    }
+  }, [getTodoService, todoId]);
+
+  return {
+    entries,
+    isLoading,
+    error,
+    loadActivity,
+  };
+}
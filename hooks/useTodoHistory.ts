@@ -0,0 +1,60 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useTodoHistoryStore } from '@/application/store/TodoHistoryStore';
+import { useTodoStore } from '@/application/store/TodoStore';
+import { useErrorToasts } from '@/hooks/useErrorToasts';
+
+/**
+ * useTodoHistory Hook
+ * Undo and redo the todo mutations recorded by useTodos
+ */
+export function useTodoHistory() {
+  const { past, future, toast, takeUndo, takeRedo, putBackUndo, putBackRedo, dismissToast } =
+    useTodoHistoryStore();
+  const { isLoading, setLoading } = useTodoStore();
+  const { showError } = useErrorToasts();
+
+  const undo = useCallback(async () => {
+    const command = takeUndo();
+    if (!command) {
+      return;
+    }
+    try {
+      setLoading(true);
+      await command.undo();
+    } catch (err) {
+      putBackUndo(command);
+      showError(err, `Failed to undo: ${command.label}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [takeUndo, putBackUndo, setLoading, showError]);
+
+  const redo = useCallback(async () => {
+    const command = takeRedo();
+    if (!command) {
+      return;
+    }
+    try {
+      setLoading(true);
+      await command.redo();
+    } catch (err) {
+      putBackRedo(command);
+      showError(err, `Failed to redo: ${command.label}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [takeRedo, putBackRedo, setLoading, showError]);
+
+  return {
+    canUndo: past.length > 0 && !isLoading,
+    canRedo: future.length > 0 && !isLoading,
+    undoLabel: past.at(-1)?.label ?? null,
+    redoLabel: future.at(-1)?.label ?? null,
+    toast,
+    dismissToast,
+    undo,
+    redo,
+  };
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useTodoStore } from '@/application/store/TodoStore';
+import { useTrashStore } from '@/application/store/TrashStore';
+import { useArchiveStore } from '@/application/store/ArchiveStore';
+import { useCalendarStore } from '@/application/store/CalendarStore';
+import { useBoardStore } from '@/application/store/BoardStore';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TodoService } from '@/application/services/todo/todo.service';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { TodoChangeEventDTO } from '@/application/services/todo/out-dtos/todo-change-event.dto';
+import { config } from '@/config';
+
+// BroadcastChannel the tabs of this browser share
+const TODO_CHANNEL_NAME = 'todo-changes';
+
+// Bring every todo view in this tab up to date with a change saved elsewhere
+function applyChange({ type, todo: dto }: TodoChangeEventDTO): void {
+  const todo = TodoMapper.toEntity(dto);
+  useTodoStore.getState().applyChange(type, todo);
+  useTrashStore.getState().applyChange(type, todo);
+  useArchiveStore.getState().applyChange(type, todo);
+  useCalendarStore.getState().applyChange(type, todo);
+  useBoardStore.getState().applyChange(type, todo);
+}
+
+/**
+ * useTodoSync Hook
+ * Keeps the todo stores in step with other tabs and other clients without reloading the list
+ * Changes saved in this tab go to the other tabs over a BroadcastChannel; changes saved on
+ * the server reach every client over Server-Sent Events. Mount it once per page.
+ */
+export function useTodoSync() {
+  useEffect(() => {
+    const factory = AppDependencyFactory.getInstance();
+    const service = factory.getServiceInvoker().invoke<TodoService>('todoService');
+
+    const channel =
+      typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(TODO_CHANNEL_NAME) : null;
+    channel?.addEventListener('message', (event: MessageEvent<TodoChangeEventDTO>) =>
+      applyChange(event.data)
+    );
+    // The board's cards are changed through useTodos, which only updates the list's store,
+    // so this tab's own changes are applied to the board as well
+    const unsubscribe = service.subscribe((event) => {
+      channel?.postMessage(event);
+      useBoardStore.getState().applyChange(event.type, TodoMapper.toEntity(event.todo));
+    });
+
+    // Only the REST API has a server to stream from; this tab's own changes come back too,
+    // which is harmless as the store already holds them
+    const source =
+      config.todos.clientStorage !== 'indexeddb'
+        ? new EventSource(`${config.api.baseUrl}/todos/events`)
+        : null;
+    source?.addEventListener('message', (event) => applyChange(JSON.parse(event.data)));
+
+    return () => {
+      unsubscribe();
+      channel?.close();
+      source?.close();
+    };
+  }, []);
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import {
+  TODO_TRANSFER_FORMATS,
+  TodoTransferFormat,
+  TodoTransferService,
+} from '@/application/services/todo/todo-transfer.service';
+import {
+  TodoImportPreviewDTO,
+  TodoImportResultDTO,
+} from '@/application/services/todo/out-dtos/todo-import.dto';
+import { ValidationError } from '@/domain/errors';
+
+/**
+ * useTodoTransfer Hook
+ * Downloads the todos as a file and imports todos from one, previewing the import first
+ * Committing an import creates todos, so callers reload the todo list afterwards
+ */
+export function useTodoTransfer() {
+  const [preview, setPreview] = useState<TodoImportPreviewDTO | null>(null);
+  const [result, setResult] = useState<TodoImportResultDTO | null>(null);
+  const [isWorking, setWorking] = useState(false);
+
+  // Get service via invoker pattern
+  const getTransferService = useCallback((): TodoTransferService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<TodoTransferService>('todoTransferService');
+  }, []);
+
+  const downloadTodos = useCallback(
+    async (format: TodoTransferFormat) => {
+      try {
+        setWorking(true);
+        const file = await getTransferService().exportTodos(format);
+        const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = file.filename;
+        link.click();
+        URL.revokeObjectURL(url);
+      } finally {
+        setWorking(false);
+      }
+    },
+    [getTransferService]
+  );
+
+  // The format is taken from the file's extension
+  const previewImport = useCallback(
+    async (file: File) => {
+      const format = TodoTransferService.formatOf(file.name);
+      if (!format) {
+        throw new ValidationError('Unsupported file', {
+          file: `Choose a file ending in ${TODO_TRANSFER_FORMATS.map(TodoTransferService.extensionOf).join(', ')}`,
+        });
+      }
+      try {
+        setWorking(true);
+        setResult(null);
+        setPreview(await getTransferService().previewImport(format, await file.text()));
+      } finally {
+        setWorking(false);
+      }
+    },
+    [getTransferService]
+  );
+
+  const commitImport = useCallback(async () => {
+    if (!preview) return;
+    try {
+      setWorking(true);
+      setResult(await getTransferService().commitImport(preview));
+      setPreview(null);
+    } finally {
+      setWorking(false);
+    }
+  }, [getTransferService, preview]);
+
+  const cancelImport = useCallback(() => setPreview(null), []);
+
+  return {
+    preview,
+    result,
+    isWorking,
+    downloadTodos,
+    previewImport,
+    commitImport,
+    cancelImport,
+  };
+}
@@ -1,20 +1,180 @@
 'use client';
 
-import { useCallback, useEffect } from 'react';
+import { useCallback } from 'react';
 import { useTodoStore } from '@/application/store/TodoStore';
+import { useTodoHistoryStore } from '@/application/store/TodoHistoryStore';
+import { useBoardStore } from '@/application/store/BoardStore';
 import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
 import { TodoService } from '@/application/services/todo/todo.service';
 import { CreateTodoDTO } from '@/application/services/todo/in-dtos/create-todo.dto';
 import { UpdateTodoDTO } from '@/application/services/todo/in-dtos/update-todo.dto';
+import { RecurrenceDTO } from '@/application/services/todo/in-dtos/recurrence.dto';
+import { TODO_PRIORITY, TodoStatusType } from '@/domain/enums';
+import { TODO_STATUS } from '@/domain/types/TodoStatus';
+import { TodoFilter, TodoQuery } from '@/domain/types/TodoQuery';
+import { positionBetween } from '@/domain/types/Position';
 import { Todo } from '@/domain/entities/Todo';
+import { VersionConflictError } from '@/domain/errors';
 import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+import { ErrorMapper } from '@/application/services/shared/mappers/error.mapper';
+import { useErrorToasts } from '@/hooks/useErrorToasts';
+import { config } from '@/config';
+
+// A loaded todo or subtask, in the list or on the board
+function findLoadedTodo(id: string): Todo | undefined {
+  const { todos, subtasks } = useTodoStore.getState();
+  const board = useBoardStore.getState();
+  return [
+    ...todos,
+    ...Object.values(subtasks).flat(),
+    ...Object.values(board.columns).flat(),
+    ...Object.values(board.subtasks).flat(),
+  ].find((t) => t.id === id);
+}
+
+// The loaded subtasks of a todo, in the list or on the board
+function findLoadedSubtasks(id: string): Todo[] | undefined {
+  return useTodoStore.getState().subtasks[id] ?? useBoardStore.getState().subtasks[id];
+}
+
+// A todo as it was before an optimistic change, with its subtasks for a top-level todo
+interface TodoSnapshot {
+  id: string;
+  todo?: Todo;
+  subtasks?: Todo[];
+}
+
+function snapshotTodo(id: string): TodoSnapshot {
+  return { id, todo: findLoadedTodo(id), subtasks: findLoadedSubtasks(id) };
+}
+
+// Statuses a todo passes through on its way back to an earlier one, for undo
+// Completed and cancelled todos only lead back to pending, and in-progress ones only
+// reach pending through cancelled
+function statusesBackTo(todo: Todo, status: TodoStatusType): TodoStatusType[] {
+  if (todo.status === status) {
+    return [];
+  }
+  if (todo.canTransitionTo(status)) {
+    return [status];
+  }
+  return [todo.isOpen() ? TODO_STATUS.CANCELLED : TODO_STATUS.PENDING, status];
+}
+
+// Loaded top-level todos on either side of a todo in the manual order
+function manualNeighbours(todo: Todo): [string | null, string | null] {
+  let before: Todo | null = null;
+  let after: Todo | null = null;
+  for (const other of useTodoStore.getState().todos) {
+    if (other.position < todo.position && (!before || other.position > before.position)) {
+      before = other;
+    }
+    if (other.position > todo.position && (!after || other.position < after.position)) {
+      after = other;
+    }
+  }
+  return [before?.id ?? null, after?.id ?? null];
+}
+
+// Entities are mutable, so predictions are made on copies of the loaded todos
+function copyTodo(todo: Todo): Todo {
+  return TodoMapper.toEntity(TodoMapper.toResponseDTO(todo));
+}
+
+// Run a domain change on a copy; null when the domain rejects it and the service will too
+function predict(todo: Todo, change: (copy: Todo) => void): Todo | null {
+  const copy = copyTodo(todo);
+  try {
+    change(copy);
+    return copy;
+  } catch {
+    return null;
+  }
+}
+
+// The todo the service is expected to return for an update
+function predictUpdate(todo: Todo, dto: UpdateTodoDTO): Todo | null {
+  return predict(todo, (copy) => {
+    if (dto.title !== undefined) copy.updateTitle(dto.title);
+    if (dto.description !== undefined) copy.updateDescription(dto.description);
+    if (dto.dueAt !== undefined) copy.updateDueAt(dto.dueAt ? new Date(dto.dueAt) : null);
+    if (dto.remindAt !== undefined) copy.updateRemindAt(dto.remindAt ? new Date(dto.remindAt) : null);
+    if (dto.priority !== undefined) copy.updatePriority(dto.priority);
+    if (dto.tagIds !== undefined) copy.updateTags(dto.tagIds);
+    if (dto.projectId !== undefined) copy.moveToProject(dto.projectId);
+    if (dto.recurrence !== undefined) {
+      copy.updateRecurrence(dto.recurrence ? TodoMapper.toRecurrence(dto.recurrence) : null);
+    }
+  });
+}
+
+// Stand-in shown until the service returns the created todo
+function predictCreate(dto: CreateTodoDTO): Todo {
+  const now = new Date();
+  const parent = dto.parentId ? findLoadedTodo(dto.parentId) : undefined;
+  const todo = new Todo(
+    `optimistic_${now.getTime()}_${Math.random().toString(36).slice(2, 11)}`,
+    dto.title.trim(),
+    dto.description.trim(),
+    TODO_STATUS.PENDING,
+    now,
+    now,
+    dto.dueAt ? new Date(dto.dueAt) : null,
+    dto.remindAt ? new Date(dto.remindAt) : null,
+    dto.priority ?? TODO_PRIORITY.MEDIUM,
+    [],
+    parent ? parent.projectId : (dto.projectId ?? null),
+    dto.parentId ?? null,
+    dto.recurrence ? TodoMapper.toRecurrence(dto.recurrence) : null
+  );
+  todo.updateTags(dto.tagIds ?? []);
+  return todo;
+}
+
+// What callers that handle errors inline show themselves: field messages and version conflicts
+function isShownInline(error: unknown): boolean {
+  return (
+    error instanceof VersionConflictError || Object.keys(ErrorMapper.toFieldErrors(error)).length > 0
+  );
+}
+
+// Latest mutation per todo id; later mutations of the same todo wait for it to settle
+const inFlight = new Map<string, { key: string; promise: Promise<unknown> }>();
 
 /**
  * useTodos Hook
  * Provides todo operations using the BYO-DPP service invoker pattern
+ * Mutations show up in the store straight away and roll back when the service rejects them
+ * Create, update, move, status changes, archive and delete are recorded in the history
+ * for undo and redo
  */
 export function useTodos() {
-  const { todos, isLoading, error, setTodos, addTodo, updateTodo, removeTodo, setLoading, setError } = useTodoStore();
+  const {
+    todos,
+    subtasks,
+    isLoading,
+    error,
+    query,
+    filter,
+    total,
+    nextCursor,
+    setTodos,
+    addTodo,
+    updateTodo,
+    removeTodo,
+    setLoading,
+    setError,
+    setQuery,
+    setFilter,
+    appendTodos,
+    setPageInfo,
+    setSubtasks,
+    pending,
+    beginMutation,
+    endMutation,
+  } = useTodoStore();
+  const record = useTodoHistoryStore((state) => state.record);
+  const { showError } = useErrorToasts();
 
   // Get service via invoker pattern
   const getTodoService = useCallback((): TodoService => {
@@ -23,139 +183,691 @@ export function useTodos() {
     return serviceInvoker.invoke<TodoService>('todoService');
   }, []);
 
-  // Load all todos on mount
-  useEffect(() => {
-    loadTodos();
-  }, []);
+  // Fetch the subtasks of the given todos into the store
+  const loadSubtasks = useCallback(
+    async (parents: Todo[]) => {
+      const parentIds = parents.map((todo) => todo.id);
+      const subtaskDTOs = await getTodoService().getSubtasks(parentIds);
+      setSubtasks(parentIds, subtaskDTOs.map(TodoMapper.toEntity));
+    },
+    [getTodoService, setSubtasks]
+  );
 
+  // Put a changed or restored todo in view; it leaves the view when the list no longer matches
+  const showTodo = useCallback(
+    (todo: Todo) => {
+      const { filter, todos } = useTodoStore.getState();
+      if (!todo.parentId && filter.projectId !== undefined && filter.projectId !== todo.projectId) {
+        removeTodo(todo.id);
+      } else if (todo.parentId || todos.some((t) => t.id === todo.id)) {
+        updateTodo(todo);
+      } else {
+        addTodo(todo);
+      }
+    },
+    [addTodo, updateTodo, removeTodo]
+  );
+
+  // Put a todo back as the snapshot has it; a todo missing from it was only predicted
+  const restoreSnapshot = useCallback(
+    ({ id, todo, subtasks }: TodoSnapshot) => {
+      if (!todo) {
+        removeTodo(id);
+        return;
+      }
+      showTodo(todo);
+      if (subtasks) {
+        setSubtasks([id], subtasks);
+      }
+    },
+    [removeTodo, showTodo, setSubtasks]
+  );
+
+  /**
+   * Apply a mutation to the store straight away, then run it through the service
+   * Mutations of one todo run one after another; repeating the one still in flight
+   * (same key) joins it instead of sending it twice. On failure the todo is rolled back
+   * and the error shown as a toast, except what callers that handle errors inline show themselves.
+   */
+  const mutateTodo = useCallback(
+    <T,>(
+      id: string,
+      key: string,
+      mutation: { apply: () => void; run: () => Promise<T>; failure: string; inline?: boolean }
+    ): Promise<T> => {
+      const current = inFlight.get(id);
+      if (current?.key === key) {
+        return current.promise as Promise<T>;
+      }
+
+      const before = snapshotTodo(id);
+      mutation.apply();
+      beginMutation(id);
+      const settle = async () => {
+        await current?.promise.catch(() => undefined);
+        try {
+          return await mutation.run();
+        } catch (err) {
+          restoreSnapshot(before);
+          if (!mutation.inline || !isShownInline(err)) {
+            showError(err, mutation.failure);
+          }
+          throw err;
+        } finally {
+          endMutation(id);
+          if (inFlight.get(id) === entry) {
+            inFlight.delete(id);
+          }
+        }
+      };
+      const entry = { key, promise: settle() };
+      inFlight.set(id, entry);
+      return entry.promise;
+    },
+    [restoreSnapshot, beginMutation, endMutation, showError]
+  );
+
+  // Fetch the stored copy of a todo and put it in view, e.g. after a save was based on a stale one
+  const refreshTodo = useCallback(
+    async (id: string): Promise<Todo | null> => {
+      const dto = await getTodoService().getTodoById(id);
+      if (!dto) {
+        removeTodo(id);
+        return null;
+      }
+      const todo = TodoMapper.toEntity(dto);
+      showTodo(todo);
+      return todo;
+    },
+    [getTodoService, showTodo, removeTodo]
+  );
+
+  // Record an edit whose undo puts the previous field values back
+  const recordEdit = useCallback(
+    (label: string, previous: Todo, dto: UpdateTodoDTO) => {
+      const before = TodoMapper.toUpdateDTO(previous);
+      const apply = async (changes: UpdateTodoDTO) => {
+        showTodo(TodoMapper.toEntity(await getTodoService().updateTodo(previous.id, changes)));
+      };
+      // Undo and redo apply over whatever has changed since, so the edit's version is dropped
+      const after = { ...dto, version: undefined };
+      record({ label, destructive: false, undo: () => apply(before), redo: () => apply(after) });
+    },
+    [getTodoService, showTodo, record]
+  );
+
+  // Load the first page for the current sort and filter
+  // Pages hold top-level todos; their subtasks are loaded alongside
+  // The owning list triggers this; items rendering the hook must not reload on mount
   const loadTodos = useCallback(async () => {
     try {
       setLoading(true);
+      // Restore the saved sort choice before the first load
+      if (!useTodoStore.persist.hasHydrated()) {
+        await useTodoStore.persist.rehydrate();
+      }
+      const { query, filter } = useTodoStore.getState();
       const service = getTodoService();
-      const todoDTOs = await service.getAllTodos();
+      const page = await service.searchTodos({
+        ...query,
+        filter: { ...filter, topLevelOnly: true },
+        limit: config.todos.pageSize,
+      });
 
       // Convert DTOs to domain entities
-      const todos = todoDTOs.map(dto =>
-        new Todo(dto.id, dto.title, dto.description, dto.status, new Date(dto.createdAt), new Date(dto.updatedAt))
-      );
+      const todos = page.items.map(TodoMapper.toEntity);
+      await loadSubtasks(todos);
 
       setTodos(todos);
+      setPageInfo(page.total, page.nextCursor);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load todos');
+      setError(ErrorMapper.toResponseDTO(err, 'Failed to load todos').message);
     } finally {
       setLoading(false);
     }
-  }, [getTodoService, setTodos, setLoading, setError]);
+  }, [getTodoService, loadSubtasks, setTodos, setPageInfo, setLoading, setError]);
+
+  const loadMore = useCallback(async () => {
+    const { query, filter, nextCursor } = useTodoStore.getState();
+    if (!nextCursor) {
+      return;
+    }
+    try {
+      setLoading(true);
+      const service = getTodoService();
+      const page = await service.searchTodos({
+        ...query,
+        filter: { ...filter, topLevelOnly: true },
+        cursor: nextCursor,
+        limit: config.todos.pageSize,
+      });
+
+      const todos = page.items.map(TodoMapper.toEntity);
+      await loadSubtasks(todos);
+      appendTodos(todos);
+      setPageInfo(page.total, page.nextCursor);
+    } catch (err) {
+      showError(err, 'Failed to load more todos');
+    } finally {
+      setLoading(false);
+    }
+  }, [getTodoService, loadSubtasks, appendTodos, setPageInfo, setLoading, showError]);
 
   const createTodo = useCallback(
-    async (dto: CreateTodoDTO) => {
-      try {
-        setLoading(true);
-        const service = getTodoService();
-        const todoDTO = await service.createTodo(dto);
-
-        const todo = new Todo(
-          todoDTO.id,
-          todoDTO.title,
-          todoDTO.description,
-          todoDTO.status,
-          new Date(todoDTO.createdAt),
-          new Date(todoDTO.updatedAt)
-        );
+    (dto: CreateTodoDTO) => {
+      const placeholder = predictCreate(dto);
+      return mutateTodo(placeholder.id, 'create', {
+        apply: () => addTodo(placeholder),
+        run: async () => {
+          const todo = TodoMapper.toEntity(await getTodoService().createTodo(dto));
 
-        addTodo(todo);
-        return todo;
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to create todo');
-        throw err;
-      } finally {
-        setLoading(false);
-      }
+          removeTodo(placeholder.id);
+          addTodo(todo);
+          record({
+            label: `Create "${todo.title}"`,
+            destructive: false,
+            undo: async () => {
+              await getTodoService().deleteTodo(todo.id);
+              removeTodo(todo.id);
+            },
+            redo: async () => {
+              showTodo(TodoMapper.toEntity(await getTodoService().restoreTodo(todo.id)));
+            },
+          });
+          return todo;
+        },
+        failure: 'Failed to create todo',
+        inline: true,
+      });
     },
-    [getTodoService, addTodo, setLoading, setError]
+    [getTodoService, mutateTodo, addTodo, removeTodo, showTodo, record]
   );
 
   const updateTodoItem = useCallback(
-    async (id: string, dto: UpdateTodoDTO) => {
-      try {
-        setLoading(true);
-        const service = getTodoService();
-        const todoDTO = await service.updateTodo(id, dto);
-
-        const todo = new Todo(
-          todoDTO.id,
-          todoDTO.title,
-          todoDTO.description,
-          todoDTO.status,
-          new Date(todoDTO.createdAt),
-          new Date(todoDTO.updatedAt)
-        );
+    (id: string, dto: UpdateTodoDTO) => {
+      const previous = findLoadedTodo(id);
+      return mutateTodo(id, `update:${JSON.stringify(dto)}`, {
+        apply: () => {
+          const predicted = previous && predictUpdate(previous, dto);
+          if (predicted) {
+            updateTodo(predicted);
+          }
+        },
+        run: async () => {
+          const todo = TodoMapper.toEntity(await getTodoService().updateTodo(id, dto));
 
-        updateTodo(todo);
-        return todo;
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to update todo');
-        throw err;
-      } finally {
-        setLoading(false);
-      }
+          updateTodo(todo);
+          if (previous) {
+            recordEdit(`Edit "${todo.title}"`, previous, dto);
+          }
+          return todo;
+        },
+        failure: 'Failed to update todo',
+        inline: true,
+      });
     },
-    [getTodoService, updateTodo, setLoading, setError]
+    [getTodoService, mutateTodo, updateTodo, recordEdit]
   );
 
   const deleteTodo = useCallback(
-    async (id: string) => {
-      try {
-        setLoading(true);
-        const service = getTodoService();
-        await service.deleteTodo(id);
-        removeTodo(id);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to delete todo');
-        throw err;
-      } finally {
-        setLoading(false);
+    (id: string) => {
+      const title = findLoadedTodo(id)?.title ?? 'todo';
+      return mutateTodo(id, 'delete', {
+        apply: () => removeTodo(id),
+        run: async () => {
+          await getTodoService().deleteTodo(id);
+          record({
+            label: `Delete "${title}"`,
+            destructive: true,
+            undo: async () => {
+              const todo = TodoMapper.toEntity(await getTodoService().restoreTodo(id));
+              showTodo(todo);
+              if (!todo.parentId) {
+                await loadSubtasks([todo]);
+              }
+            },
+            redo: async () => {
+              await getTodoService().deleteTodo(id);
+              removeTodo(id);
+            },
+          });
+        },
+        failure: 'Failed to delete todo',
+      });
+    },
+    [getTodoService, mutateTodo, loadSubtasks, removeTodo, showTodo, record]
+  );
+
+  // Archive a completed todo; it leaves the lists for the Archive view
+  const archiveTodo = useCallback(
+    (id: string) =>
+      mutateTodo(id, 'archive', {
+        apply: () => removeTodo(id),
+        run: async () => {
+          const todo = TodoMapper.toEntity(await getTodoService().archiveTodo(id));
+          record({
+            label: `Archive "${todo.title}"`,
+            destructive: false,
+            undo: async () => {
+              const restored = TodoMapper.toEntity(await getTodoService().unarchiveTodo(id));
+              showTodo(restored);
+              await loadSubtasks([restored]);
+            },
+            redo: async () => {
+              await getTodoService().archiveTodo(id);
+              removeTodo(id);
+            },
+          });
+          return todo;
+        },
+        failure: 'Failed to archive todo',
+      }),
+    [getTodoService, mutateTodo, loadSubtasks, removeTodo, showTodo, record]
+  );
+
+  // Move a todo to another list; it leaves the view when the list no longer matches
+  const moveToProject = useCallback(
+    (id: string, projectId: string | null) => {
+      const previous = findLoadedTodo(id);
+      return mutateTodo(id, `move:${projectId}`, {
+        apply: () => {
+          const predicted = previous && predictUpdate(previous, { projectId });
+          if (predicted) {
+            showTodo(predicted);
+          }
+        },
+        run: async () => {
+          const todo = TodoMapper.toEntity(await getTodoService().moveToProject(id, projectId));
+
+          showTodo(todo);
+          if (previous) {
+            recordEdit(`Move "${todo.title}"`, previous, { projectId });
+          }
+          return todo;
+        },
+        failure: 'Failed to move todo',
+      });
+    },
+    [getTodoService, mutateTodo, showTodo, recordEdit]
+  );
+
+  // Put a todo between two others in the manual order; null for the start or end
+  const moveTodo = useCallback(
+    (id: string, beforeId: string | null, afterId: string | null) => {
+      const previous = findLoadedTodo(id);
+      // Where it was, to move it back on undo
+      const [previousBeforeId, previousAfterId] = previous ? manualNeighbours(previous) : [null, null];
+      let predicted: Todo | null = null;
+      return mutateTodo(id, `reorder:${beforeId}:${afterId}`, {
+        apply: () => {
+          const before = beforeId ? (findLoadedTodo(beforeId)?.position ?? null) : null;
+          const after = afterId ? (findLoadedTodo(afterId)?.position ?? null) : null;
+          predicted = previous
+            ? predict(previous, (copy) => copy.reposition(positionBetween(before, after)))
+            : null;
+          if (predicted) {
+            showTodo(predicted);
+          }
+        },
+        run: async () => {
+          const move = async (before: string | null, after: string | null) => {
+            const todo = TodoMapper.toEntity(await getTodoService().moveTodo(id, before, after));
+            showTodo(todo);
+            return todo;
+          };
+          const todo = await move(beforeId, afterId);
+          // A different key than predicted means the order was rebalanced, moving the others too
+          if (todo.position !== predicted?.position) {
+            await loadTodos();
+          }
+          record({
+            label: `Reorder "${todo.title}"`,
+            destructive: false,
+            undo: async () => {
+              await move(previousBeforeId, previousAfterId);
+            },
+            redo: async () => {
+              await move(beforeId, afterId);
+            },
+          });
+          return todo;
+        },
+        failure: 'Failed to reorder todo',
+      });
+    },
+    [getTodoService, mutateTodo, showTodo, loadTodos, record]
+  );
+
+  // Reopening a subtask reopens its completed parent, so fetch the parent again
+  const refreshParent = useCallback(
+    async (todo: Todo) => {
+      if (!todo.parentId || !todo.isOpen()) {
+        return;
+      }
+      const parent = useTodoStore.getState().todos.find((t) => t.id === todo.parentId);
+      if (parent?.isCompleted()) {
+        const parentDTO = await getTodoService().getTodoById(parent.id);
+        if (parentDTO) {
+          updateTodo(TodoMapper.toEntity(parentDTO));
+        }
       }
     },
-    [getTodoService, removeTodo, setLoading, setError]
+    [getTodoService, updateTodo]
   );
 
-  const toggleTodoStatus = useCallback(
-    async (id: string) => {
-      try {
-        setLoading(true);
-        const service = getTodoService();
-        const todoDTO = await service.toggleTodoStatus(id);
-
-        const todo = new Todo(
-          todoDTO.id,
-          todoDTO.title,
-          todoDTO.description,
-          todoDTO.status,
-          new Date(todoDTO.createdAt),
-          new Date(todoDTO.updatedAt)
-        );
+  // The occurrence following a recurring todo, once it has been created
+  const findNextOccurrence = useCallback(
+    async (todo: Todo): Promise<Todo | null> => {
+      if (!todo.isRecurring()) {
+        return null;
+      }
+      const page = await getTodoService().searchTodos({
+        filter: { seriesId: todo.seriesId ?? todo.id },
+      });
+      const next = page.items.find((dto) => dto.occurrence === todo.occurrence + 1);
+      return next ? TodoMapper.toEntity(next) : null;
+    },
+    [getTodoService]
+  );
+
+  // Completing a recurring todo creates its next occurrence; show it alongside
+  const showNextOccurrence = useCallback(
+    async (todo: Todo): Promise<Todo | null> => {
+      if (!todo.isCompleted()) {
+        return null;
+      }
+      const next = await findNextOccurrence(todo);
+      if (next && !useTodoStore.getState().todos.some((t) => t.id === next.id)) {
+        addTodo(next);
+      }
+      return next;
+    },
+    [findNextOccurrence, addTodo]
+  );
 
+  // Put a todo back to an earlier status through the transitions the workflow allows
+  const revertStatus = useCallback(
+    async (id: string, status: TodoStatusType) => {
+      const dto = await getTodoService().getTodoById(id);
+      if (!dto) {
+        removeTodo(id);
+        return;
+      }
+      for (const step of statusesBackTo(TodoMapper.toEntity(dto), status)) {
+        const todo = TodoMapper.toEntity(await getTodoService().transitionStatus(id, step));
         updateTodo(todo);
-        return todo;
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to toggle todo status');
-        throw err;
-      } finally {
-        setLoading(false);
+        await refreshParent(todo);
       }
     },
-    [getTodoService, updateTodo, setLoading, setError]
+    [getTodoService, updateTodo, removeTodo, refreshParent]
+  );
+
+  // Take away a next occurrence a completion created, as the todo it follows is open again
+  const removeOccurrence = useCallback(
+    async (occurrence: Todo | null) => {
+      if (occurrence) {
+        await getTodoService().deleteTodo(occurrence.id);
+        removeTodo(occurrence.id);
+      }
+    },
+    [getTodoService, removeTodo]
+  );
+
+  // The next occurrence a status change created; null when there was one already
+  const spawnedOccurrence = useCallback(
+    async (todo: Todo, hadNext: boolean) => (hadNext ? null : showNextOccurrence(todo)),
+    [showNextOccurrence]
+  );
+
+  // Show a status change the domain allows before the service confirms it
+  const applyStatusChange = useCallback(
+    (id: string, change: (copy: Todo, subtasks: Todo[]) => void) => {
+      const todo = findLoadedTodo(id);
+      const subtasks = findLoadedSubtasks(id) ?? [];
+      const predicted = todo && predict(todo, (copy) => change(copy, subtasks));
+      if (predicted) {
+        updateTodo(predicted);
+      }
+    },
+    [updateTodo]
+  );
+
+  const toggleTodoStatus = useCallback(
+    (id: string) =>
+      mutateTodo(id, 'toggle', {
+        apply: () =>
+          applyStatusChange(id, (copy, subtasks) =>
+            copy.isCompleted() ? copy.reopen() : copy.complete(subtasks)
+          ),
+        run: async () => {
+          const todo = TodoMapper.toEntity(await getTodoService().toggleTodoStatus(id));
+
+          updateTodo(todo);
+          await refreshParent(todo);
+          await showNextOccurrence(todo);
+          // Toggling is its own inverse
+          const toggleAgain = async () => {
+            const toggled = TodoMapper.toEntity(await getTodoService().toggleTodoStatus(id));
+            updateTodo(toggled);
+            await refreshParent(toggled);
+          };
+          record({
+            label: `${todo.isCompleted() ? 'Complete' : 'Reopen'} "${todo.title}"`,
+            destructive: false,
+            undo: toggleAgain,
+            redo: toggleAgain,
+          });
+          return todo;
+        },
+        failure: 'Failed to toggle todo status',
+      }),
+    [
+      getTodoService,
+      mutateTodo,
+      applyStatusChange,
+      updateTodo,
+      refreshParent,
+      showNextOccurrence,
+      record,
+    ]
+  );
+
+  const transitionStatus = useCallback(
+    (id: string, target: TodoStatusType) => {
+      const previous = findLoadedTodo(id);
+      return mutateTodo(id, `status:${target}`, {
+        apply: () => applyStatusChange(id, (copy, subtasks) => copy.transitionTo(target, subtasks)),
+        run: async () => {
+          const before = previous ?? (await refreshTodo(id));
+          const hadNext = !before || (await findNextOccurrence(before)) !== null;
+          let spawned: Todo | null = null;
+          const transition = async () => {
+            const todo = TodoMapper.toEntity(await getTodoService().transitionStatus(id, target));
+            updateTodo(todo);
+            await refreshParent(todo);
+            spawned = await spawnedOccurrence(todo, hadNext);
+            return todo;
+          };
+          const todo = await transition();
+
+          if (before) {
+            record({
+              label: `Change the status of "${todo.title}"`,
+              destructive: false,
+              undo: async () => {
+                await revertStatus(id, before.status);
+                await removeOccurrence(spawned);
+              },
+              redo: async () => {
+                await transition();
+              },
+            });
+          }
+          return todo;
+        },
+        failure: 'Failed to change todo status',
+      });
+    },
+    [
+      getTodoService,
+      mutateTodo,
+      applyStatusChange,
+      updateTodo,
+      refreshTodo,
+      refreshParent,
+      findNextOccurrence,
+      spawnedOccurrence,
+      revertStatus,
+      removeOccurrence,
+      record,
+    ]
+  );
+
+  // Complete a todo and every open subtask in one go
+  // Undo puts back the status of the todo and of each subtask it completed
+  const completeWithSubtasks = useCallback(
+    (id: string) => {
+      const previous = findLoadedTodo(id);
+      const previousSubtasks = findLoadedSubtasks(id);
+      return mutateTodo(id, 'complete-all', {
+        apply: () => {
+          const subtasks = (previousSubtasks ?? []).map(copyTodo);
+          const predicted = previous && predict(previous, (copy) => copy.completeAll(subtasks));
+          if (predicted) {
+            setSubtasks([id], subtasks);
+            updateTodo(predicted);
+          }
+        },
+        run: async () => {
+          const before = previous ?? (await refreshTodo(id));
+          const subtasksBefore =
+            previousSubtasks ??
+            (await getTodoService().getSubtasks([id])).map(TodoMapper.toEntity);
+          const hadNext = !before || (await findNextOccurrence(before)) !== null;
+          let spawned: Todo | null = null;
+          const complete = async () => {
+            const todo = TodoMapper.toEntity(await getTodoService().completeWithSubtasks(id));
+            await loadSubtasks([todo]);
+            updateTodo(todo);
+            spawned = await spawnedOccurrence(todo, hadNext);
+            return todo;
+          };
+          const todo = await complete();
+
+          if (before) {
+            record({
+              label: `Complete "${todo.title}" and its subtasks`,
+              destructive: false,
+              undo: async () => {
+                // The todo first, as reopening a subtask reopens a completed parent anyway
+                await revertStatus(id, before.status);
+                for (const subtask of subtasksBefore.filter((s) => !s.isCompleted())) {
+                  await revertStatus(subtask.id, subtask.status);
+                }
+                await loadSubtasks([before]);
+                await removeOccurrence(spawned);
+              },
+              redo: async () => {
+                await complete();
+              },
+            });
+          }
+          return todo;
+        },
+        failure: 'Failed to complete todo',
+      });
+    },
+    [
+      getTodoService,
+      mutateTodo,
+      loadSubtasks,
+      setSubtasks,
+      updateTodo,
+      refreshTodo,
+      findNextOccurrence,
+      spawnedOccurrence,
+      revertStatus,
+      removeOccurrence,
+      record,
+    ]
+  );
+
+  // Change or stop (with null) the schedule of a todo's series
+  const updateSeries = useCallback(
+    (id: string, recurrence: RecurrenceDTO | null) => {
+      const previous = findLoadedTodo(id)?.recurrence ?? null;
+      return mutateTodo(id, `series:${JSON.stringify(recurrence)}`, {
+        apply: () => {
+          const todo = findLoadedTodo(id);
+          const predicted = todo && predictUpdate(todo, { recurrence });
+          if (predicted) {
+            updateTodo(predicted);
+          }
+        },
+        run: async () => {
+          const todo = TodoMapper.toEntity(await getTodoService().updateSeries(id, recurrence));
+
+          updateTodo(todo);
+          const apply = async (rule: RecurrenceDTO | null) => {
+            updateTodo(TodoMapper.toEntity(await getTodoService().updateSeries(id, rule)));
+          };
+          const before = previous ? TodoMapper.toRecurrenceDTO(previous) : null;
+          record({
+            label: recurrence ? `Change repeat of "${todo.title}"` : `Stop repeating "${todo.title}"`,
+            destructive: false,
+            undo: () => apply(before),
+            redo: () => apply(recurrence),
+          });
+          return todo;
+        },
+        failure: 'Failed to update the series',
+        inline: true,
+      });
+    },
+    [getTodoService, mutateTodo, updateTodo, record]
+  );
+
+  const changeQuery = useCallback(
+    async (nextQuery: TodoQuery) => {
+      setQuery(nextQuery);
+      await loadTodos();
+    },
+    [setQuery, loadTodos]
+  );
+
+  const changeFilter = useCallback(
+    async (nextFilter: TodoFilter) => {
+      setFilter(nextFilter);
+      await loadTodos();
+    },
+    [setFilter, loadTodos]
   );
 
   return {
     todos,
+    subtasks,
     isLoading,
+    // Whether a mutation of this todo is still waiting for the service
+    isPending: (id: string) => (pending[id] ?? 0) > 0,
     error,
+    query,
+    filter,
+    total,
+    hasMore: nextCursor !== null,
+    setQuery: changeQuery,
+    setFilter: changeFilter,
+    loadMore,
     loadTodos,
+    refreshTodo,
     createTodo,
     updateTodo: updateTodoItem,
     deleteTodo,
+    archiveTodo,
+    moveToProject,
+    moveTodo,
     toggleTodoStatus,
+    transitionStatus,
+    completeWithSubtasks,
+    updateSeries,
   };
 }
@@ -0,0 +1,91 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useTrashStore } from '@/application/store/TrashStore';
+import { AppDependencyFactory } from '@/infrastructure/factories/app-dependency.factory';
+import { TodoService } from '@/application/services/todo/todo.service';
+import { TodoMapper } from '@/application/services/todo/mappers/todo.mapper';
+
+/**
+ * useTrash Hook
+ * Lists deleted todos and restores or purges them
+ */
+export function useTrash() {
+  const { trash, isLoading, error, setTrash, setLoading, setError } = useTrashStore();
+
+  // Get service via invoker pattern
+  const getTodoService = useCallback((): TodoService => {
+    const factory = AppDependencyFactory.getInstance();
+    const serviceInvoker = factory.getServiceInvoker();
+    return serviceInvoker.invoke<TodoService>('todoService');
+  }, []);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const todoDTOs = await getTodoService().getTrash();
+      setTrash(todoDTOs.map(TodoMapper.toEntity));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  }, [getTodoService, setTrash, setLoading, setError]);
+
+  // Subtasks deleted along with a todo come back with it
+  const restoreTodo = useCallback(
+    async (id: string) => {
+      try {
+        setLoading(true);
+        const todo = TodoMapper.toEntity(await getTodoService().restoreTodo(id));
+        await loadTrash();
+        return todo;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to restore todo');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTodoService, loadTrash, setLoading, setError]
+  );
+
+  const purgeTodo = useCallback(
+    async (id: string) => {
+      try {
+        setLoading(true);
+        await getTodoService().purgeTodo(id);
+        await loadTrash();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete todo for good');
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [getTodoService, loadTrash, setLoading, setError]
+  );
+
+  const emptyTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      await getTodoService().emptyTrash();
+      setTrash([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty the trash');
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  }, [getTodoService, setTrash, setLoading, setError]);
+
+  return {
+    trash,
+    isLoading,
+    error,
+    loadTrash,
+    restoreTodo,
+    purgeTodo,
+    emptyTrash,
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Empty module for Node built-ins in the browser bundle
+ * Server-only repositories are never constructed there, they only need to resolve
+ */
+const emptyModule = {};
+
+export default emptyModule;
@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  turbopack: {
+    resolveAlias: {
+      // FileTodoRepository is reachable from client code through the dependency provider
+      fs: { browser: "./infrastructure/shims/empty-module.ts" },
+    },
+  },
 };
 
 export default nextConfig;
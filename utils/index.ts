@@ -1,3 +1,5 @@
+import { Recurrence } from '@/domain/types/Recurrence';
+
 /**
  * Application-level utility functions
  * Add your utility functions here
@@ -7,3 +9,88 @@
 export const formatDate = (date: Date): string => {
   return date.toLocaleDateString();
 };
+
+export const formatDateTime = (date: Date): string => {
+  return date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+/**
+ * Format a date for a `datetime-local` input (local time, no seconds)
+ */
+export const toDateTimeLocalValue = (date: Date | null): string => {
+  if (!date) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+/**
+ * Parse a `datetime-local` input value into an ISO string, or null when empty
+ */
+export const fromDateTimeLocalValue = (value: string): string | null => {
+  return value ? new Date(value).toISOString() : null;
+};
+
+/**
+ * Ask for notification permission the first time a reminder is set
+ */
+export const requestNotificationPermission = (): void => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    void Notification.requestPermission();
+  }
+};
+
+/**
+ * Format a date for a `date` input (local calendar day)
+ */
+export const toDateInputValue = (date: Date | undefined): string => {
+  return date ? toDateTimeLocalValue(date).slice(0, 10) : '';
+};
+
+/**
+ * Parse a `date` input value as the start (or end) of that local day
+ */
+export const fromDateInputValue = (value: string, endOfDay = false): Date | undefined => {
+  if (!value) return undefined;
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Midnight at the start of the date's local day
+ */
+export const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * The same local time a number of calendar days later (or earlier when negative)
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Describe a recurrence rule, e.g. "Every 2 weeks on Mon, Thu, 5 times"
+ */
+export const describeRecurrence = (rule: Recurrence): string => {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    const days = [...rule.weekdays].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]);
+    text += ` on ${days.join(', ')}`;
+  }
+  if (rule.frequency === 'monthly' && rule.monthDay) {
+    text += ` on day ${rule.monthDay}`;
+  }
+  if (rule.until) {
+    text += ` until ${formatDate(rule.until)}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+  return text;
+};